@@ -1,6 +1,7 @@
 import Conf from 'conf';
 import { SUPPORTED_MODELS } from './models.js';
 import type { GraphStoreConfig } from '../graph/store/GraphStore.js';
+import type { IndexingOptions } from '../graph/SourceFileScanner.js';
 
 interface Config {
   apiKey?: string;
@@ -10,6 +11,7 @@ interface Config {
   autoTest: boolean;
   reviewMode: 'all' | 'each' | 'auto';
   graphStore: GraphStoreConfig;
+  indexing?: IndexingOptions;
 }
 
 const config = new Conf<Config>({
@@ -34,6 +36,7 @@ export async function loadConfig(): Promise<Config> {
     autoTest: config.get('autoTest'),
     reviewMode: config.get('reviewMode'),
     graphStore: storedGraphStore ?? { kind: 'memory' },
+    indexing: config.get('indexing'),
   };
 }
 
@@ -92,7 +92,32 @@ export class TransformersEmbedder implements Embedder {
   }
 
   async embedBatch(texts: string[]): Promise<number[][]> {
-    return Promise.all(texts.map(text => this.embed(text)));
+    if (texts.length === 0) {
+      return [];
+    }
+    if (!this.initialized) {
+      await this.initialize();
+    }
+
+    if (!this.model) {
+      throw new Error('Embedding model not initialised');
+    }
+
+    try {
+      // One pipeline call pads the batch into a single [texts, dimensions] tensor.
+      const output = await this.model(texts, {
+        pooling: 'mean',
+        normalize: true,
+      });
+
+      return output.tolist() as number[][];
+    } catch (error) {
+      throw new Error(
+        `Embedding failed${this.activeModelId ? ` (model ${this.activeModelId})` : ''}: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+    }
   }
 }
 
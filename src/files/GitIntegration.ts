@@ -5,6 +5,19 @@ export interface CommitOptions {
   stageAll?: boolean;
 }
 
+export interface LineRange {
+  start: number;
+  end: number;
+}
+
+export interface ChangedFile {
+  /** Relative to the repository path the integration was created for. */
+  path: string;
+  status: 'added' | 'modified' | 'deleted';
+  /** Changed lines on the new side; empty when the whole file counts as changed. */
+  ranges: LineRange[];
+}
+
 export class GitIntegration {
   private readonly git: SimpleGit;
 
@@ -34,6 +47,27 @@ export class GitIntegration {
     return this.git.diff(['--', filePath]);
   }
 
+  /**
+   * Files changed since `since` (a ref or range such as `main...HEAD`, default
+   * `HEAD`) including uncommitted edits, plus untracked files when diffing
+   * against the working tree.
+   */
+  async changedFiles(since = 'HEAD'): Promise<ChangedFile[]> {
+    // Renames are listed as a deletion plus an addition so both paths are analyzed.
+    const diff = await this.git.diff(['-U0', '--relative', '--no-color', '--no-renames', since]);
+    const changes = parseUnifiedDiff(diff);
+    if (!since.includes('..')) {
+      const untracked = await this.git.raw(['ls-files', '--others', '--exclude-standard']);
+      for (const line of untracked.split('\n')) {
+        const filePath = line.trim();
+        if (filePath) {
+          changes.push({ path: filePath, status: 'added', ranges: [] });
+        }
+      }
+    }
+    return changes;
+  }
+
   async commit(options: CommitOptions): Promise<void> {
     if (options.stageAll) {
       await this.git.add(['-A']);
@@ -50,3 +84,71 @@ export class GitIntegration {
     }
   }
 }
+
+/**
+ * Reads the files and new-side hunk ranges of a unified diff, best produced
+ * with `-U0`. A rename is reported as its old path deleted and its new path
+ * added; binary files are reported without ranges.
+ */
+export function parseUnifiedDiff(diff: string): ChangedFile[] {
+  const files: ChangedFile[] = [];
+  let oldPath: string | null = null;
+  let current: ChangedFile | null = null;
+  let renamed = false;
+
+  for (const line of diff.split('\n')) {
+    if (line.startsWith('diff --git ')) {
+      oldPath = null;
+      current = null;
+      renamed = false;
+    } else if (line.startsWith('rename from ')) {
+      renamed = true;
+      files.push({ path: unquote(line.slice('rename from '.length)), status: 'deleted', ranges: [] });
+    } else if (line.startsWith('rename to ')) {
+      files.push({ path: unquote(line.slice('rename to '.length)), status: 'added', ranges: [] });
+    } else if (renamed) {
+      continue;
+    } else if (line.startsWith('Binary files ')) {
+      const match = /^Binary files (.+) and (.+) differ$/.exec(line);
+      if (!match) continue;
+      const before = diffPath(match[1]);
+      const after = diffPath(match[2]);
+      files.push(
+        after
+          ? { path: after, status: before ? 'modified' : 'added', ranges: [] }
+          : { path: before ?? '', status: 'deleted', ranges: [] }
+      );
+    } else if (line.startsWith('--- ')) {
+      oldPath = diffPath(line.slice(4));
+    } else if (line.startsWith('+++ ')) {
+      const newPath = diffPath(line.slice(4));
+      current = newPath
+        ? { path: newPath, status: oldPath ? 'modified' : 'added', ranges: [] }
+        : { path: oldPath ?? '', status: 'deleted', ranges: [] };
+      files.push(current);
+    } else if (line.startsWith('@@') && current && current.status === 'modified') {
+      const match = /^@@ -\d+(?:,\d+)? \+(\d+)(?:,(\d+))? @@/.exec(line);
+      if (!match) continue;
+      const start = Number(match[1]);
+      const count = match[2] === undefined ? 1 : Number(match[2]);
+      // A pure deletion has no new lines; it touches the line it happened after.
+      current.ranges.push(
+        count === 0 ? { start: Math.max(1, start), end: Math.max(1, start) } : { start, end: start + count - 1 }
+      );
+    }
+  }
+  return files.filter(file => file.path);
+}
+
+function diffPath(raw: string): string | null {
+  const value = raw.replace(/\t.*$/, '').trim();
+  if (value === '/dev/null') {
+    return null;
+  }
+  return unquote(value).replace(/^[ab]\//, '');
+}
+
+function unquote(value: string): string {
+  const trimmed = value.trim();
+  return trimmed.startsWith('"') ? trimmed.slice(1, -1) : trimmed;
+}
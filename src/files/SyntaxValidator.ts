@@ -12,7 +12,7 @@ export class SyntaxValidator {
 
   async validate(content: string, filePath: string): Promise<SyntaxCheckResult> {
     const language = languageRegistry.inferFromPath(filePath);
-    if (!language) {
+    if (!language || !languageRegistry.canParse(language)) {
       return { valid: true, errors: [] };
     }
 
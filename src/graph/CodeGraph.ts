@@ -2,7 +2,21 @@ import { randomUUID } from 'crypto';
 
 export interface GraphNode {
   id: string;
-  type: 'file' | 'function' | 'class' | 'import';
+  type:
+    | 'file'
+    | 'function'
+    | 'class'
+    | 'interface'
+    | 'type_alias'
+    | 'enum'
+    | 'constant'
+    | 'variable'
+    | 'import'
+    | 'package'
+    | 'test'
+    | 'config_key'
+    | 'doc_section'
+    | 'sql_statement';
   name: string;
   path: string;
   content: string;
@@ -16,15 +30,35 @@ export interface GraphEdge {
   id: string;
   from: string;
   to: string;
-  type: 'contains' | 'imports' | 'calls' | 'references' | 'extends' | 'implements';
+  type: 'contains' | 'imports' | 'calls' | 'references' | 'extends' | 'implements' | 'tests';
   metadata: Record<string, unknown>;
 }
 
-export class CodeGraph {
+/**
+ * Read-only query surface shared by `CodeGraph` and views layered over it, so
+ * retrieval code can run against an overlay without materialising a copy.
+ */
+export interface GraphView {
+  getNode(id: string): GraphNode | undefined;
+  hasNode(id: string): boolean;
+  getNodesByPath(path: string): GraphNode[];
+  getAllNodes(): GraphNode[];
+  getAllEdges(): GraphEdge[];
+  getOutgoingEdges(nodeId: string): GraphEdge[];
+  getIncomingEdges(nodeId: string): GraphEdge[];
+  getNeighbors(nodeId: string, edgeType?: string): GraphNode[];
+  getPredecessors(nodeId: string, edgeType?: string): GraphNode[];
+  /** Materialise the view into a standalone, mutable graph. */
+  clone(): CodeGraph;
+  toJSON(): string;
+}
+
+export class CodeGraph implements GraphView {
   private nodes: Map<string, GraphNode> = new Map();
   private edges: Map<string, GraphEdge> = new Map();
   private nodesByPath: Map<string, Set<string>> = new Map();
   private edgesByNode: Map<string, Set<string>> = new Map();
+  private incomingEdgesByNode: Map<string, Set<string>> = new Map();
 
   addNode(node: GraphNode | Omit<GraphNode, 'id'>): GraphNode {
     const fullNode: GraphNode = 'id' in node ? node : { ...node, id: randomUUID() };
@@ -58,8 +92,8 @@ export class CodeGraph {
 
     const existing = this.edges.get(edge.id);
     if (existing) {
-      const fromSet = this.edgesByNode.get(existing.from);
-      fromSet?.delete(existing.id);
+      this.edgesByNode.get(existing.from)?.delete(existing.id);
+      this.incomingEdgesByNode.get(existing.to)?.delete(existing.id);
     }
 
     this.edges.set(edge.id, edge);
@@ -79,22 +113,24 @@ export class CodeGraph {
     }
 
     // Remove all connected edges (outgoing)
-    const outgoing = this.edgesByNode.get(nodeId);
-    if (outgoing) {
-      for (const edgeId of outgoing) {
-        this.edges.delete(edgeId);
+    for (const edgeId of this.edgesByNode.get(nodeId) ?? []) {
+      const edge = this.edges.get(edgeId);
+      this.edges.delete(edgeId);
+      if (edge) {
+        this.incomingEdgesByNode.get(edge.to)?.delete(edgeId);
       }
     }
     this.edgesByNode.delete(nodeId);
 
     // Remove incoming edges
-    for (const [edgeId, edge] of this.edges.entries()) {
-      if (edge.to === nodeId) {
-        this.edges.delete(edgeId);
-        const fromEdges = this.edgesByNode.get(edge.from);
-        fromEdges?.delete(edgeId);
+    for (const edgeId of this.incomingEdgesByNode.get(nodeId) ?? []) {
+      const edge = this.edges.get(edgeId);
+      this.edges.delete(edgeId);
+      if (edge) {
+        this.edgesByNode.get(edge.from)?.delete(edgeId);
       }
     }
+    this.incomingEdgesByNode.delete(nodeId);
 
     this.nodes.delete(nodeId);
   }
@@ -154,6 +190,21 @@ export class CodeGraph {
     return result;
   }
 
+  getIncomingEdges(nodeId: string): GraphEdge[] {
+    const edgeIds = this.incomingEdgesByNode.get(nodeId);
+    if (!edgeIds) {
+      return [];
+    }
+    const result: GraphEdge[] = [];
+    for (const id of edgeIds) {
+      const edge = this.edges.get(id);
+      if (edge) {
+        result.push(edge);
+      }
+    }
+    return result;
+  }
+
   getNeighbors(nodeId: string, edgeType?: string): GraphNode[] {
     const edges = this.getOutgoingEdges(nodeId);
     const filtered = edgeType ? edges.filter(e => e.type === edgeType) : edges;
@@ -162,6 +213,15 @@ export class CodeGraph {
       .filter((node): node is GraphNode => Boolean(node));
   }
 
+  /** Nodes with an edge pointing at `nodeId`, e.g. the callers of a function. */
+  getPredecessors(nodeId: string, edgeType?: string): GraphNode[] {
+    const edges = this.getIncomingEdges(nodeId);
+    const filtered = edgeType ? edges.filter(e => e.type === edgeType) : edges;
+    return filtered
+      .map(edge => this.nodes.get(edge.from))
+      .filter((node): node is GraphNode => Boolean(node));
+  }
+
   clone(): CodeGraph {
     const cloned = new CodeGraph();
     cloned.nodes = new Map(this.nodes);
@@ -172,6 +232,9 @@ export class CodeGraph {
     cloned.edgesByNode = new Map(
       Array.from(this.edgesByNode.entries()).map(([from, ids]) => [from, new Set(ids)])
     );
+    cloned.incomingEdgesByNode = new Map(
+      Array.from(this.incomingEdgesByNode.entries()).map(([to, ids]) => [to, new Set(ids)])
+    );
     return cloned;
   }
 
@@ -196,10 +259,7 @@ export class CodeGraph {
 
     for (const edge of data.edges as GraphEdge[]) {
       graph.edges.set(edge.id, edge);
-      if (!graph.edgesByNode.has(edge.from)) {
-        graph.edgesByNode.set(edge.from, new Set());
-      }
-      graph.edgesByNode.get(edge.from)!.add(edge.id);
+      graph.indexEdge(edge);
     }
 
     return graph;
@@ -217,5 +277,10 @@ export class CodeGraph {
       this.edgesByNode.set(edge.from, new Set());
     }
     this.edgesByNode.get(edge.from)!.add(edge.id);
+
+    if (!this.incomingEdgesByNode.has(edge.to)) {
+      this.incomingEdgesByNode.set(edge.to, new Set());
+    }
+    this.incomingEdgesByNode.get(edge.to)!.add(edge.id);
   }
 }
@@ -1,4 +1,5 @@
 import { CodeGraph, GraphNode, GraphEdge } from './CodeGraph.js';
+import { LayeredGraph } from './LayeredGraph.js';
 
 export interface DiffOperation {
   type: 'add' | 'remove' | 'modify';
@@ -10,13 +11,22 @@ export interface DiffOperation {
   timestamp: number;
 }
 
+/** Identifies the graph an overlay was recorded against without embedding it. */
+export interface OverlayBaseRef {
+  /** Digest of the base graph's file digests (see `computeGraphFingerprint`). */
+  fingerprint: string;
+  /** Store snapshot the base was loaded from or saved as, when known. */
+  snapshotId?: string;
+}
+
 export class DiffOverlay {
   private operations: DiffOperation[] = [];
   private modifiedPaths: Set<string> = new Set();
+  private fileDigests: Map<string, string | null> = new Map();
   
   constructor(
     public readonly id: string,
-    public readonly baseGraphSnapshot: string
+    public readonly base: OverlayBaseRef
   ) {}
 
   addOperation(op: Omit<DiffOperation, 'timestamp'>): void {
@@ -43,6 +53,18 @@ export class DiffOverlay {
     return new Set(this.modifiedPaths);
   }
 
+  /**
+   * Remember the digest a file had on disk when it was recorded, or null when
+   * it did not exist, so later merges can spot edits made outside the overlay.
+   */
+  recordFileDigest(path: string, digest: string | null): void {
+    this.fileDigests.set(path, digest);
+  }
+
+  getFileDigest(path: string): string | null | undefined {
+    return this.fileDigests.get(path);
+  }
+
   clearPath(path: string): void {
     this.operations = this.operations.filter(operation => {
       if (operation.node && operation.node.path === path) {
@@ -54,36 +76,12 @@ export class DiffOverlay {
       return true;
     });
     this.modifiedPaths.delete(path);
+    this.fileDigests.delete(path);
   }
 
-  apply(baseGraph: CodeGraph): CodeGraph {
-    const graph = baseGraph.clone();
-    
-    for (const op of this.operations) {
-      switch (op.type) {
-        case 'add':
-          if (op.node) {
-            graph.upsertNode(op.node);
-          } else if (op.edge) {
-            graph.upsertEdge(op.edge);
-          }
-          break;
-          
-        case 'remove':
-          if (op.nodeId) {
-            graph.removeNode(op.nodeId);
-          }
-          break;
-          
-        case 'modify':
-          if (op.node) {
-            graph.upsertNode(op.node);
-          }
-          break;
-      }
-    }
-    
-    return graph;
+  /** Layer the operations over `baseGraph` without copying it. */
+  apply(baseGraph: CodeGraph): LayeredGraph {
+    return new LayeredGraph(baseGraph, this.operations);
   }
 
   size(): number {
@@ -97,17 +95,21 @@ export class DiffOverlay {
   toJSON(): string {
     return JSON.stringify({
       id: this.id,
-      baseGraphSnapshot: this.baseGraphSnapshot,
+      base: this.base,
       operations: this.operations,
-      modifiedPaths: Array.from(this.modifiedPaths)
+      modifiedPaths: Array.from(this.modifiedPaths),
+      fileDigests: Object.fromEntries(this.fileDigests)
     });
   }
 
   static fromJSON(json: string): DiffOverlay {
     const data = JSON.parse(json);
-    const overlay = new DiffOverlay(data.id, data.baseGraphSnapshot);
+    // Overlays written before base refs existed embedded the whole base graph;
+    // an empty fingerprint never matches, so their files get re-recorded.
+    const overlay = new DiffOverlay(data.id, data.base ?? { fingerprint: '' });
     overlay.operations = data.operations;
     overlay.modifiedPaths = new Set(data.modifiedPaths);
+    overlay.fileDigests = new Map(Object.entries(data.fileDigests ?? {}));
     return overlay;
   }
 }
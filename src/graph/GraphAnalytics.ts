@@ -0,0 +1,278 @@
+import type { GraphEdge, GraphNode, GraphView } from './CodeGraph.js';
+import { languageRegistry } from '../parser/LanguageRegistry.js';
+
+/** Edges through which one node depends on another; `contains` and `tests` are structure, not use. */
+export const DEPENDENCY_EDGE_TYPES: GraphEdge['type'][] = ['imports', 'calls', 'references', 'extends', 'implements'];
+
+export interface PageRankOptions {
+  damping?: number;
+  maxIterations?: number;
+  /** Stop once the ranks move less than this in total between iterations. */
+  tolerance?: number;
+}
+
+export interface Hotspot {
+  node: GraphNode;
+  /** Distinct nodes depending on this one. */
+  fanIn: number;
+  /** Distinct nodes this one depends on. */
+  fanOut: number;
+}
+
+export interface GraphAnalysis {
+  /** PageRank over dependency edges, scaled so the most central node scores 1. */
+  centrality: Map<string, number>;
+  /** Files that import each other in a loop, one list per strongly connected component. */
+  cycles: GraphNode[][];
+  orphans: GraphNode[];
+  hotspots: Hotspot[];
+}
+
+// Symbols only: files, packages and tests would crowd out the functions worth looking at.
+const NON_SYMBOL_TYPES = new Set<GraphNode['type']>([
+  'file',
+  'package',
+  'import',
+  'test',
+  'config_key',
+  'doc_section',
+  'sql_statement',
+]);
+
+const DEFAULT_HOTSPOT_LIMIT = 20;
+
+/**
+ * Whole-graph metrics: PageRank and in-degree centrality, import cycles found as
+ * strongly connected components (Tarjan), orphan files nothing depends on, and
+ * fan-in/fan-out hotspots. `annotate` stores them in node metadata so retrieval
+ * can rank by them without recomputing.
+ */
+export class GraphAnalytics {
+  constructor(private readonly graph: GraphView) {}
+
+  analyze(hotspotLimit = DEFAULT_HOTSPOT_LIMIT, degrees = this.degrees()): GraphAnalysis {
+    const ranks = this.pageRank();
+    let top = 0;
+    for (const rank of ranks.values()) top = Math.max(top, rank);
+    const centrality = new Map(
+      Array.from(ranks, ([id, rank]) => [id, top > 0 ? rank / top : 0] as [string, number])
+    );
+    return {
+      centrality,
+      cycles: this.importCycles(),
+      orphans: this.orphanFiles(),
+      hotspots: this.hotspots(hotspotLimit, degrees),
+    };
+  }
+
+  /**
+   * Writes `centrality`, `inDegree`, `fanIn`, `fanOut`, `importCycle` (a number shared
+   * by the files of one cycle) and `orphan` into node metadata, clearing values
+   * left by an earlier run.
+   */
+  annotate(hotspotLimit = DEFAULT_HOTSPOT_LIMIT): GraphAnalysis {
+    const degrees = this.degrees();
+    const analysis = this.analyze(hotspotLimit, degrees);
+    const cycleOf = new Map<string, number>();
+    analysis.cycles.forEach((cycle, index) => cycle.forEach(node => cycleOf.set(node.id, index + 1)));
+    const orphans = new Set(analysis.orphans.map(node => node.id));
+
+    for (const node of this.graph.getAllNodes()) {
+      const degree = degrees.get(node.id);
+      node.metadata.centrality = analysis.centrality.get(node.id) ?? 0;
+      node.metadata.inDegree = degree?.inDegree ?? 0;
+      node.metadata.fanIn = degree?.fanIn ?? 0;
+      node.metadata.fanOut = degree?.fanOut ?? 0;
+      if (cycleOf.has(node.id)) {
+        node.metadata.importCycle = cycleOf.get(node.id);
+      } else {
+        delete node.metadata.importCycle;
+      }
+      if (orphans.has(node.id)) {
+        node.metadata.orphan = true;
+      } else {
+        delete node.metadata.orphan;
+      }
+    }
+    return analysis;
+  }
+
+  /** Weighted by edge confidence; rank held by nodes with no dependencies is spread evenly. */
+  pageRank(options: PageRankOptions = {}): Map<string, number> {
+    const { damping = 0.85, maxIterations = 50, tolerance = 1e-6 } = options;
+    const nodes = this.graph.getAllNodes();
+    const count = nodes.length;
+    if (count === 0) {
+      return new Map();
+    }
+
+    const edges = this.dependencyEdges();
+    const outWeight = new Map<string, number>();
+    for (const edge of edges) {
+      outWeight.set(edge.from, (outWeight.get(edge.from) ?? 0) + edgeWeight(edge));
+    }
+
+    let ranks = new Map(nodes.map(node => [node.id, 1 / count]));
+    for (let iteration = 0; iteration < maxIterations; iteration++) {
+      let dangling = 0;
+      for (const node of nodes) {
+        if (!outWeight.has(node.id)) dangling += ranks.get(node.id)!;
+      }
+
+      const base = (1 - damping) / count + (damping * dangling) / count;
+      const next = new Map(nodes.map(node => [node.id, base]));
+      for (const edge of edges) {
+        const share = (ranks.get(edge.from)! * edgeWeight(edge)) / outWeight.get(edge.from)!;
+        next.set(edge.to, next.get(edge.to)! + damping * share);
+      }
+
+      let delta = 0;
+      for (const [id, rank] of next) {
+        delta += Math.abs(rank - ranks.get(id)!);
+      }
+      ranks = next;
+      if (delta < tolerance) break;
+    }
+    return ranks;
+  }
+
+  /** Strongly connected components of the subgraph of `nodes` joined by `edgeTypes`. */
+  stronglyConnectedComponents(nodes: GraphNode[], edgeTypes: string[]): GraphNode[][] {
+    const members = new Set(nodes.map(node => node.id));
+    const successors = (id: string) =>
+      this.graph
+        .getOutgoingEdges(id)
+        .filter(edge => edgeTypes.includes(edge.type) && members.has(edge.to))
+        .map(edge => edge.to);
+
+    // Tarjan's algorithm, iterative so deep import chains cannot overflow the stack.
+    const index = new Map<string, number>();
+    const lowLink = new Map<string, number>();
+    const onStack = new Set<string>();
+    const stack: string[] = [];
+    const components: GraphNode[][] = [];
+    let counter = 0;
+
+    for (const root of members) {
+      if (index.has(root)) continue;
+      const work: Array<{ id: string; next: string[]; position: number }> = [];
+      const enter = (id: string) => {
+        index.set(id, counter);
+        lowLink.set(id, counter);
+        counter++;
+        stack.push(id);
+        onStack.add(id);
+        work.push({ id, next: successors(id), position: 0 });
+      };
+      enter(root);
+
+      while (work.length > 0) {
+        const frame = work[work.length - 1];
+        if (frame.position < frame.next.length) {
+          const successor = frame.next[frame.position++];
+          if (!index.has(successor)) {
+            enter(successor);
+          } else if (onStack.has(successor)) {
+            lowLink.set(frame.id, Math.min(lowLink.get(frame.id)!, index.get(successor)!));
+          }
+          continue;
+        }
+
+        work.pop();
+        const parent = work[work.length - 1];
+        if (parent) {
+          lowLink.set(parent.id, Math.min(lowLink.get(parent.id)!, lowLink.get(frame.id)!));
+        }
+        if (lowLink.get(frame.id) === index.get(frame.id)) {
+          const component: GraphNode[] = [];
+          let member: string;
+          do {
+            member = stack.pop()!;
+            onStack.delete(member);
+            component.push(this.graph.getNode(member)!);
+          } while (member !== frame.id);
+          components.push(component.reverse());
+        }
+      }
+    }
+    return components;
+  }
+
+  /** Import cycles between files, largest first; a file importing itself counts. */
+  importCycles(): GraphNode[][] {
+    const files = this.graph.getAllNodes().filter(node => node.type === 'file');
+    return this.stronglyConnectedComponents(files, ['imports'])
+      .filter(
+        component =>
+          component.length > 1 ||
+          this.graph.getOutgoingEdges(component[0].id).some(edge => edge.type === 'imports' && edge.to === component[0].id)
+      )
+      .sort((a, b) => b.length - a.length);
+  }
+
+  /**
+   * Source files that nothing in another file depends on: no imports of the file
+   * and no uses of its symbols. Tests and documents are entry points by nature,
+   * so they are never orphans.
+   */
+  orphanFiles(): GraphNode[] {
+    return this.graph
+      .getAllNodes()
+      .filter(
+        node =>
+          node.type === 'file' &&
+          node.metadata?.test !== true &&
+          languageRegistry.canParse(String(node.metadata?.language))
+      )
+      .filter(file =>
+        this.graph.getNodesByPath(file.path).every(node =>
+          this.graph
+            .getIncomingEdges(node.id)
+            .every(edge => !DEPENDENCY_EDGE_TYPES.includes(edge.type) || this.graph.getNode(edge.from)?.path === file.path)
+        )
+      )
+      .sort((a, b) => a.path.localeCompare(b.path));
+  }
+
+  /** Symbols with the most distinct dependents plus dependencies. */
+  hotspots(limit = DEFAULT_HOTSPOT_LIMIT, degrees = this.degrees()): Hotspot[] {
+    return this.graph
+      .getAllNodes()
+      .filter(node => !NON_SYMBOL_TYPES.has(node.type))
+      .map(node => ({ node, fanIn: degrees.get(node.id)?.fanIn ?? 0, fanOut: degrees.get(node.id)?.fanOut ?? 0 }))
+      .filter(hotspot => hotspot.fanIn + hotspot.fanOut > 0)
+      .sort((a, b) => b.fanIn + b.fanOut - (a.fanIn + a.fanOut) || b.fanIn - a.fanIn)
+      .slice(0, limit);
+  }
+
+  /** In-degree counts dependency edges; fan-in and fan-out count distinct neighbours. */
+  degrees(): Map<string, { inDegree: number; fanIn: number; fanOut: number }> {
+    const incoming = new Map<string, Set<string>>();
+    const outgoing = new Map<string, Set<string>>();
+    const inDegree = new Map<string, number>();
+    for (const edge of this.dependencyEdges()) {
+      if (edge.from === edge.to) continue;
+      inDegree.set(edge.to, (inDegree.get(edge.to) ?? 0) + 1);
+      (incoming.get(edge.to) ?? incoming.set(edge.to, new Set()).get(edge.to)!).add(edge.from);
+      (outgoing.get(edge.from) ?? outgoing.set(edge.from, new Set()).get(edge.from)!).add(edge.to);
+    }
+
+    const degrees = new Map<string, { inDegree: number; fanIn: number; fanOut: number }>();
+    for (const id of new Set([...incoming.keys(), ...outgoing.keys()])) {
+      degrees.set(id, {
+        inDegree: inDegree.get(id) ?? 0,
+        fanIn: incoming.get(id)?.size ?? 0,
+        fanOut: outgoing.get(id)?.size ?? 0,
+      });
+    }
+    return degrees;
+  }
+
+  private dependencyEdges(): GraphEdge[] {
+    return this.graph.getAllEdges().filter(edge => DEPENDENCY_EDGE_TYPES.includes(edge.type));
+  }
+}
+
+function edgeWeight(edge: GraphEdge): number {
+  return typeof edge.metadata?.confidence === 'number' ? edge.metadata.confidence : 1;
+}
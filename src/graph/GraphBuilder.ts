@@ -1,86 +1,435 @@
 import crypto from 'crypto';
 import * as fs from 'fs/promises';
+import * as os from 'os';
 import * as path from 'path';
-import { CodeGraph, type GraphEdge, type GraphNode } from './CodeGraph.js';
+import type Parser from 'tree-sitter';
+import PQueue from 'p-queue';
+import { CodeGraph, type GraphEdge, type GraphNode, type GraphView } from './CodeGraph.js';
+import { TreeSitterParser } from '../parser/TreeSitterParser.js';
+import {
+  SymbolExtractor,
+  type ExtractedSymbol,
+  type ExtractionOptions,
+  type SymbolGraphData,
+  type SymbolReference,
+} from '../parser/SymbolExtractor.js';
 import { languageRegistry, type SupportedLanguage } from '../parser/LanguageRegistry.js';
+import { BUILTIN_LANGUAGE_PACKS } from '../parser/languages.js';
 import { createEmbedder } from '../embeddings/TransformersEmbedder.js';
 import type { Embedder } from '../embeddings/types.js';
 import { EmbeddingCache } from '../embeddings/EmbeddingCache.js';
-import { FileGraphSnapshot } from './types.js';
+import type { FileGraphSnapshot, IncrementalBuildResult } from './types.js';
+import { SymbolSerializer } from '../parser/SymbolSerializer.js';
+import { DocumentExtractor, type DocumentEntry } from '../parser/DocumentExtractor.js';
+import { ModuleResolver, type ModuleResolution } from './ModuleResolver.js';
+import { ParsePool } from './ParsePool.js';
+import { workspaceForPath } from './Workspaces.js';
+import { GraphAnalytics } from './GraphAnalytics.js';
+import { classifyTestFile } from './TestClassifier.js';
+import { SourceFileScanner, type IndexingOptions } from './SourceFileScanner.js';
 
 class NoopEmbedder implements Embedder {
-  async initialize(): Promise<void> {}
-  async embed(_text: string): Promise<number[]> { return []; }
+  async initialize(): Promise<void> {
+    // intentionally empty
+  }
+
+  async embed(_text: string): Promise<number[]> {
+    return [];
+  }
 }
 
 interface GraphBuilderDeps {
+  parser?: TreeSitterParser;
+  extractor?: SymbolExtractor;
   embedder?: Embedder;
   cache?: EmbeddingCache | null;
+  serializer?: SymbolSerializer;
+  documents?: DocumentExtractor;
+  resolver?: ModuleResolver;
+  /** Parse worker threads; defaults to one per spare CPU core, 0 parses in-process. */
+  workers?: number;
+  onProgress?: (progress: BuildProgress) => void;
+  indexing?: IndexingOptions;
+}
+
+export interface BuildProgress {
+  phase: 'parse' | 'embed';
+  /** Files parsed, or distinct texts embedded. */
+  completed: number;
+  total: number;
+}
+
+interface ImportBinding {
+  local: string;
+  imported: string;
+}
+
+interface ImportedSymbol {
+  targetFilePath: string;
+  /** Name in the target file; `*` when the binding is the whole module. */
+  symbol: string;
+}
+
+/** Stored on file nodes as `metadata.reExports`; `name` is `*` for `export * from`. */
+interface ReExport {
+  name: string;
+  symbol: string;
+  targetFilePath: string;
 }
 
-const IGNORED_DIRECTORIES = new Set([
-  'node_modules',
-  '.git',
-  'dist',
-  'build',
-  '.next',
-  'coverage',
-  '.codeflow',
-  'benchmarks',
-  'docs',
-]);
+interface ReferenceTarget {
+  nodeId: string;
+  /** File whose exports resolve a placeholder target; absent for ambiguous calls. */
+  targetFilePath?: string;
+  resolution: 'local' | 'module' | 'member' | 'imported' | 'ambiguous';
+  confidence: number;
+}
+
+interface SymbolEdge {
+  from: string;
+  to: string;
+  type: GraphEdge['type'];
+  metadata: Record<string, unknown>;
+}
+
+// Stored as `metadata.confidence` on AST reference edges; edges without one are certain.
+const CALL_CONFIDENCE = {
+  local: 1,
+  module: 1,
+  member: 0.95,
+  imported: 0.9,
+  sibling: 0.8,
+  ambiguous: 0.4,
+};
+
+const SELF_RECEIVERS = new Set(['this', 'self', 'cls', 'Self']);
+
+// Ambiguous calls with more same-named candidates than this are dropped.
+const MAX_AMBIGUOUS_TARGETS = 3;
+
+const EMBEDDING_BATCH_SIZE = 32;
+
+// Long sections embed poorly and bloat the BM25 index; the heading and opening prose carry the topic.
+const MAX_DOCUMENT_EMBEDDING_CHARS = 2000;
+
+const DOCUMENT_HEADERS: Record<DocumentEntry['type'], string> = {
+  config_key: 'config',
+  doc_section: 'doc',
+  sql_statement: 'sql',
+};
+
+// Config keys are matched in string literals with no binding to follow, so they are less certain than calls.
+const MENTION_CONFIDENCE = { config: 0.8, doc: 1 };
+
+// A one-word key such as `name` or `version` appears in too many unrelated literals to link.
+const DISTINCTIVE_KEY = /[._-]/;
+const STRING_LITERAL = /(['"`])([\w$.-]+)\1/g;
+const DOC_LINK = /([\w./-]+\.(?:md|markdown))#([\w-]+)/g;
+
+// Workers take a moment to load the grammars, so small trees stay in-process.
+const FILES_PER_WORKER = 16;
+const MAX_WORKERS = 8;
 
 export class GraphBuilder {
+  private readonly parser: TreeSitterParser;
+  private readonly extractor: SymbolExtractor;
   private embedder: Embedder;
   private readonly embeddingCache: EmbeddingCache | null;
+  private readonly serializer: SymbolSerializer;
+  private readonly documents: DocumentExtractor;
+  private readonly resolver: ModuleResolver;
+  private readonly workerCount: number;
+  private readonly workersAllowed: boolean;
+  private readonly onProgress?: (progress: BuildProgress) => void;
+  private readonly scanner: SourceFileScanner;
   private embeddingsEnabled = true;
 
   constructor(private readonly rootDir: string, deps: GraphBuilderDeps = {}) {
+    this.parser = deps.parser ?? new TreeSitterParser();
+    this.extractor = deps.extractor ?? new SymbolExtractor();
     this.embedder = deps.embedder ?? createEmbedder();
     this.embeddingCache = deps.cache ?? new EmbeddingCache(rootDir);
+    this.serializer = deps.serializer ?? new SymbolSerializer();
+    this.documents = deps.documents ?? new DocumentExtractor();
+    this.resolver = deps.resolver ?? new ModuleResolver(rootDir);
+    this.workerCount = deps.workers ?? Math.min(MAX_WORKERS, Math.max(0, os.cpus().length - 1));
+    // Workers construct their own parser and extractor, so injected ones keep parsing here.
+    this.workersAllowed = !deps.parser && !deps.extractor;
+    this.onProgress = deps.onProgress;
+    this.scanner = new SourceFileScanner(rootDir, deps.indexing);
   }
 
   async build(): Promise<CodeGraph> {
     const graph = new CodeGraph();
+    this.resolver.reset();
     await this.prepareEmbeddingPipeline();
 
     const filePaths = await this.findSourceFiles();
-    for (const filePath of filePaths) {
-      const snapshot = await this.buildFileSnapshot(filePath);
-      if (!snapshot) continue;
+    const snapshots = await this.snapshotFiles(filePaths, filePath => this.readSource(filePath));
+    await this.embedNodes(snapshots.flatMap(snapshot => [snapshot.file, ...snapshot.symbols]));
+
+    const uniquePaths = new Set(snapshots.map(snapshot => snapshot.filePath));
+    for (const filePath of uniquePaths) {
       graph.removeNodesByPath(filePath);
+    }
+
+    for (const snapshot of snapshots) {
       graph.upsertNode(snapshot.file);
+      for (const node of snapshot.symbols) {
+        graph.upsertNode(node);
+      }
+    }
+
+    const exportedIndex = this.buildExportedIndexFromSnapshots(snapshots);
+    const allEdges = snapshots.flatMap(snapshot => snapshot.edges);
+    const resolvedEdges = this.resolveEdges(graph, allEdges, exportedIndex);
+    for (const edge of resolvedEdges) {
+      graph.upsertEdge(edge);
     }
+    await this.linkWorkspacePackages(graph);
+    this.linkDocumentMentions(graph);
+    new GraphAnalytics(graph).annotate();
 
     await this.flushEmbeddingCache();
     return graph;
   }
 
+  /**
+   * Refresh a previously built graph by re-parsing only the files whose content
+   * digest differs from the one stored on their file node. Deleted files are
+   * dropped, and edges from untouched files into refreshed ones are re-resolved
+   * against the new symbols. Untouched files whose unresolved imports or
+   * ambiguous calls an added file may satisfy are re-parsed as well. The
+   * previous graph is left unmodified.
+   */
+  async buildIncremental(previous: CodeGraph): Promise<IncrementalBuildResult> {
+    const graph = previous.clone();
+    this.resolver.reset();
+
+    const storedDigests = new Map<string, string>();
+    for (const node of graph.getAllNodes()) {
+      if (node.type === 'file' && typeof node.metadata?.digest === 'string') {
+        storedDigests.set(node.path, node.metadata.digest);
+      }
+    }
+
+    const filePaths = await this.findSourceFiles();
+    const staleContent = new Map<string, string>();
+
+    for (const filePath of filePaths) {
+      const content = await this.readSource(filePath);
+      if (content !== null && storedDigests.get(filePath) !== this.digest(content)) {
+        staleContent.set(filePath, content);
+      }
+    }
+
+    const onDisk = new Set(filePaths);
+    const removed = Array.from(storedDigests.keys()).filter(filePath => !onDisk.has(filePath));
+    // Nothing to parse or drop, so the embedding model is never loaded, e.g. on a routine startup check.
+    if (staleContent.size === 0 && removed.length === 0) {
+      return { graph, added: [], changed: [], removed };
+    }
+    await this.prepareEmbeddingPipeline();
+
+    const staleSnapshots = await this.snapshotFiles(
+      Array.from(staleContent.keys()),
+      async filePath => staleContent.get(filePath) ?? null
+    );
+
+    const added: string[] = [];
+    const changed: string[] = [];
+    for (const snapshot of staleSnapshots) {
+      (storedDigests.has(snapshot.filePath) ? changed : added).push(snapshot.filePath);
+    }
+
+    const addedSet = new Set(added);
+    const retried = await this.findFilesResolvingInto(
+      graph,
+      staleSnapshots.filter(snapshot => addedSet.has(snapshot.filePath)),
+      filePath => onDisk.has(filePath) && !staleContent.has(filePath)
+    );
+    const snapshots = [
+      ...staleSnapshots,
+      ...(await this.snapshotFiles(retried, filePath => this.readSource(filePath))),
+    ];
+    await this.embedNodes(snapshots.flatMap(snapshot => [snapshot.file, ...snapshot.symbols]));
+
+    const affectedPaths = new Set([...changed, ...retried, ...removed]);
+    const danglingEdges = Array.from(affectedPaths)
+      .flatMap(filePath => graph.getNodesByPath(filePath))
+      .flatMap(node => graph.getIncomingEdges(node.id))
+      .filter(edge => {
+        const from = graph.getNode(edge.from);
+        return Boolean(from && !affectedPaths.has(from.path));
+      });
+
+    for (const filePath of affectedPaths) {
+      graph.removeNodesByPath(filePath);
+    }
+
+    for (const snapshot of snapshots) {
+      graph.upsertNode(snapshot.file);
+      for (const node of snapshot.symbols) {
+        graph.upsertNode(node);
+      }
+    }
+
+    const exportedIndex = GraphBuilder.buildExportedIndexFromGraph(graph);
+    const pendingEdges = [...snapshots.flatMap(snapshot => snapshot.edges), ...danglingEdges];
+    for (const edge of this.resolveEdges(graph, pendingEdges, exportedIndex)) {
+      graph.upsertEdge(edge);
+    }
+
+    // External packages belong to no file, so drop the ones nothing imports any more.
+    for (const node of graph.getAllNodes()) {
+      if (node.type === 'package' && node.metadata?.external && graph.getIncomingEdges(node.id).length === 0) {
+        graph.removeNode(node.id);
+      }
+    }
+    await this.linkWorkspacePackages(graph);
+    this.linkDocumentMentions(graph);
+    // The clone shares node objects with `previous`; annotate copies so its metadata stays as it was.
+    for (const node of graph.getAllNodes()) {
+      if (previous.getNode(node.id) === node) {
+        graph.upsertNode({ ...node, metadata: { ...node.metadata } });
+      }
+    }
+    new GraphAnalytics(graph).annotate();
+
+    await this.flushEmbeddingCache();
+    return { graph, added, changed, removed };
+  }
+
+  /**
+   * Untouched files (those `untouched` accepts) with an import that now resolves
+   * to an added file, or an ambiguous call naming a function an added file
+   * declares. A full build would link them, so they are parsed again.
+   */
+  private async findFilesResolvingInto(
+    graph: CodeGraph,
+    addedSnapshots: FileGraphSnapshot[],
+    untouched: (filePath: string) => boolean
+  ): Promise<string[]> {
+    if (addedSnapshots.length === 0) {
+      return [];
+    }
+    const addedPaths = new Set(addedSnapshots.map(snapshot => snapshot.filePath));
+    const addedFunctions = new Set(
+      addedSnapshots
+        .flatMap(snapshot => snapshot.symbols)
+        .filter(node => node.type === 'function')
+        .map(node => node.name)
+    );
+
+    const result: string[] = [];
+    for (const file of graph.getAllNodes()) {
+      if (file.type !== 'file' || !untouched(file.path)) {
+        continue;
+      }
+      const calls = (file.metadata?.ambiguousCalls as string[] | undefined) ?? [];
+      if (calls.some(name => addedFunctions.has(name))) {
+        result.push(file.path);
+        continue;
+      }
+      for (const specifier of (file.metadata?.unresolvedImports as string[] | undefined) ?? []) {
+        const language = file.metadata.language as SupportedLanguage;
+        const resolution = await this.resolver.resolve(specifier, file.path, language);
+        if (resolution.kind === 'file' && addedPaths.has(resolution.path)) {
+          result.push(file.path);
+          break;
+        }
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Build a graph snapshot for a single file without mutating a graph instance.
+   * Throws on critical parser failures to surface invalid files early.
+   */
   async buildFileSnapshot(filePath: string): Promise<FileGraphSnapshot | null> {
-    const fullPath = path.join(this.rootDir, filePath);
-    let content: string;
+    const content = await this.readSource(filePath);
+    if (content === null) {
+      return null;
+    }
+    const snapshot = await this.buildSnapshotFromContent(filePath, content, null);
+    if (snapshot) {
+      await this.embedNodes([snapshot.file, ...snapshot.symbols]);
+    }
+    return snapshot;
+  }
+
+  /**
+   * Snapshot files concurrently, parsing on a worker pool when there are enough
+   * files to keep one busy. Snapshots come back in `filePaths` order without
+   * embeddings; callers pass their nodes to embedNodes.
+   */
+  private async snapshotFiles(
+    filePaths: string[],
+    readContent: (filePath: string) => Promise<string | null>
+  ): Promise<FileGraphSnapshot[]> {
+    const poolSize = this.workersAllowed
+      ? Math.min(this.workerCount, Math.floor(filePaths.length / FILES_PER_WORKER))
+      : 0;
+    const pool = poolSize > 0 ? new ParsePool(poolSize) : null;
+    const queue = new PQueue({ concurrency: Math.max(1, poolSize) * 2 });
+    const results: Array<FileGraphSnapshot | null> = new Array(filePaths.length).fill(null);
+    let completed = 0;
+
+    const tasks = filePaths.map((filePath, index) =>
+      queue.add(async () => {
+        const content = await readContent(filePath);
+        if (content !== null) {
+          results[index] = await this.buildSnapshotFromContent(filePath, content, pool);
+        }
+        completed += 1;
+        this.onProgress?.({ phase: 'parse', completed, total: filePaths.length });
+      })
+    );
+
     try {
-      content = await fs.readFile(fullPath, 'utf-8');
+      await Promise.all(tasks);
+    } catch (error) {
+      queue.clear();
+      throw error;
+    } finally {
+      await queue.onIdle();
+      await pool?.close();
+    }
+
+    return results.filter((snapshot): snapshot is FileGraphSnapshot => snapshot !== null);
+  }
+
+  private async readSource(filePath: string): Promise<string | null> {
+    try {
+      return await fs.readFile(path.join(this.rootDir, filePath), 'utf-8');
     } catch {
       return null;
     }
+  }
 
+  private async buildSnapshotFromContent(
+    filePath: string,
+    content: string,
+    pool: ParsePool | null
+  ): Promise<FileGraphSnapshot | null> {
     const language = languageRegistry.inferFromPath(filePath);
-    if (!language) return null;
-    if (language === 'json' || language === 'markdown') return null;
+    if (!language) {
+      return null;
+    }
+    if (!languageRegistry.canParse(language)) {
+      return this.documents.supports(language)
+        ? this.buildDocumentSnapshot(filePath, content, language)
+        : null;
+    }
 
-    const digest = this.digest(content);
+    const testFile = classifyTestFile(filePath, content, language);
+    const analysis = await this.analyzeContent(filePath, content, language, pool, {
+      tests: testFile !== null,
+    });
+    const rootDigest = this.digest(content);
     const card = this.buildFileCard(filePath, content);
 
-    let embedding: number[] | undefined;
-    if (this.embeddingsEnabled) {
-      embedding = this.embeddingCache?.get(card);
-      if (!embedding) {
-        embedding = await this.embedder.embed(card);
-        this.embeddingCache?.set(card, embedding);
-      }
-    }
-
     const fileNode: GraphNode = {
       id: this.createFileNodeId(filePath),
       type: 'file',
@@ -89,24 +438,173 @@ export class GraphBuilder {
       content,
       startLine: 1,
       endLine: content.split(/\r?\n/).length,
-      embedding,
       metadata: {
         language,
-        digest,
+        digest: rootDigest,
         embeddingText: card,
       },
     };
+    if (testFile) {
+      fileNode.metadata.test = true;
+      if (testFile.framework) {
+        fileNode.metadata.testFramework = testFile.framework;
+      }
+    }
+
+    const symbolIndex = new Map<string, ExtractedSymbol>();
+    const rangeIndex = new Map<string, string>();
+    const nameIndex = new Map<string, GraphNode[]>();
+    const nodeIndex = new Map<string, GraphNode>();
+
+    const referenceMap = this.groupReferencesBySymbol(analysis.references);
+    const importSummary = this.buildImportSummary(analysis.symbols);
+
+    const symbolNodes = await this.createSymbolNodes(
+      filePath,
+      language,
+      analysis.symbols,
+      symbolIndex,
+      rangeIndex,
+      nameIndex,
+      referenceMap,
+      importSummary
+    );
+    for (const node of symbolNodes) {
+      nodeIndex.set(node.id, node);
+    }
+
+    const containsEdges = this.buildContainmentEdges(fileNode.id, symbolNodes);
+    const parentEdges = this.buildParentEdges(symbolIndex, nodeIndex, nameIndex);
+    const importGraph = await this.buildImportEdges(
+      filePath,
+      language,
+      analysis.symbols,
+      fileNode.id
+    );
+    if (importGraph.reExports.length > 0) {
+      fileNode.metadata.reExports = importGraph.reExports;
+    }
+    // Kept so an incremental build can retry them once the missing file is added.
+    if (importGraph.unresolved.length > 0) {
+      fileNode.metadata.unresolvedImports = importGraph.unresolved;
+    }
+    // Test titles are not identifiers, so tests are never reference targets.
+    const referableIndex = new Map<string, GraphNode[]>();
+    for (const [name, nodes] of nameIndex) {
+      const referable = nodes.filter(node => node.type !== 'test');
+      if (referable.length > 0) {
+        referableIndex.set(name, referable);
+      }
+    }
+    const referenceEdges = this.buildReferenceEdges(
+      filePath,
+      analysis.references,
+      rangeIndex,
+      referableIndex,
+      importGraph.symbolMap,
+      nodeIndex
+    );
+    const ambiguousCalls = new Set(
+      referenceEdges
+        .filter(edge => edge.metadata?.resolution === 'ambiguous')
+        .map(edge => String(edge.metadata.symbol))
+    );
+    if (ambiguousCalls.size > 0) {
+      fileNode.metadata.ambiguousCalls = Array.from(ambiguousCalls);
+    }
 
     return {
       filePath,
       language,
       file: fileNode,
-      symbols: [],
-      edges: [],
-      digest,
+      symbols: [...symbolNodes, ...importGraph.packages],
+      edges: [
+        ...containsEdges,
+        ...parentEdges,
+        ...importGraph.edges,
+        ...referenceEdges,
+      ],
+      digest: rootDigest,
     };
   }
 
+  /**
+   * Snapshot for a file without a grammar: a file node plus one node per config
+   * key, Markdown section or SQL statement the document extractor finds, nested
+   * through `contains` edges like symbols in code.
+   */
+  private buildDocumentSnapshot(
+    filePath: string,
+    content: string,
+    language: SupportedLanguage
+  ): FileGraphSnapshot {
+    const rootDigest = this.digest(content);
+    const fileNode: GraphNode = {
+      id: this.createFileNodeId(filePath),
+      type: 'file',
+      name: path.basename(filePath),
+      path: filePath,
+      content,
+      startLine: 1,
+      endLine: content.split(/\r?\n/).length,
+      metadata: {
+        language,
+        digest: rootDigest,
+        embeddingText: this.buildFileCard(filePath, content),
+      },
+    };
+
+    const entries = this.documents.extract(content, language);
+    const byKey = new Map(entries.map(entry => [entry.key, entry]));
+    const nodeIds = new Map<string, string>();
+    const nodes: GraphNode[] = [];
+
+    for (const entry of entries) {
+      const id = this.digest(['document', filePath, entry.type, entry.key].join(':'));
+      nodeIds.set(entry.key, id);
+
+      const trail: string[] = [];
+      let current: DocumentEntry | undefined = entry;
+      while (current) {
+        trail.unshift(current.name);
+        current = current.parentKey ? byKey.get(current.parentKey) : undefined;
+      }
+      const embeddingText = [
+        `# ${DOCUMENT_HEADERS[entry.type]} ${filePath}`,
+        `## ${entry.type === 'doc_section' ? trail.join(' > ') : entry.name}`,
+        entry.content.slice(0, MAX_DOCUMENT_EMBEDDING_CHARS),
+      ].join('\n');
+
+      nodes.push({
+        id,
+        type: entry.type,
+        name: entry.name,
+        path: filePath,
+        content: entry.content,
+        startLine: entry.startLine,
+        endLine: entry.endLine,
+        metadata: { ...entry.metadata, key: entry.key, embeddingText },
+      });
+    }
+
+    const edges = this.buildContainmentEdges(fileNode.id, nodes);
+    for (const entry of entries) {
+      const parentId = entry.parentKey ? nodeIds.get(entry.parentKey) : undefined;
+      const childId = nodeIds.get(entry.key)!;
+      if (parentId) {
+        edges.push({
+          id: this.createEdgeId(parentId, childId, 'contains'),
+          from: parentId,
+          to: childId,
+          type: 'contains',
+          metadata: { source: 'document' },
+        });
+      }
+    }
+
+    return { filePath, language, file: fileNode, symbols: nodes, edges, digest: rootDigest };
+  }
+
   private async prepareEmbeddingPipeline(): Promise<void> {
     if (process.env.CODEFLOW_DISABLE_EMBEDDINGS === '1') {
       this.embedder = new NoopEmbedder();
@@ -133,53 +631,943 @@ export class GraphBuilder {
   }
 
   private async findSourceFiles(): Promise<string[]> {
-    const files: string[] = [];
+    const { files } = await this.scanner.scan();
+    return files;
+  }
+
+  private async createSymbolNodes(
+    filePath: string,
+    language: SupportedLanguage,
+    symbols: ExtractedSymbol[],
+    symbolIndex: Map<string, ExtractedSymbol>,
+    rangeIndex: Map<string, string>,
+    nameIndex: Map<string, GraphNode[]>,
+    referenceMap: Map<string, string[]>,
+    importSummary: string[]
+  ): Promise<GraphNode[]> {
+    const nodes: GraphNode[] = [];
+    for (const symbol of symbols) {
+      if (symbol.type === 'import') {
+        continue;
+      }
+
+      const id = this.createSymbolNodeId(filePath, symbol);
+      const rangeKey = this.createRangeKey(symbol.startIndex, symbol.endIndex);
+      const referencedSymbols = referenceMap.get(rangeKey) ?? [];
+      const embeddingText = this.serializer.serialize(symbol, {
+        filePath,
+        language,
+        imports: importSummary,
+        referencedSymbols,
+      });
+
+      const metadata: Record<string, unknown> = {
+        exported: symbol.exported,
+        kind: symbol.kind,
+        astType: symbol.astType,
+        parentName: symbol.parentName,
+        parentType: symbol.parentType,
+        documentation: symbol.documentation,
+        parameters: symbol.parameters,
+        returnType: symbol.returnType,
+        signature: symbol.signature,
+        startIndex: symbol.startIndex,
+        endIndex: symbol.endIndex,
+        referencedSymbols,
+        embeddingText,
+      };
+      if (symbol.exported) {
+        metadata.symbolKey = this.createSymbolKey(filePath, symbol.name);
+      }
+
+      const node: GraphNode = {
+        id,
+        type: symbol.type,
+        name: symbol.name,
+        path: filePath,
+        content: symbol.content,
+        startLine: symbol.startLine,
+        endLine: symbol.endLine,
+        metadata,
+      };
+
+      nodes.push(node);
+      symbolIndex.set(id, symbol);
+      rangeIndex.set(rangeKey, id);
+      const nameBucket = nameIndex.get(symbol.name) ?? [];
+      nameBucket.push(node);
+      nameIndex.set(symbol.name, nameBucket);
+    }
+    return nodes;
+  }
+
+  /**
+   * Fill in node embeddings from `metadata.embeddingText`. Texts missing from the
+   * cache are embedded once each, in batches through `embedBatch` when available.
+   */
+  private async embedNodes(nodes: GraphNode[]): Promise<void> {
+    if (!this.embeddingsEnabled) {
+      return;
+    }
+
+    const pending = new Map<string, GraphNode[]>();
+    for (const node of nodes) {
+      const text = node.metadata?.embeddingText;
+      if (typeof text !== 'string') {
+        continue;
+      }
+      const cached = this.embeddingCache?.get(text);
+      if (cached) {
+        node.embedding = cached;
+        continue;
+      }
+      const waiting = pending.get(text) ?? [];
+      waiting.push(node);
+      pending.set(text, waiting);
+    }
+
+    const texts = Array.from(pending.keys());
+    for (let start = 0; start < texts.length; start += EMBEDDING_BATCH_SIZE) {
+      const batch = texts.slice(start, start + EMBEDDING_BATCH_SIZE);
+      const embeddings = this.embedder.embedBatch
+        ? await this.embedder.embedBatch(batch)
+        : await Promise.all(batch.map(text => this.embedder.embed(text)));
+
+      batch.forEach((text, index) => {
+        this.embeddingCache?.set(text, embeddings[index]);
+        for (const node of pending.get(text) ?? []) {
+          node.embedding = embeddings[index];
+        }
+      });
+      this.onProgress?.({ phase: 'embed', completed: start + batch.length, total: texts.length });
+    }
+  }
+
+  private buildFileCard(filePath: string, content: string): string {
+    const lines = content.split(/\r?\n/);
+    const header = lines.slice(0, 50).join('\n');
+    const imports = lines.filter(l => /\bimport\b|require\(|^\s*(?:pub\s+)?use\s/.test(l)).slice(0, 20).join('\n');
+    const exports = lines.filter(l => /\bexport\b/.test(l)).slice(0, 20).join('\n');
+    return [`# file ${filePath}`, '## imports', imports, '## exports', exports, '## header', header].join('\n');
+  }
+
+  private groupReferencesBySymbol(references: SymbolReference[]): Map<string, string[]> {
+    const map = new Map<string, Set<string>>();
+    for (const reference of references) {
+      if (reference.kind === 'reference') {
+        continue;
+      }
+      const key = this.createRangeKey(reference.sourceStartIndex, reference.sourceEndIndex);
+      const bucket = map.get(key) ?? new Set<string>();
+      bucket.add(`${reference.kind}:${reference.targetName}`);
+      if (reference.targetModule) {
+        bucket.add(`module:${reference.targetModule}`);
+      }
+      map.set(key, bucket);
+    }
+    return new Map<string, string[]>(
+      Array.from(map.entries(), ([key, set]) => [key, Array.from(set)])
+    );
+  }
+
+  private buildImportSummary(symbols: ExtractedSymbol[]): string[] {
+    const summary = new Set<string>();
+    for (const symbol of symbols) {
+      if (symbol.type !== 'import') {
+        continue;
+      }
+      const importPath = this.extractImportPath(symbol.content) ?? 'unknown';
+      const importedSymbols = this.extractImportBindings(symbol.content).map(binding =>
+        binding.local === binding.imported ? binding.local : `${binding.imported} as ${binding.local}`
+      );
+      if (importedSymbols.length === 0) {
+        summary.add(importPath);
+      } else {
+        summary.add(`${importPath}: ${importedSymbols.join(', ')}`);
+      }
+    }
+    return Array.from(summary.values());
+  }
+
+  private buildContainmentEdges(fileNodeId: string, symbolNodes: GraphNode[]): GraphEdge[] {
+    return symbolNodes.map(node => ({
+      id: this.createEdgeId(fileNodeId, node.id, 'contains'),
+      from: fileNodeId,
+      to: node.id,
+      type: 'contains',
+      metadata: { source: 'ast' },
+    }));
+  }
+
+  private buildParentEdges(
+    symbolIndex: Map<string, ExtractedSymbol>,
+    nodeIndex: Map<string, GraphNode>,
+    nameIndex: Map<string, GraphNode[]>
+  ): GraphEdge[] {
+    const edges: GraphEdge[] = [];
+
+    for (const [nodeId, symbol] of symbolIndex.entries()) {
+      if (!symbol.parentName) {
+        continue;
+      }
+
+      const potentialParents = nameIndex.get(symbol.parentName);
+      if (!potentialParents) {
+        continue;
+      }
+
+      const parentNode = potentialParents.find(candidate => candidate.type === symbol.parentType);
+      if (!parentNode) {
+        continue;
+      }
+
+      const childNode = nodeIndex.get(nodeId);
+      if (!childNode) {
+        continue;
+      }
+
+      edges.push({
+        id: this.createEdgeId(parentNode.id, childNode.id, 'contains'),
+        from: parentNode.id,
+        to: childNode.id,
+        type: 'contains',
+        metadata: { source: 'ast-parent' },
+      });
+    }
 
-    const walk = async (dir: string) => {
-      const entries = await fs.readdir(dir, { withFileTypes: true });
-      for (const entry of entries) {
-        if (IGNORED_DIRECTORIES.has(entry.name) || entry.name.startsWith('.')) {
+    return edges;
+  }
+
+  private buildReferenceEdges(
+    filePath: string,
+    references: SymbolReference[],
+    rangeIndex: Map<string, string>,
+    nameIndex: Map<string, GraphNode[]>,
+    importSymbolMap: Map<string, ImportedSymbol>,
+    nodeIndex: Map<string, GraphNode>
+  ): GraphEdge[] {
+    const edges: GraphEdge[] = [];
+
+    for (const reference of references) {
+      const sourceId = rangeIndex.get(
+        this.createRangeKey(reference.sourceStartIndex, reference.sourceEndIndex)
+      );
+      if (!sourceId) {
+        continue;
+      }
+
+      const sourceNode = nodeIndex.get(sourceId);
+      if (!sourceNode) {
+        continue;
+      }
+
+      const target =
+        reference.kind === 'call'
+          ? this.resolveCallTarget(filePath, reference, sourceNode, nameIndex, importSymbolMap)
+          : this.resolveNamedTarget(filePath, reference, sourceNode, nameIndex, importSymbolMap);
+      if (!target || target.nodeId === sourceId) {
+        continue;
+      }
+
+      // What a test case calls or uses is what it covers, not a dependency.
+      const edgeType: GraphEdge['type'] =
+        sourceNode.type === 'test' && (reference.kind === 'call' || reference.kind === 'reference')
+          ? 'tests'
+          : reference.kind === 'call'
+            ? 'calls'
+            : reference.kind === 'reference'
+              ? 'references'
+              : reference.kind;
+
+      const metadata: Record<string, unknown> = {
+        source: 'ast',
+        kind: reference.kind,
+        symbol: reference.targetName,
+        resolution: target.resolution,
+        confidence: target.confidence,
+      };
+      if (target.targetFilePath) {
+        metadata.targetFilePath = target.targetFilePath;
+      }
+      if (reference.receiver) {
+        metadata.receiver = reference.receiver;
+      }
+      if (reference.targetModule) {
+        metadata.targetModule = reference.targetModule;
+      }
+
+      edges.push({
+        id: this.createEdgeId(sourceId, target.nodeId, edgeType),
+        from: sourceId,
+        to: target.nodeId,
+        type: edgeType,
+        metadata,
+      });
+    }
+
+    return edges;
+  }
+
+  /** Supertypes and plain identifiers: same-file symbols first, then imported bindings. */
+  private resolveNamedTarget(
+    filePath: string,
+    reference: SymbolReference,
+    sourceNode: GraphNode,
+    nameIndex: Map<string, GraphNode[]>,
+    importSymbolMap: Map<string, ImportedSymbol>
+  ): ReferenceTarget | null {
+    const localTargets = nameIndex.get(reference.targetName) ?? [];
+    const local = localTargets.find(node => node.id !== sourceNode.id) ?? localTargets[0];
+    if (local) {
+      return { nodeId: local.id, targetFilePath: filePath, resolution: 'module', confidence: CALL_CONFIDENCE.module };
+    }
+
+    const imported = importSymbolMap.get(reference.targetName);
+    if (imported && imported.symbol !== '*') {
+      return this.importedTarget(imported.targetFilePath, imported.symbol);
+    }
+    if (reference.kind === 'reference') {
+      // Plain identifiers are only edges when they name a known symbol.
+      return null;
+    }
+    return {
+      nodeId: this.createPlaceholderSymbolId(filePath, reference.targetName),
+      targetFilePath: filePath,
+      resolution: 'module',
+      confidence: CALL_CONFIDENCE.module,
+    };
+  }
+
+  /**
+   * Resolves a call by where its callee can be bound: a local scope, the enclosing
+   * class (`this.x()`), an imported module or class (`utils.x()`), or the file and its
+   * imports for bare calls. Calls through objects of unknown type become ambiguous
+   * edges that resolveEdges fans out by name at low confidence.
+   */
+  private resolveCallTarget(
+    filePath: string,
+    reference: SymbolReference,
+    sourceNode: GraphNode,
+    nameIndex: Map<string, GraphNode[]>,
+    importSymbolMap: Map<string, ImportedSymbol>
+  ): ReferenceTarget | null {
+    const name = reference.targetName;
+    const candidates = (nameIndex.get(name) ?? []).filter(node => node.id !== sourceNode.id);
+    const receiver = reference.receiver;
+
+    if (reference.local) {
+      // Only a function declared inside the caller can be the local binding.
+      const nested = candidates.find(
+        node => node.path === sourceNode.path && node.startLine >= sourceNode.startLine && node.endLine <= sourceNode.endLine
+      );
+      return nested
+        ? { nodeId: nested.id, targetFilePath: filePath, resolution: 'local', confidence: CALL_CONFIDENCE.local }
+        : null;
+    }
+
+    if (receiver === undefined) {
+      const moduleLevel = candidates.find(node => !node.metadata?.parentName);
+      if (moduleLevel) {
+        return { nodeId: moduleLevel.id, targetFilePath: filePath, resolution: 'module', confidence: CALL_CONFIDENCE.module };
+      }
+      const imported = importSymbolMap.get(name);
+      if (imported && imported.symbol !== '*') {
+        return this.importedTarget(imported.targetFilePath, imported.symbol);
+      }
+      // Java-style implicit `this`.
+      const sibling = this.findMember(candidates, this.ownerName(sourceNode));
+      return sibling
+        ? { nodeId: sibling.id, targetFilePath: filePath, resolution: 'member', confidence: CALL_CONFIDENCE.sibling }
+        : null;
+    }
+
+    if (SELF_RECEIVERS.has(receiver)) {
+      const member = this.findMember(candidates, this.ownerName(sourceNode));
+      if (member) {
+        return { nodeId: member.id, targetFilePath: filePath, resolution: 'member', confidence: CALL_CONFIDENCE.member };
+      }
+    } else if (/^[A-Za-z_$][\w$]*$/.test(receiver)) {
+      // `utils.x()` on a namespace import, or `Service.create()` on an imported class.
+      const imported = importSymbolMap.get(receiver);
+      if (imported) {
+        return this.importedTarget(imported.targetFilePath, name);
+      }
+      const member = this.findMember(candidates, receiver);
+      if (member) {
+        return { nodeId: member.id, targetFilePath: filePath, resolution: 'member', confidence: CALL_CONFIDENCE.member };
+      }
+    }
+
+    return {
+      nodeId: this.createPlaceholderSymbolId('*', name),
+      resolution: 'ambiguous',
+      confidence: CALL_CONFIDENCE.ambiguous,
+    };
+  }
+
+  private importedTarget(targetFilePath: string, symbolName: string): ReferenceTarget {
+    return {
+      nodeId: this.createPlaceholderSymbolId(targetFilePath, symbolName),
+      targetFilePath,
+      resolution: 'imported',
+      confidence: CALL_CONFIDENCE.imported,
+    };
+  }
+
+  /** The class a symbol belongs to: its parent for methods, itself for classes. */
+  private ownerName(node: GraphNode): string | undefined {
+    if (node.type === 'class') {
+      return node.name;
+    }
+    return typeof node.metadata?.parentName === 'string' ? node.metadata.parentName : undefined;
+  }
+
+  private findMember(candidates: GraphNode[], owner: string | undefined): GraphNode | undefined {
+    return owner ? candidates.find(node => node.metadata?.parentName === owner) : undefined;
+  }
+
+  private async buildImportEdges(
+    filePath: string,
+    language: SupportedLanguage,
+    symbols: ExtractedSymbol[],
+    fileNodeId: string
+  ): Promise<{
+    edges: GraphEdge[];
+    symbolMap: Map<string, ImportedSymbol>;
+    reExports: ReExport[];
+    packages: GraphNode[];
+    unresolved: string[];
+  }> {
+    const edges: SymbolEdge[] = [];
+    const unresolved: string[] = [];
+    const imports = symbols.filter(symbol => symbol.type === 'import');
+    const symbolMap = new Map<string, ImportedSymbol>();
+    const reExports: ReExport[] = [];
+    const packages = new Map<string, GraphNode>();
+
+    for (const imp of imports) {
+      const importPath = this.extractImportPath(imp.content);
+      if (!importPath) continue;
+
+      const resolution = await this.resolver.resolve(importPath, filePath, language);
+      if (resolution.kind === 'external') {
+        const packageNode = packages.get(resolution.packageName) ?? this.createPackageNode(resolution);
+        packages.set(resolution.packageName, packageNode);
+        edges.push({
+          from: fileNodeId,
+          to: packageNode.id,
+          type: 'imports',
+          metadata: { importPath, packageName: resolution.packageName, source: 'import' },
+        });
+        continue;
+      }
+      if (resolution.kind !== 'file') {
+        unresolved.push(importPath);
+        continue;
+      }
+
+      const resolved = resolution.path;
+      const targetFileId = this.createFileNodeId(resolved);
+      edges.push({
+        from: fileNodeId,
+        to: targetFileId,
+        type: 'imports',
+        metadata: { importPath, targetFilePath: resolved, source: 'import' },
+      });
+
+      // Python modules expose whatever they import, so `from pkg import X` can land on pkg/__init__.py.
+      const reExporting = /^export\b/.test(imp.content) || language === 'python';
+      for (const binding of this.extractImportBindings(imp.content)) {
+        if (reExporting) {
+          reExports.push({ name: binding.local, symbol: binding.imported, targetFilePath: resolved });
+        }
+        if (/^export\b/.test(imp.content)) {
           continue;
         }
 
-        const fullPath = path.join(dir, entry.name);
-        if (entry.isDirectory()) {
-          await walk(fullPath);
+        symbolMap.set(binding.local, { targetFilePath: resolved, symbol: binding.imported });
+        if (binding.imported === '*') {
           continue;
         }
+        // Attempt to connect to referenced symbols within the target file
+        edges.push({
+          from: fileNodeId,
+          to: this.createPlaceholderSymbolId(resolved, binding.imported),
+          type: 'references',
+          metadata: {
+            importPath,
+            symbol: binding.imported,
+            targetFilePath: resolved,
+            source: 'import',
+          },
+        });
+      }
+    }
+
+    return {
+      edges: edges.map(edge => ({
+        id: this.createEdgeId(edge.from, edge.to, edge.type),
+        from: edge.from,
+        to: edge.to,
+        type: edge.type,
+        metadata: edge.metadata,
+      })),
+      symbolMap,
+      reExports,
+      packages: Array.from(packages.values()),
+      unresolved,
+    };
+  }
 
-        const relative = path.relative(this.rootDir, fullPath);
-        const language = languageRegistry.inferFromPath(relative);
-        if (language) {
-          files.push(relative);
+  /**
+   * Replaces the graph's workspace `package` nodes with one per declared workspace,
+   * each with a `contains` edge to every file in its directory (nested packages
+   * claim their own files).
+   */
+  private async linkWorkspacePackages(graph: CodeGraph): Promise<void> {
+    for (const node of graph.getAllNodes()) {
+      if (node.type === 'package' && node.metadata?.workspace) {
+        graph.removeNode(node.id);
+      }
+    }
+
+    const workspaces = await this.resolver.workspaces();
+    if (workspaces.length === 0) {
+      return;
+    }
+
+    const packageIds = new Map<string, string>();
+    for (const workspace of workspaces) {
+      const node = graph.upsertNode({
+        id: this.digest(`workspace:${workspace.directory}`),
+        type: 'package',
+        name: workspace.name,
+        path: workspace.directory,
+        content: '',
+        startLine: 0,
+        endLine: 0,
+        metadata: { workspace: true, directory: workspace.directory },
+      });
+      packageIds.set(workspace.directory, node.id);
+    }
+
+    for (const file of graph.getAllNodes()) {
+      if (file.type !== 'file') continue;
+      const workspace = workspaceForPath(workspaces, file.path);
+      if (!workspace) continue;
+      const packageId = packageIds.get(workspace.directory)!;
+      graph.upsertEdge({
+        id: this.createEdgeId(packageId, file.id, 'contains'),
+        from: packageId,
+        to: file.id,
+        type: 'contains',
+        metadata: {},
+      });
+    }
+  }
+
+  /**
+   * Adds `references` edges from code to the config keys and Markdown sections it
+   * names: a string literal spelling out a key path (`'features.newCheckout'`), or
+   * a link such as `docs/auth.md#login-flow`. Edges start at the innermost symbol
+   * around the mention, or at the file when it sits outside every symbol.
+   */
+  private linkDocumentMentions(graph: CodeGraph): void {
+    const configKeys = new Map<string, GraphNode[]>();
+    const sections = new Map<string, Map<string, GraphNode>>();
+    for (const node of graph.getAllNodes()) {
+      if (node.type === 'config_key' && DISTINCTIVE_KEY.test(node.name)) {
+        const bucket = configKeys.get(node.name) ?? [];
+        bucket.push(node);
+        configKeys.set(node.name, bucket);
+      } else if (node.type === 'doc_section') {
+        const anchors = sections.get(node.path) ?? new Map<string, GraphNode>();
+        anchors.set(String(node.metadata.anchor), node);
+        sections.set(node.path, anchors);
+      }
+    }
+    if (configKeys.size === 0 && sections.size === 0) {
+      return;
+    }
+
+    for (const file of graph.getAllNodes()) {
+      if (file.type !== 'file' || !languageRegistry.canParse(String(file.metadata?.language))) {
+        continue;
+      }
+
+      const mentions: Array<{ index: number; kind: 'config' | 'doc'; symbol: string; target: GraphNode }> = [];
+      if (configKeys.size > 0) {
+        for (const match of file.content.matchAll(STRING_LITERAL)) {
+          for (const target of configKeys.get(match[2]) ?? []) {
+            mentions.push({ index: match.index!, kind: 'config', symbol: match[2], target });
+          }
+        }
+      }
+      if (sections.size > 0) {
+        for (const match of file.content.matchAll(DOC_LINK)) {
+          const docPath = this.resolveDocPath(file.path, match[1], sections);
+          const target = docPath ? sections.get(docPath)?.get(match[2].toLowerCase()) : undefined;
+          if (target) {
+            mentions.push({ index: match.index!, kind: 'doc', symbol: `${docPath}#${target.metadata.anchor}`, target });
+          }
         }
       }
+      if (mentions.length === 0) {
+        continue;
+      }
+
+      const symbols = graph
+        .getNodesByPath(file.path)
+        .filter(node => node.type !== 'file' && node.type !== 'import' && node.type !== 'package');
+      for (const mention of mentions) {
+        const line = file.content.slice(0, mention.index).split('\n').length;
+        const source = symbols
+          .filter(node => node.startLine <= line && line <= node.endLine)
+          .reduce<GraphNode>(
+            (innermost, node) =>
+              node.endLine - node.startLine < innermost.endLine - innermost.startLine ? node : innermost,
+            file
+          );
+        graph.upsertEdge({
+          id: this.createEdgeId(source.id, mention.target.id, 'references'),
+          from: source.id,
+          to: mention.target.id,
+          type: 'references',
+          metadata: {
+            source: 'mention',
+            kind: mention.kind,
+            symbol: mention.symbol,
+            targetFilePath: mention.target.path,
+            confidence: MENTION_CONFIDENCE[mention.kind],
+          },
+        });
+      }
+    }
+  }
+
+  /** Resolves a Markdown link from code: relative to the file, then the root, then by path suffix. */
+  private resolveDocPath(
+    fromPath: string,
+    link: string,
+    sections: Map<string, Map<string, GraphNode>>
+  ): string | undefined {
+    const fromDir = path.posix.dirname(fromPath.split(path.sep).join('/'));
+    const candidates = [path.posix.join(fromDir, link), path.posix.normalize(link)];
+    const direct = candidates.find(candidate => sections.has(candidate));
+    if (direct) {
+      return direct;
+    }
+    const suffix = link.replace(/^(\.{1,2}\/)+/, '');
+    return Array.from(sections.keys()).find(docPath => docPath === suffix || docPath.endsWith(`/${suffix}`));
+  }
+
+  private createPackageNode(resolution: Extract<ModuleResolution, { kind: 'external' }>): GraphNode {
+    return {
+      id: this.digest(`package:${resolution.packageName}`),
+      type: 'package',
+      name: resolution.packageName,
+      path: resolution.packageName,
+      content: '',
+      startLine: 0,
+      endLine: 0,
+      metadata: { external: true, ecosystem: resolution.ecosystem },
     };
+  }
 
-    await walk(this.rootDir);
-    return files;
+  private extractImportPath(importStatement: string): string | null {
+    const fromMatch = importStatement.match(/from\s+['"]([^'"]+)['"]/);
+    if (fromMatch) {
+      return fromMatch[1];
+    }
+
+    const requireMatch = importStatement.match(/require\(['"]([^'"]+)['"]\)/);
+    if (requireMatch) {
+      return requireMatch[1];
+    }
+
+    // Side-effect imports: `import './polyfills';`
+    const bareMatch = importStatement.match(/^import\s+['"]([^'"]+)['"]/);
+    if (bareMatch) {
+      return bareMatch[1];
+    }
+
+    // Python `from .models import User`; plain `import a.b` falls through to the path form below.
+    const pythonFromMatch = importStatement.match(/^from\s+(\.+[\w.]*|[\w.]+)\s+import\b/);
+    if (pythonFromMatch) {
+      return pythonFromMatch[1];
+    }
+
+    // Go import specs are a quoted path with an optional alias.
+    const goMatch = importStatement.match(/^(?:[\w.]+\s+)?"([^"]+)"$/);
+    if (goMatch) {
+      return goMatch[1];
+    }
+
+    // Rust `use a::b;` and Java `import a.b.C;`.
+    const pathMatch = importStatement.match(/^(?:pub(?:\([^)]*\))?\s+)?(?:use|import(?:\s+static)?)\s+([\w:.*]+)/);
+    if (pathMatch) {
+      return pathMatch[1];
+    }
+
+    return null;
   }
 
-  private buildFileCard(filePath: string, content: string): string {
-    const lines = content.split(/\r?\n/);
-    const header = lines.slice(0, 50).join('\n');
-    const imports = lines.filter(l => /\bimport\b|require\(/.test(l)).slice(0, 20).join('\n');
-    const exports = lines.filter(l => /\bexport\b/.test(l)).slice(0, 20).join('\n');
-    return [`# file ${filePath}`, '## imports', imports, '## exports', exports, '## header', header].join('\n');
+  /**
+   * Names an import or re-export binds: `local` is the name in this file, `imported`
+   * the name in the target module (`*` for namespaces and `export *`).
+   */
+  private extractImportBindings(importStatement: string): ImportBinding[] {
+    const bindings = new Map<string, ImportBinding>();
+    const add = (imported: string, local = imported) => {
+      if (local && !bindings.has(local)) {
+        bindings.set(local, { local, imported });
+      }
+    };
+    const addList = (list: string) => {
+      for (const entry of list.split(',')) {
+        const [imported, local] = entry.trim().replace(/^type\s+/, '').split(/\s+as\s+/);
+        if (imported && imported !== '*') {
+          add(imported.trim(), local?.trim());
+        }
+      }
+    };
+
+    const namedMatch = importStatement.match(/^(?:import|export)\s+(?:type\s+)?(?:[A-Za-z0-9_$]+\s*,\s*)?\{([^}]+)\}/);
+    if (namedMatch) {
+      addList(namedMatch[1]);
+    }
+
+    const defaultMatch = importStatement.match(/import\s+(?:type\s+)?([A-Za-z0-9_$]+)\s*(?:,|from)/);
+    if (defaultMatch && defaultMatch[1] !== 'type') {
+      add(defaultMatch[1]);
+    }
+
+    const pythonMatch = importStatement.match(/^from\s+\S+\s+import\s+\(?([^)]+)\)?/);
+    if (pythonMatch) {
+      addList(pythonMatch[1]);
+    }
+
+    const namespaceMatch = importStatement.match(/(?:import|export)\s+\*\s+as\s+([A-Za-z0-9_$]+)/);
+    if (namespaceMatch) {
+      add('*', namespaceMatch[1]);
+    } else if (/^export\s+\*\s+from\b/.test(importStatement)) {
+      add('*');
+    }
+
+    return Array.from(bindings.values());
   }
 
-  static buildExportedIndexFromGraph(_graph: CodeGraph): Map<string, string> {
-    return new Map();
+  private async analyzeContent(
+    filePath: string,
+    content: string,
+    language: SupportedLanguage,
+    pool: ParsePool | null,
+    options: ExtractionOptions
+  ): Promise<SymbolGraphData> {
+    const pack = languageRegistry.getLanguageInfo(language);
+    if (pool && pack && BUILTIN_LANGUAGE_PACKS.includes(pack)) {
+      try {
+        return await pool.parse(content, language, options);
+      } catch {
+        // Parse again here; real syntax failures surface with the usual message.
+      }
+    }
+
+    const tree = await this.parseContent(content, language, path.join(this.rootDir, filePath));
+    return this.extractor.extractGraphData(tree, language, options);
   }
 
-  resolveEdges(_graph: CodeGraph, _edges: GraphEdge[], _exportedIndex: Map<string, string>): GraphEdge[] {
-    return [];
+  private async parseContent(
+    content: string,
+    language: SupportedLanguage,
+    filePath: string
+  ): Promise<Parser.Tree> {
+    try {
+      return await this.parser.parse(content, language);
+    } catch (error) {
+      throw new Error(`Failed to parse ${filePath}: ${error instanceof Error ? error.message : String(error)}`);
+    }
   }
 
   private createFileNodeId(filePath: string): string {
     return this.digest(`file:${filePath}`);
   }
 
+  private createSymbolNodeId(filePath: string, symbol: ExtractedSymbol): string {
+    return this.digest(
+      [
+        'symbol',
+        filePath,
+        symbol.type,
+        symbol.name,
+        symbol.startLine,
+        symbol.endLine,
+        symbol.kind ?? '',
+      ].join(':')
+    );
+  }
+
+  private createPlaceholderSymbolId(filePath: string, symbolName: string): string {
+    return this.digest(['placeholder', filePath, symbolName].join(':'));
+  }
+
+  private createSymbolKey(filePath: string, symbolName: string): string {
+    return `${filePath}#${symbolName}`;
+  }
+
+  private createRangeKey(startIndex: number, endIndex: number): string {
+    return `${startIndex}:${endIndex}`;
+  }
+
+  private buildExportedIndexFromSnapshots(
+    snapshots: FileGraphSnapshot[]
+  ): Map<string, string> {
+    const index = new Map<string, string>();
+    for (const snapshot of snapshots) {
+      for (const node of snapshot.symbols) {
+        if (node.type === 'package') {
+          continue;
+        }
+        const key = this.createSymbolKey(snapshot.filePath, node.name);
+        if (!index.has(key) || node.metadata?.exported === true) {
+          index.set(key, node.id);
+        }
+      }
+    }
+    return index;
+  }
+
+  static buildExportedIndexFromGraph(graph: GraphView): Map<string, string> {
+    const index = new Map<string, string>();
+    for (const node of graph.getAllNodes()) {
+      if (node.type === 'file' || node.type === 'import' || node.type === 'package') {
+        continue;
+      }
+      const key = `${node.path}#${node.name}`;
+      if (!index.has(key) || node.metadata?.exported === true) {
+        index.set(key, node.id);
+      }
+    }
+    return index;
+  }
+
+  resolveEdges(
+    graph: GraphView,
+    edges: GraphEdge[],
+    exportedIndex: Map<string, string>
+  ): GraphEdge[] {
+    const resolved: GraphEdge[] = [];
+    let callableIndex: Map<string, GraphNode[]> | null = null;
+    for (const edge of edges) {
+      if (!graph.hasNode(edge.from)) {
+        continue;
+      }
+      if (edge.metadata?.resolution === 'ambiguous' && !graph.hasNode(edge.to)) {
+        callableIndex ??= this.buildCallableIndex(graph);
+        resolved.push(...this.resolveAmbiguousEdge(edge, callableIndex));
+        continue;
+      }
+      const candidate = this.resolveEdge(graph, edge, exportedIndex);
+      if (candidate) {
+        resolved.push(candidate);
+      }
+    }
+    return resolved;
+  }
+
+  private resolveEdge(
+    graph: GraphView,
+    edge: GraphEdge,
+    exportedIndex: Map<string, string>
+  ): GraphEdge | null {
+    let targetId: string | null = edge.to;
+    if (!graph.hasNode(targetId)) {
+      const targetFilePath = edge.metadata?.targetFilePath as string | undefined;
+      const symbolName = edge.metadata?.symbol as string | undefined;
+      if (!targetFilePath || !symbolName) {
+        return null;
+      }
+      targetId = this.lookupExport(graph, exportedIndex, targetFilePath, symbolName);
+    }
+
+    if (!targetId || !graph.hasNode(targetId)) {
+      return null;
+    }
+
+    return {
+      ...edge,
+      id: this.createEdgeId(edge.from, targetId, edge.type),
+      to: targetId,
+    };
+  }
+
+  /** Finds `symbolName` in a file, following its re-exports (`export ... from`, Python package imports). */
+  private lookupExport(
+    graph: GraphView,
+    exportedIndex: Map<string, string>,
+    filePath: string,
+    symbolName: string,
+    visited = new Set<string>()
+  ): string | null {
+    const key = this.createSymbolKey(filePath, symbolName);
+    const direct = exportedIndex.get(key);
+    if (direct || visited.has(key)) {
+      return direct ?? null;
+    }
+    visited.add(key);
+
+    const reExports = graph.getNode(this.createFileNodeId(filePath))?.metadata?.reExports as ReExport[] | undefined;
+    for (const reExport of reExports ?? []) {
+      if (reExport.name !== symbolName && reExport.name !== '*') {
+        continue;
+      }
+      const symbol = reExport.name === '*' ? symbolName : reExport.symbol;
+      if (symbol === '*') {
+        continue;
+      }
+      const found = this.lookupExport(graph, exportedIndex, reExport.targetFilePath, symbol, visited);
+      if (found) {
+        return found;
+      }
+    }
+    return null;
+  }
+
+  /** Spreads a call with no known receiver type over the functions sharing its name. */
+  private resolveAmbiguousEdge(edge: GraphEdge, callableIndex: Map<string, GraphNode[]>): GraphEdge[] {
+    const candidates = (callableIndex.get(edge.metadata.symbol as string) ?? []).filter(
+      node => node.id !== edge.from
+    );
+    if (candidates.length === 0 || candidates.length > MAX_AMBIGUOUS_TARGETS) {
+      return [];
+    }
+
+    const confidence = CALL_CONFIDENCE.ambiguous / candidates.length;
+    return candidates.map(node => ({
+      ...edge,
+      id: this.createEdgeId(edge.from, node.id, edge.type),
+      to: node.id,
+      metadata: { ...edge.metadata, targetFilePath: node.path, confidence },
+    }));
+  }
+
+  private buildCallableIndex(graph: GraphView): Map<string, GraphNode[]> {
+    const index = new Map<string, GraphNode[]>();
+    for (const node of graph.getAllNodes()) {
+      if (node.type !== 'function') {
+        continue;
+      }
+      const bucket = index.get(node.name) ?? [];
+      bucket.push(node);
+      index.set(node.name, bucket);
+    }
+    return index;
+  }
+
+  private createEdgeId(from: string, to: string, type: GraphEdge['type']): string {
+    return this.digest(['edge', from, to, type].join(':'));
+  }
+
   private digest(value: string): string {
     return crypto.createHash('sha1').update(value).digest('hex');
   }
@@ -190,4 +1578,3 @@ export class GraphBuilder {
     }
   }
 }
-
@@ -0,0 +1,231 @@
+import type { GraphEdge, GraphNode, GraphView } from './CodeGraph.js';
+import { GraphWalker } from './GraphWalker.js';
+import { IgnoreRules } from './IgnoreRules.js';
+import { UserFacingError } from '../utils/errors.js';
+
+export type ExportFormat = 'dot' | 'graphml' | 'json';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['dot', 'graphml', 'json'];
+
+export interface ExportFilter {
+  /** Gitignore-style globs; a node is kept when its path matches, and `!pattern` drops paths again. */
+  paths?: string[];
+  nodeTypes?: GraphNode['type'][];
+  /** Limits both the edges exported and the edges walked from `around`. */
+  edgeTypes?: GraphEdge['type'][];
+  /** Node ids to centre the export on; only nodes within `depth` hops, either direction, are kept. */
+  around?: string[];
+  depth?: number;
+}
+
+export interface GraphSubset {
+  nodes: GraphNode[];
+  edges: GraphEdge[];
+}
+
+const DEFAULT_AROUND_DEPTH = 1;
+
+const DOT_SHAPES: Partial<Record<GraphNode['type'], string>> = {
+  file: 'note',
+  package: 'folder',
+  class: 'component',
+  interface: 'component',
+  test: 'hexagon',
+  config_key: 'cds',
+  doc_section: 'tab',
+  sql_statement: 'cylinder',
+};
+
+const DOT_EDGE_STYLES: Partial<Record<GraphEdge['type'], string>> = {
+  contains: 'style=dashed, color=gray',
+  tests: 'style=dotted, color=darkgreen',
+  extends: 'arrowhead=empty',
+  implements: 'arrowhead=empty, style=dashed',
+  references: 'color=steelblue',
+};
+
+/**
+ * Writes a filtered slice of the graph as Graphviz DOT, GraphML or slim JSON.
+ * None of the formats carry node content or embeddings, which is what makes
+ * `toJSON` unusable for diagrams.
+ */
+export class GraphExporter {
+  constructor(private readonly graph: GraphView) {}
+
+  export(format: ExportFormat, filter: ExportFilter = {}): string {
+    const subset = this.select(filter);
+    switch (format) {
+      case 'dot':
+        return toDot(subset);
+      case 'graphml':
+        return toGraphML(subset);
+      case 'json':
+        return toSlimJson(subset);
+      default:
+        throw new UserFacingError(`Unknown export format "${format}" (expected one of ${EXPORT_FORMATS.join(', ')})`);
+    }
+  }
+
+  /** Nodes passing every filter, and the edges of the allowed types between them. */
+  select(filter: ExportFilter = {}): GraphSubset {
+    let candidates = this.graph.getAllNodes();
+    if (filter.around && filter.around.length > 0) {
+      const walker = new GraphWalker(this.graph);
+      const depth = filter.depth ?? DEFAULT_AROUND_DEPTH;
+      const nearby = new Map<string, GraphNode>();
+      for (const id of filter.around) {
+        for (const node of walker.bfs(id, depth, { direction: 'both', edgeTypes: filter.edgeTypes })) {
+          nearby.set(node.id, node);
+        }
+      }
+      candidates = Array.from(nearby.values());
+    }
+
+    const pathRules = filter.paths?.length ? IgnoreRules.fromPatterns(filter.paths, 'export') : null;
+    const nodes = candidates
+      .filter(node => !filter.nodeTypes || filter.nodeTypes.includes(node.type))
+      .filter(node => !pathRules || matchesPath(pathRules, node.path))
+      .sort(
+        (a, b) =>
+          a.path.localeCompare(b.path) ||
+          Number(b.type === 'file') - Number(a.type === 'file') ||
+          a.startLine - b.startLine ||
+          a.id.localeCompare(b.id)
+      );
+
+    const kept = new Set(nodes.map(node => node.id));
+    const edges = this.graph
+      .getAllEdges()
+      .filter(
+        edge =>
+          kept.has(edge.from) &&
+          kept.has(edge.to) &&
+          (!filter.edgeTypes || filter.edgeTypes.includes(edge.type))
+      )
+      .sort((a, b) => a.from.localeCompare(b.from) || a.to.localeCompare(b.to) || a.type.localeCompare(b.type));
+    return { nodes, edges };
+  }
+}
+
+// As with `include` in the scanner, a pattern naming a directory keeps everything below it.
+// Like gitignore, nothing inside a directory excluded with `!` comes back.
+function matchesPath(rules: IgnoreRules, filePath: string): boolean {
+  const segments = filePath.split('/');
+  let kept = false;
+  for (let depth = 1; depth <= segments.length; depth++) {
+    const match = rules.match(segments.slice(0, depth).join('/'), depth < segments.length);
+    if (match === false) {
+      return false;
+    }
+    kept ||= match === true;
+  }
+  return kept;
+}
+
+/** Symbols are clustered under the file (or package) path that holds them. */
+function toDot({ nodes, edges }: GraphSubset): string {
+  const lines = ['digraph codeflow {', '  rankdir=LR;', '  node [shape=box, fontname="Helvetica", fontsize=10];'];
+  const byPath = new Map<string, GraphNode[]>();
+  for (const node of nodes) {
+    (byPath.get(node.path) ?? byPath.set(node.path, []).get(node.path)!).push(node);
+  }
+
+  let cluster = 0;
+  for (const [filePath, members] of byPath) {
+    lines.push(`  subgraph cluster_${cluster++} {`, `    label=${dotString(filePath)};`, '    style=rounded;');
+    for (const node of members) {
+      const label = node.type === 'file' ? node.name : `${node.name}\n${node.type}`;
+      const shape = DOT_SHAPES[node.type];
+      lines.push(
+        `    ${dotString(node.id)} [label=${dotString(label)}${shape ? `, shape=${shape}` : ''}];`
+      );
+    }
+    lines.push('  }');
+  }
+
+  for (const edge of edges) {
+    const style = DOT_EDGE_STYLES[edge.type];
+    lines.push(
+      `  ${dotString(edge.from)} -> ${dotString(edge.to)} [label=${dotString(edge.type)}${style ? `, ${style}` : ''}];`
+    );
+  }
+  lines.push('}');
+  return lines.join('\n');
+}
+
+function dotString(value: string): string {
+  return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\r?\n/g, '\\n')}"`;
+}
+
+function toGraphML({ nodes, edges }: GraphSubset): string {
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<graphml xmlns="http://graphml.graphdrawing.org/xmlns">',
+    '  <key id="type" for="node" attr.name="type" attr.type="string"/>',
+    '  <key id="name" for="node" attr.name="name" attr.type="string"/>',
+    '  <key id="path" for="node" attr.name="path" attr.type="string"/>',
+    '  <key id="startLine" for="node" attr.name="startLine" attr.type="int"/>',
+    '  <key id="endLine" for="node" attr.name="endLine" attr.type="int"/>',
+    '  <key id="edgeType" for="edge" attr.name="type" attr.type="string"/>',
+    '  <key id="confidence" for="edge" attr.name="confidence" attr.type="double"/>',
+    '  <graph id="codeflow" edgedefault="directed">',
+  ];
+
+  for (const node of nodes) {
+    lines.push(
+      `    <node id="${xmlEscape(node.id)}">`,
+      `      <data key="type">${node.type}</data>`,
+      `      <data key="name">${xmlEscape(node.name)}</data>`,
+      `      <data key="path">${xmlEscape(node.path)}</data>`,
+      `      <data key="startLine">${node.startLine}</data>`,
+      `      <data key="endLine">${node.endLine}</data>`,
+      '    </node>'
+    );
+  }
+  for (const edge of edges) {
+    lines.push(
+      `    <edge id="${xmlEscape(edge.id)}" source="${xmlEscape(edge.from)}" target="${xmlEscape(edge.to)}">`,
+      `      <data key="edgeType">${edge.type}</data>`
+    );
+    if (typeof edge.metadata?.confidence === 'number') {
+      lines.push(`      <data key="confidence">${edge.metadata.confidence}</data>`);
+    }
+    lines.push('    </edge>');
+  }
+  lines.push('  </graph>', '</graphml>');
+  return lines.join('\n');
+}
+
+function xmlEscape(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+function toSlimJson({ nodes, edges }: GraphSubset): string {
+  return JSON.stringify(
+    {
+      nodes: nodes.map(({ id, type, name, path, startLine, endLine, metadata }) => ({
+        id,
+        type,
+        name,
+        path,
+        startLine,
+        endLine,
+        metadata: slimMetadata(metadata),
+      })),
+      edges: edges.map(({ id, from, to, type, metadata }) => ({ id, from, to, type, metadata })),
+    },
+    null,
+    2
+  );
+}
+
+// The embedding card repeats the node's code, which the slim format exists to leave out.
+function slimMetadata(metadata: Record<string, unknown>): Record<string, unknown> {
+  const { embeddingText: _embeddingText, ...rest } = metadata ?? {};
+  return rest;
+}
@@ -1,16 +1,27 @@
 import { nanoid } from 'nanoid';
-import { CodeGraph, type GraphEdge } from './CodeGraph.js';
-import { GraphBuilder } from './GraphBuilder.js';
-import { DiffOverlay } from './DiffOverlay.js';
-import type { GraphStore } from './store/GraphStore.js';
-import type { FileGraphSnapshot } from './types.js';
+import { CodeGraph, type GraphEdge, type GraphView } from './CodeGraph.js';
+import { GraphBuilder, type BuildProgress } from './GraphBuilder.js';
+import type { IndexingOptions } from './SourceFileScanner.js';
+import { DiffOverlay, type DiffOperation } from './DiffOverlay.js';
+import { LayeredGraph } from './LayeredGraph.js';
+import { OverlayStore, computeGraphFingerprint } from './OverlayStore.js';
+import type { GraphSnapshotDiff, GraphSnapshotInfo, GraphStore } from './store/GraphStore.js';
+import { diffGraphs } from './store/snapshots.js';
+import type {
+  FileGraphSnapshot,
+  IncrementalBuildResult,
+  OverlayConflict,
+  OverlayConflictResolution,
+} from './types.js';
+import { OverlayConflictError, UserFacingError } from '../utils/errors.js';
 import { logger } from '../utils/logger.js';
 
 interface GraphBuilderLike {
   build(): Promise<CodeGraph>;
+  buildIncremental?(previous: CodeGraph): Promise<IncrementalBuildResult>;
   buildFileSnapshot(filePath: string): Promise<FileGraphSnapshot | null>;
   resolveEdges(
-    graph: CodeGraph,
+    graph: GraphView,
     edges: GraphEdge[],
     exportedIndex: Map<string, string>
   ): GraphEdge[];
@@ -20,14 +31,63 @@ export interface GraphManagerOptions {
   rootDir: string;
   store: GraphStore;
   builder?: GraphBuilderLike;
+  /** Progress of builds run by the default builder. */
+  onBuildProgress?: (progress: BuildProgress) => void;
+  /** Which files the default builder indexes. */
+  indexing?: IndexingOptions;
   hooks?: GraphOverlayHooks;
+  overlayStore?: OverlayStore;
 }
 
 export type GraphSource = 'store' | 'build';
 
+/** Overlay that edits are recorded into until another one is created or switched to. */
+export const DEFAULT_OVERLAY_NAME = 'default';
+
 export interface InitializeResult {
   graph: CodeGraph;
   source: GraphSource;
+  /** Files added, changed or removed on disk since the stored graph was saved, and re-parsed on load. */
+  refreshedFiles: number;
+  leftoverOverlays: LeftoverOverlay[];
+}
+
+/** An overlay persisted by an earlier session that was never merged or discarded. */
+export interface LeftoverOverlay {
+  id: string;
+  name: string;
+  savedAt: number;
+  modifiedPaths: string[];
+  /** False when the stored graph changed since the overlay was recorded. */
+  baseMatches: boolean;
+}
+
+export interface OverlaySummary {
+  name: string;
+  id: string;
+  active: boolean;
+  modifiedPaths: string[];
+  operationCount: number;
+}
+
+export interface OverlayComparison {
+  left: string;
+  right: string;
+  onlyInLeft: string[];
+  onlyInRight: string[];
+  sharedPaths: string[];
+  diff: GraphSnapshotDiff;
+}
+
+export interface MergeOverlayOptions {
+  /**
+   * Decide how to handle a file that changed on disk after the overlay
+   * recorded it. Without a resolver, conflicting merges throw
+   * `OverlayConflictError`.
+   */
+  resolveConflict?(
+    conflict: OverlayConflict
+  ): OverlayConflictResolution | Promise<OverlayConflictResolution>;
 }
 
 export interface GraphOverlayCommitPayload {
@@ -43,54 +103,111 @@ export interface GraphOverlayHooks {
   onOverlayDiscarded?(overlayId: string): void;
 }
 
+interface OverlaySlot {
+  name: string;
+  overlay: DiffOverlay;
+  modifiedPaths: Set<string>;
+  cache: GraphView | null;
+}
+
 export class GraphManager {
   private readonly builder: GraphBuilderLike;
   private baseGraph: CodeGraph | null = null;
-  private overlay: DiffOverlay | null = null;
-  private overlayCache: CodeGraph | null = null;
-  private overlayCacheDirty = false;
-  private readonly overlayModifiedPaths = new Set<string>();
+  private baseSnapshotId: string | null = null;
+  private readonly overlays = new Map<string, OverlaySlot>();
+  private activeOverlayName = DEFAULT_OVERLAY_NAME;
   private readonly hooks?: GraphOverlayHooks;
+  private readonly overlayStore: OverlayStore;
 
   constructor(private readonly options: GraphManagerOptions) {
-    this.builder = options.builder ?? new GraphBuilder(options.rootDir);
+    this.builder =
+      options.builder ??
+      new GraphBuilder(options.rootDir, {
+        onProgress: options.onBuildProgress,
+        indexing: options.indexing,
+      });
     this.hooks = options.hooks;
+    this.overlayStore = options.overlayStore ?? new OverlayStore(options.rootDir);
   }
 
   async initialize(forceRebuild = false): Promise<InitializeResult> {
     if (!forceRebuild) {
       const stored = await this.options.store.load();
       if (stored) {
-        this.baseGraph = stored;
+        const { graph, refreshedFiles } = await this.refreshStoredGraph(stored);
+        await this.adoptBaseGraph(graph);
         this.resetOverlayState();
-        return { graph: stored, source: 'store' };
+        return { graph, source: 'store', refreshedFiles, leftoverOverlays: await this.findLeftoverOverlays() };
       }
     }
 
     const built = await this.builder.build();
     await this.options.store.save(built);
-    this.baseGraph = built;
-    this.resetOverlayState();
-    return { graph: built, source: 'build' };
+    await this.adoptBaseGraph(built);
+    await this.discardAllOverlays();
+    return { graph: built, source: 'build', refreshedFiles: 0, leftoverOverlays: [] };
   }
 
-  getGraph(): CodeGraph {
-    if (!this.baseGraph) {
-      throw new Error('GraphManager has not been initialized.');
+  /**
+   * Restore an overlay left behind by an earlier session under its original
+   * name, or a numbered variant when another overlay already has it, and make
+   * it active. When the stored graph no longer matches the
+   * overlay's base, its operations cannot be replayed safely, so the modified
+   * files are re-recorded from disk instead.
+   */
+  async resumeOverlay(overlayId: string): Promise<GraphView> {
+    const baseGraph = this.requireBaseGraph();
+    const persisted = await this.overlayStore.read(overlayId);
+    if (!persisted) {
+      throw new Error(`No persisted overlay found: ${overlayId}`);
+    }
+    const name = this.unusedOverlayName(persisted.name);
+    if (name !== persisted.name) {
+      logger.warn('Overlay name already in use; resuming under another name', {
+        overlayId,
+        name: persisted.name,
+        resumedAs: name,
+      });
     }
 
-    if (!this.overlay || this.overlay.isEmpty()) {
-      return this.baseGraph;
+    this.activeOverlayName = name;
+    const baseFingerprint = computeGraphFingerprint(baseGraph);
+    if (persisted.baseFingerprint === baseFingerprint) {
+      const overlay = DiffOverlay.fromJSON(persisted.overlay);
+      this.overlays.set(name, {
+        name,
+        overlay,
+        modifiedPaths: new Set(persisted.modifiedPaths),
+        cache: null,
+      });
+      this.hooks?.onOverlayCreated?.(overlay);
+      return this.getGraph();
     }
 
-    if (!this.overlayCacheDirty && this.overlayCache) {
-      return this.overlayCache;
+    logger.warn('Overlay base graph changed; re-recording modified files', {
+      overlayId,
+      name: persisted.name,
+      modifiedPaths: persisted.modifiedPaths,
+    });
+    await this.overlayStore.remove(overlayId);
+    for (const filePath of persisted.modifiedPaths) {
+      await this.recordFileModification(filePath);
     }
+    return this.getGraph();
+  }
+
+  async discardPersistedOverlay(overlayId: string): Promise<void> {
+    await this.overlayStore.remove(overlayId);
+  }
 
-    const merged = this.overlay.apply(this.baseGraph);
-    this.overlayCache = merged;
-    this.overlayCacheDirty = false;
-    return merged;
+  /**
+   * Graph as seen through the active overlay, or the base graph when it has no
+   * edits. Overlay views read through to the base rather than copying it.
+   */
+  getGraph(): GraphView {
+    const baseGraph = this.requireBaseGraph();
+    const slot = this.overlays.get(this.activeOverlayName);
+    return slot ? this.materialize(slot) : baseGraph;
   }
 
   getBaseGraph(): CodeGraph {
@@ -100,145 +217,429 @@ export class GraphManager {
     return this.baseGraph;
   }
 
+  async listSnapshots(): Promise<GraphSnapshotInfo[]> {
+    return this.options.store.listSnapshots();
+  }
+
+  /**
+   * Load a historical snapshot without touching the active base graph or
+   * overlay, e.g. to retrieve context against the graph as it was before a
+   * refactor.
+   */
+  async loadSnapshot(snapshotId: string): Promise<CodeGraph> {
+    const graph = await this.options.store.load(snapshotId);
+    if (!graph) {
+      throw new UserFacingError(`Unknown graph snapshot: ${snapshotId}`);
+    }
+    return graph;
+  }
+
+  async diffSnapshots(fromSnapshotId: string, toSnapshotId: string): Promise<GraphSnapshotDiff> {
+    return this.options.store.diffSnapshots(fromSnapshotId, toSnapshotId);
+  }
+
+  /**
+   * Refresh the base graph from disk, re-parsing only files whose digest
+   * changed. Overlays recorded against the old base are discarded.
+   */
   async rebuild(): Promise<CodeGraph> {
-    const rebuilt = await this.builder.build();
+    const rebuilt = await this.refreshBaseGraph(this.getBaseGraph());
     await this.options.store.save(rebuilt);
-    this.baseGraph = rebuilt;
-    this.resetOverlayState();
+    await this.adoptBaseGraph(rebuilt);
+    await this.discardAllOverlays();
     return rebuilt;
   }
 
   hasPendingOverlay(): boolean {
-    return Boolean(this.overlay && !this.overlay.isEmpty());
+    const slot = this.overlays.get(this.activeOverlayName);
+    return Boolean(slot && !slot.overlay.isEmpty());
   }
 
   getPendingOverlay(): DiffOverlay | null {
-    return this.overlay;
+    return this.overlays.get(this.activeOverlayName)?.overlay ?? null;
   }
 
-  async recordFileModification(filePath: string): Promise<CodeGraph> {
-    if (!this.baseGraph) {
-      throw new Error('GraphManager has not been initialized.');
+  getActiveOverlayName(): string {
+    return this.activeOverlayName;
+  }
+
+  listOverlays(): OverlaySummary[] {
+    return Array.from(this.overlays.values()).map(slot => ({
+      name: slot.name,
+      id: slot.overlay.id,
+      active: slot.name === this.activeOverlayName,
+      modifiedPaths: Array.from(slot.modifiedPaths),
+      operationCount: slot.overlay.size(),
+    }));
+  }
+
+  /**
+   * Start a new named overlay on top of the base graph and make it active, so
+   * an alternative approach can be explored without touching other overlays.
+   */
+  createOverlay(name: string): GraphView {
+    const trimmed = name.trim();
+    if (!trimmed) {
+      throw new Error('Overlay name must not be empty.');
+    }
+    if (this.overlays.has(trimmed)) {
+      throw new Error(`Overlay already exists: ${trimmed}`);
     }
 
-    const snapshot = await this.builder.buildFileSnapshot(filePath);
-    const overlay = this.ensureOverlay();
-    overlay.clearPath(filePath);
-    this.overlayModifiedPaths.add(filePath);
+    this.activeOverlayName = trimmed;
+    this.ensureOverlay();
+    return this.getGraph();
+  }
 
-    const baseNodes = this.baseGraph.getNodesByPath(filePath);
-    for (const node of baseNodes) {
-      overlay.addOperation({
-        type: 'remove',
-        nodeId: node.id,
-        metadata: { path: filePath },
-      });
+  switchOverlay(name: string): GraphView {
+    if (name !== DEFAULT_OVERLAY_NAME && !this.overlays.has(name)) {
+      throw new Error(`Unknown overlay: ${name}`);
     }
+    this.activeOverlayName = name;
+    return this.getGraph();
+  }
 
-    if (snapshot) {
-      const workingGraph = this.baseGraph.clone();
-      workingGraph.removeNodesByPath(filePath);
-      workingGraph.upsertNode(snapshot.file);
-      for (const node of snapshot.symbols) {
-        workingGraph.upsertNode(node);
-      }
+  compareOverlays(left: string, right: string): OverlayComparison {
+    const leftSlot = this.requireOverlay(left);
+    const rightSlot = this.requireOverlay(right);
+
+    const leftPaths = leftSlot.modifiedPaths;
+    const rightPaths = rightSlot.modifiedPaths;
+    return {
+      left,
+      right,
+      onlyInLeft: Array.from(leftPaths).filter(filePath => !rightPaths.has(filePath)),
+      onlyInRight: Array.from(rightPaths).filter(filePath => !leftPaths.has(filePath)),
+      sharedPaths: Array.from(leftPaths).filter(filePath => rightPaths.has(filePath)),
+      diff: diffGraphs(
+        leftSlot.overlay.id,
+        this.materialize(leftSlot),
+        rightSlot.overlay.id,
+        this.materialize(rightSlot)
+      ),
+    };
+  }
 
-      const exportedIndex = GraphBuilder.buildExportedIndexFromGraph(workingGraph);
-      const resolvedEdges = this.builder.resolveEdges(
-        workingGraph,
-        snapshot.edges,
-        exportedIndex
-      );
+  /** Record an edit to `filePath` in the active overlay. */
+  async recordFileModification(filePath: string): Promise<GraphView> {
+    this.requireBaseGraph();
+    await this.recordIntoOverlay(this.ensureOverlay(), filePath);
+    return this.getGraph();
+  }
 
-      overlay.addOperation({
-        type: 'add',
-        node: snapshot.file,
-      });
-      for (const node of snapshot.symbols) {
-        overlay.addOperation({
-          type: 'add',
-          node,
-        });
+  /**
+   * Files in an overlay whose on-disk digest no longer matches the one
+   * recorded with their operations, e.g. after a `git pull` or an editor save.
+   */
+  async detectConflicts(name = this.activeOverlayName): Promise<OverlayConflict[]> {
+    const slot = this.overlays.get(name);
+    if (!slot) {
+      return [];
+    }
+
+    const conflicts: OverlayConflict[] = [];
+    for (const filePath of slot.modifiedPaths) {
+      const recordedDigest = slot.overlay.getFileDigest(filePath);
+      if (recordedDigest === undefined) {
+        continue;
       }
-      for (const edge of resolvedEdges) {
-        overlay.addOperation({
-          type: 'add',
-          edge,
-          metadata: { path: filePath },
-        });
+      const snapshot = await this.builder.buildFileSnapshot(filePath);
+      const currentDigest = snapshot?.digest ?? null;
+      if (currentDigest !== recordedDigest) {
+        conflicts.push({ path: filePath, recordedDigest, currentDigest });
       }
     }
-
-    this.overlayCacheDirty = true;
-    this.overlayCache = null;
-    this.hooks?.onOverlayUpdated?.(overlay);
-    return this.getGraph();
+    return conflicts;
   }
 
-  async mergeOverlay(): Promise<CodeGraph> {
+  /**
+   * Fold an overlay (the active one by default) into the base graph. The
+   * remaining overlays were recorded against the old base and are discarded.
+   * Files changed on disk since they were recorded are resolved through
+   * `options.resolveConflict`.
+   */
+  async mergeOverlay(
+    name = this.activeOverlayName,
+    options: MergeOverlayOptions = {}
+  ): Promise<CodeGraph> {
     if (!this.baseGraph) {
       throw new Error('GraphManager has not been initialized.');
     }
 
-    if (!this.overlay || this.overlay.isEmpty()) {
+    const slot = this.overlays.get(name);
+    if (!slot || slot.overlay.isEmpty()) {
       return this.baseGraph;
     }
 
+    const keptPaths = await this.resolveConflicts(slot, options);
+
     logger.debug('Merging overlay into base graph', {
-      overlayId: this.overlay.id,
-      modifiedPaths: Array.from(this.overlayModifiedPaths),
+      overlayId: slot.overlay.id,
+      name,
+      modifiedPaths: Array.from(slot.modifiedPaths),
+      keptPaths,
     });
 
-    const overlaySnapshot = this.overlay.toJSON();
-    const overlayId = this.overlay.id;
+    const overlaySnapshot = slot.overlay.toJSON();
+    const overlayId = slot.overlay.id;
 
-    const rebuilt = await this.builder.build();
+    const rebuilt = await this.refreshBaseGraph(this.baseGraph);
+    for (const filePath of keptPaths) {
+      this.restoreOverlayPath(rebuilt, slot.overlay, filePath);
+    }
     await this.options.store.save(rebuilt);
-    this.baseGraph = rebuilt;
+    await this.overlayStore.remove(overlayId);
+    this.overlays.delete(name);
+    await this.adoptBaseGraph(rebuilt);
     this.hooks?.onOverlayCommitted?.({
       overlayId,
       serializedOverlay: overlaySnapshot,
       mergedGraph: rebuilt,
     });
-    this.resetOverlayState();
+    await this.discardAllOverlays();
     return rebuilt;
   }
 
-  async discardOverlay(): Promise<CodeGraph> {
-    if (this.overlay) {
-      this.hooks?.onOverlayDiscarded?.(this.overlay.id);
-    }
-    this.resetOverlayState();
+  async discardOverlay(name = this.activeOverlayName): Promise<GraphView> {
     if (!this.baseGraph) {
       throw new Error('GraphManager has not been initialized.');
     }
-    return this.baseGraph;
+
+    const slot = this.overlays.get(name);
+    if (slot) {
+      await this.overlayStore.remove(slot.overlay.id);
+      this.overlays.delete(name);
+      this.hooks?.onOverlayDiscarded?.(slot.overlay.id);
+    }
+    if (name === this.activeOverlayName) {
+      this.activeOverlayName = DEFAULT_OVERLAY_NAME;
+    }
+    return this.getGraph();
   }
 
   async clearStore(): Promise<void> {
     await this.options.store.clear();
     this.baseGraph = null;
-    if (this.overlay) {
-      this.hooks?.onOverlayDiscarded?.(this.overlay.id);
+    await this.discardAllOverlays();
+  }
+
+  private async recordIntoOverlay(slot: OverlaySlot, filePath: string): Promise<void> {
+    const baseGraph = this.requireBaseGraph();
+    const snapshot = await this.builder.buildFileSnapshot(filePath);
+    const overlay = slot.overlay;
+    overlay.clearPath(filePath);
+    overlay.recordFileDigest(filePath, snapshot?.digest ?? null);
+    slot.modifiedPaths.add(filePath);
+
+    const operations = baseGraph
+      .getNodesByPath(filePath)
+      .map((node): Omit<DiffOperation, 'timestamp'> => ({
+        type: 'remove',
+        nodeId: node.id,
+        metadata: { path: filePath },
+      }));
+    if (snapshot) {
+      operations.push({ type: 'add', node: snapshot.file });
+      for (const node of snapshot.symbols) {
+        // Package nodes carry the package name as their path; tag them with the file so clearPath drops them too.
+        operations.push({ type: 'add', node, metadata: { path: filePath } });
+      }
+
+      // Edges resolve against the base with this file's nodes swapped in, read through rather than copied.
+      const view = new LayeredGraph(baseGraph, operations);
+      const exportedIndex = GraphBuilder.buildExportedIndexFromGraph(view);
+      for (const edge of this.builder.resolveEdges(view, snapshot.edges, exportedIndex)) {
+        operations.push({ type: 'add', edge, metadata: { path: filePath } });
+      }
     }
-    this.resetOverlayState();
+    for (const operation of operations) {
+      overlay.addOperation(operation);
+    }
+
+    slot.cache = null;
+    await this.overlayStore.save(slot.name, overlay, slot.modifiedPaths);
+    this.hooks?.onOverlayUpdated?.(overlay);
   }
 
-  private ensureOverlay(): DiffOverlay {
+  private async resolveConflicts(
+    slot: OverlaySlot,
+    options: MergeOverlayOptions
+  ): Promise<string[]> {
+    const conflicts = await this.detectConflicts(slot.name);
+    if (conflicts.length === 0) {
+      return [];
+    }
+    if (!options.resolveConflict) {
+      throw new OverlayConflictError(conflicts);
+    }
+
+    const keptPaths: string[] = [];
+    for (const conflict of conflicts) {
+      const resolution = await options.resolveConflict(conflict);
+      logger.info('Resolved overlay conflict', { path: conflict.path, resolution });
+      switch (resolution) {
+        case 'keep-overlay':
+          keptPaths.push(conflict.path);
+          break;
+        case 'take-disk':
+          slot.overlay.clearPath(conflict.path);
+          slot.modifiedPaths.delete(conflict.path);
+          break;
+        case 're-record':
+          await this.recordIntoOverlay(slot, conflict.path);
+          break;
+      }
+    }
+    return keptPaths;
+  }
+
+  /**
+   * Replace what the rebuild parsed from disk for `filePath` with the nodes
+   * and edges the overlay recorded, keeping incoming edges that still resolve.
+   */
+  private restoreOverlayPath(graph: CodeGraph, overlay: DiffOverlay, filePath: string): void {
+    const pathNodeIds = new Set(graph.getNodesByPath(filePath).map(node => node.id));
+    const incoming = Array.from(pathNodeIds)
+      .flatMap(nodeId => graph.getIncomingEdges(nodeId))
+      .filter(edge => !pathNodeIds.has(edge.from));
+    graph.removeNodesByPath(filePath);
+
+    const operations = overlay
+      .getOperations()
+      .filter(op => op.type === 'add' && (op.node?.path === filePath || op.metadata?.path === filePath));
+    for (const op of operations) {
+      if (op.node) {
+        graph.upsertNode(op.node);
+      }
+    }
+    for (const edge of [...operations.map(op => op.edge), ...incoming]) {
+      if (edge && graph.getNode(edge.from) && graph.getNode(edge.to)) {
+        graph.upsertEdge(edge);
+      }
+    }
+  }
+
+  /**
+   * Bring a stored graph up to date with files edited between sessions (a
+   * `git pull`, a branch switch) and save the result, so the session does not
+   * run against stale nodes.
+   */
+  private async refreshStoredGraph(stored: CodeGraph): Promise<{ graph: CodeGraph; refreshedFiles: number }> {
+    if (!this.builder.buildIncremental) {
+      return { graph: stored, refreshedFiles: 0 };
+    }
+
+    const { graph, added, changed, removed } = await this.builder.buildIncremental(stored);
+    const refreshedFiles = added.length + changed.length + removed.length;
+    if (refreshedFiles === 0) {
+      return { graph: stored, refreshedFiles };
+    }
+    logger.debug('Refreshed stored graph from disk', { added, changed, removed });
+    await this.options.store.save(graph);
+    return { graph, refreshedFiles };
+  }
+
+  private async refreshBaseGraph(previous: CodeGraph): Promise<CodeGraph> {
+    if (!this.builder.buildIncremental) {
+      return this.builder.build();
+    }
+
+    const { graph, added, changed, removed } = await this.builder.buildIncremental(previous);
+    logger.debug('Incrementally refreshed base graph', { added, changed, removed });
+    return graph;
+  }
+
+  private ensureOverlay(): OverlaySlot {
+    const baseGraph = this.requireBaseGraph();
+    const existing = this.overlays.get(this.activeOverlayName);
+    if (existing) {
+      return existing;
+    }
+
+    const slot: OverlaySlot = {
+      name: this.activeOverlayName,
+      overlay: new DiffOverlay(nanoid(), {
+        fingerprint: computeGraphFingerprint(baseGraph),
+        snapshotId: this.baseSnapshotId ?? undefined,
+      }),
+      modifiedPaths: new Set(),
+      cache: null,
+    };
+    this.overlays.set(slot.name, slot);
+    this.hooks?.onOverlayCreated?.(slot.overlay);
+    return slot;
+  }
+
+  private async adoptBaseGraph(graph: CodeGraph): Promise<void> {
+    this.baseGraph = graph;
+    const [latest] = await this.options.store.listSnapshots();
+    this.baseSnapshotId = latest?.id ?? null;
+  }
+
+  private requireOverlay(name: string): OverlaySlot {
+    const slot = this.overlays.get(name);
+    if (!slot) {
+      throw new Error(`Unknown overlay: ${name}`);
+    }
+    return slot;
+  }
+
+  private requireBaseGraph(): CodeGraph {
     if (!this.baseGraph) {
       throw new Error('GraphManager has not been initialized.');
     }
-    if (!this.overlay) {
-      this.overlay = new DiffOverlay(nanoid(), this.baseGraph.toJSON());
-      this.hooks?.onOverlayCreated?.(this.overlay);
+    return this.baseGraph;
+  }
+
+  private materialize(slot: OverlaySlot): GraphView {
+    const baseGraph = this.requireBaseGraph();
+    if (slot.overlay.isEmpty()) {
+      return baseGraph;
+    }
+    if (!slot.cache) {
+      slot.cache = slot.overlay.apply(baseGraph);
+    }
+    return slot.cache;
+  }
+
+  /**
+   * Drop open overlays and any an earlier session left on disk, so none is
+   * offered for resuming against a base graph it was not recorded on.
+   */
+  private async discardAllOverlays(): Promise<void> {
+    for (const slot of this.overlays.values()) {
+      await this.overlayStore.remove(slot.overlay.id);
+      this.hooks?.onOverlayDiscarded?.(slot.overlay.id);
+    }
+    for (const record of await this.overlayStore.list()) {
+      await this.overlayStore.remove(record.id);
+    }
+    this.resetOverlayState();
+  }
+
+  private unusedOverlayName(name: string): string {
+    let candidate = name;
+    for (let suffix = 2; this.overlays.has(candidate); suffix++) {
+      candidate = `${name}-${suffix}`;
     }
-    return this.overlay;
+    return candidate;
+  }
+
+  private async findLeftoverOverlays(): Promise<LeftoverOverlay[]> {
+    const baseGraph = this.requireBaseGraph();
+    const baseFingerprint = computeGraphFingerprint(baseGraph);
+    const persisted = await this.overlayStore.list();
+    return persisted.map(record => ({
+      id: record.id,
+      name: record.name,
+      savedAt: record.savedAt,
+      modifiedPaths: record.modifiedPaths,
+      baseMatches: record.baseFingerprint === baseFingerprint,
+    }));
   }
 
   private resetOverlayState(): void {
-    this.overlay = null;
-    this.overlayCache = this.baseGraph;
-    this.overlayCacheDirty = false;
-    this.overlayModifiedPaths.clear();
+    this.overlays.clear();
+    this.activeOverlayName = DEFAULT_OVERLAY_NAME;
   }
 }
@@ -1,117 +1,353 @@
-import { CodeGraph, GraphNode, GraphEdge } from './CodeGraph.js';
+import type { GraphNode, GraphEdge, GraphView } from './CodeGraph.js';
+
+/** `out` follows edges from source to target, `in` walks them backwards, `both` ignores direction. */
+export type TraversalDirection = 'out' | 'in' | 'both';
+
+export interface TraversalOptions {
+  direction?: TraversalDirection;
+  /** Only edges of these types are followed; all types when omitted. */
+  edgeTypes?: string[];
+  /**
+   * Cost of crossing an edge, by edge type, for the weighted path searches. Types
+   * left out cost 1; a non-finite cost makes the type impassable.
+   */
+  edgeCosts?: Partial<Record<string, number>>;
+}
+
+export interface PathStep {
+  edge: GraphEdge;
+  /** False when the edge was walked from its target to its source. */
+  forward: boolean;
+}
+
+export interface GraphPath {
+  nodes: GraphNode[];
+  /** `steps[i]` joins `nodes[i]` to `nodes[i + 1]`. */
+  steps: PathStep[];
+  cost: number;
+}
+
+interface Neighbor {
+  nodeId: string;
+  step: PathStep;
+}
+
+interface SearchLimits {
+  blockedNodes?: Set<string>;
+  blockedEdges?: Set<string>;
+}
+
+// Edges from call resolution carry `metadata.confidence`; a guess costs more to cross than a certainty.
+const MIN_CONFIDENCE = 0.05;
 
 export class GraphWalker {
-  constructor(private graph: CodeGraph) {}
+  constructor(private graph: GraphView) {}
 
-  bfs(
-    startNodeId: string,
-    maxDepth: number,
-    edgeTypes?: string[]
-  ): GraphNode[] {
+  bfs(startNodeId: string, maxDepth: number, options: TraversalOptions = {}): GraphNode[] {
     const visited = new Set<string>();
-    const queue: Array<{ nodeId: string; depth: number }> = [
-      { nodeId: startNodeId, depth: 0 }
-    ];
+    const queue: Array<{ nodeId: string; depth: number }> = [{ nodeId: startNodeId, depth: 0 }];
     const result: GraphNode[] = [];
-    
-    while (queue.length > 0) {
-      const { nodeId, depth } = queue.shift()!;
-      
+
+    for (let head = 0; head < queue.length; head++) {
+      const { nodeId, depth } = queue[head];
       if (visited.has(nodeId) || depth > maxDepth) {
         continue;
       }
-      
+
       visited.add(nodeId);
       const node = this.graph.getNode(nodeId);
-      
       if (!node) continue;
-      
       result.push(node);
-      
+
       if (depth < maxDepth) {
-        const edges = this.graph.getOutgoingEdges(nodeId);
-        const filtered = edgeTypes 
-          ? edges.filter(e => edgeTypes.includes(e.type))
-          : edges;
-        
-        for (const edge of filtered) {
-          if (!visited.has(edge.to)) {
-            queue.push({ nodeId: edge.to, depth: depth + 1 });
+        for (const neighbor of this.neighbors(nodeId, options)) {
+          if (!visited.has(neighbor.nodeId)) {
+            queue.push({ nodeId: neighbor.nodeId, depth: depth + 1 });
           }
         }
       }
     }
-    
+
     return result;
   }
 
-  dfs(
-    startNodeId: string,
-    maxDepth: number,
-    edgeTypes?: string[]
-  ): GraphNode[] {
+  dfs(startNodeId: string, maxDepth: number, options: TraversalOptions = {}): GraphNode[] {
     const visited = new Set<string>();
     const result: GraphNode[] = [];
-    
+
     const visit = (nodeId: string, depth: number) => {
       if (visited.has(nodeId) || depth > maxDepth) {
         return;
       }
-      
+
       visited.add(nodeId);
       const node = this.graph.getNode(nodeId);
-      
       if (!node) return;
-      
       result.push(node);
-      
+
       if (depth < maxDepth) {
-        const edges = this.graph.getOutgoingEdges(nodeId);
-        const filtered = edgeTypes
-          ? edges.filter(e => edgeTypes.includes(e.type))
-          : edges;
-        
-        for (const edge of filtered) {
-          visit(edge.to, depth + 1);
+        for (const neighbor of this.neighbors(nodeId, options)) {
+          visit(neighbor.nodeId, depth + 1);
         }
       }
     };
-    
+
     visit(startNodeId, 0);
     return result;
   }
 
-  shortestPath(fromNodeId: string, toNodeId: string): GraphNode[] | null {
-    const queue: Array<{ nodeId: string; path: string[] }> = [
-      { nodeId: fromNodeId, path: [fromNodeId] }
-    ];
+  /**
+   * Cheapest path by Dijkstra's algorithm, where crossing an edge costs its type's
+   * `edgeCosts` entry divided by the edge's confidence. With default costs this is
+   * the path with the fewest certain hops.
+   */
+  shortestPath(fromNodeId: string, toNodeId: string, options: TraversalOptions = {}): GraphPath | null {
+    return this.dijkstra(fromNodeId, toNodeId, options, {});
+  }
+
+  /**
+   * Up to `k` loopless paths in order of increasing cost (Yen's algorithm), for
+   * explaining the different ways one node reaches another.
+   */
+  kShortestPaths(fromNodeId: string, toNodeId: string, k: number, options: TraversalOptions = {}): GraphPath[] {
+    const first = this.dijkstra(fromNodeId, toNodeId, options, {});
+    if (!first || k < 1) {
+      return [];
+    }
+
+    const accepted: GraphPath[] = [first];
+    const candidates: GraphPath[] = [];
+    const seen = new Set([pathKey(first)]);
+
+    while (accepted.length < k) {
+      const previous = accepted[accepted.length - 1];
+
+      for (let spurIndex = 0; spurIndex < previous.steps.length; spurIndex++) {
+        const spurNode = previous.nodes[spurIndex];
+        const rootNodes = previous.nodes.slice(0, spurIndex + 1);
+        const rootSteps = previous.steps.slice(0, spurIndex);
+        const rootIds = rootNodes.map(node => node.id);
+
+        // Force a detour: leave the spur node by an edge no accepted path with this root took.
+        const blockedEdges = new Set<string>();
+        for (const path of accepted) {
+          if (path.steps.length > spurIndex && sameRoot(path, rootIds)) {
+            blockedEdges.add(path.steps[spurIndex].edge.id);
+          }
+        }
+        const blockedNodes = new Set(rootIds.slice(0, -1));
+
+        const spur = this.dijkstra(spurNode.id, toNodeId, options, { blockedNodes, blockedEdges });
+        if (!spur) continue;
+
+        const candidate: GraphPath = {
+          nodes: [...rootNodes.slice(0, -1), ...spur.nodes],
+          steps: [...rootSteps, ...spur.steps],
+          cost: rootSteps.reduce((total, step) => total + this.edgeCost(step.edge, options), 0) + spur.cost,
+        };
+        const key = pathKey(candidate);
+        if (!seen.has(key)) {
+          seen.add(key);
+          candidates.push(candidate);
+        }
+      }
+
+      if (candidates.length === 0) {
+        break;
+      }
+      candidates.sort((a, b) => a.cost - b.cost || a.steps.length - b.steps.length);
+      accepted.push(candidates.shift()!);
+    }
+
+    return accepted;
+  }
+
+  /** Every node joined to `nodeId` by edges in either direction, at any distance. */
+  findConnectedComponent(nodeId: string, options: Pick<TraversalOptions, 'edgeTypes'> = {}): GraphNode[] {
+    if (!this.graph.hasNode(nodeId)) {
+      return [];
+    }
+    return this.collectComponent(nodeId, { ...options, direction: 'both' }, new Set());
+  }
+
+  /** Weakly connected components, largest first. */
+  connectedComponents(options: Pick<TraversalOptions, 'edgeTypes'> = {}): GraphNode[][] {
     const visited = new Set<string>();
-    
-    while (queue.length > 0) {
-      const { nodeId, path } = queue.shift()!;
-      
+    const components: GraphNode[][] = [];
+    for (const node of this.graph.getAllNodes()) {
+      if (!visited.has(node.id)) {
+        components.push(this.collectComponent(node.id, { ...options, direction: 'both' }, visited));
+      }
+    }
+    return components.sort((a, b) => b.length - a.length);
+  }
+
+  private collectComponent(startId: string, options: TraversalOptions, visited: Set<string>): GraphNode[] {
+    const component: GraphNode[] = [];
+    const stack = [startId];
+    visited.add(startId);
+
+    while (stack.length > 0) {
+      const nodeId = stack.pop()!;
+      const node = this.graph.getNode(nodeId);
+      if (!node) continue;
+      component.push(node);
+
+      for (const neighbor of this.neighbors(nodeId, options)) {
+        if (!visited.has(neighbor.nodeId)) {
+          visited.add(neighbor.nodeId);
+          stack.push(neighbor.nodeId);
+        }
+      }
+    }
+
+    return component;
+  }
+
+  private dijkstra(
+    fromNodeId: string,
+    toNodeId: string,
+    options: TraversalOptions,
+    limits: SearchLimits
+  ): GraphPath | null {
+    if (!this.graph.hasNode(fromNodeId) || !this.graph.hasNode(toNodeId)) {
+      return null;
+    }
+
+    const costs = new Map<string, number>([[fromNodeId, 0]]);
+    const arrivedBy = new Map<string, Neighbor & { from: string }>();
+    const settled = new Set<string>();
+    const frontier = new MinHeap();
+    frontier.push(fromNodeId, 0);
+
+    while (frontier.size > 0) {
+      const { id: nodeId, cost } = frontier.pop()!;
+      if (settled.has(nodeId)) continue;
+      settled.add(nodeId);
+
       if (nodeId === toNodeId) {
-        return path.map(id => this.graph.getNode(id)!).filter(Boolean);
+        return this.assemblePath(fromNodeId, toNodeId, arrivedBy, cost);
       }
-      
-      if (visited.has(nodeId)) continue;
-      visited.add(nodeId);
-      
-      const edges = this.graph.getOutgoingEdges(nodeId);
-      for (const edge of edges) {
-        if (!visited.has(edge.to)) {
-          queue.push({
-            nodeId: edge.to,
-            path: [...path, edge.to]
-          });
+
+      for (const neighbor of this.neighbors(nodeId, options)) {
+        if (
+          settled.has(neighbor.nodeId) ||
+          limits.blockedNodes?.has(neighbor.nodeId) ||
+          limits.blockedEdges?.has(neighbor.step.edge.id)
+        ) {
+          continue;
+        }
+        const edgeCost = this.edgeCost(neighbor.step.edge, options);
+        if (!Number.isFinite(edgeCost)) continue;
+
+        const next = cost + edgeCost;
+        if (next < (costs.get(neighbor.nodeId) ?? Infinity)) {
+          costs.set(neighbor.nodeId, next);
+          arrivedBy.set(neighbor.nodeId, { ...neighbor, from: nodeId });
+          frontier.push(neighbor.nodeId, next);
         }
       }
     }
-    
+
     return null;
   }
 
-  findConnectedComponent(nodeId: string): GraphNode[] {
-    return this.bfs(nodeId, 999);
+  private assemblePath(
+    fromNodeId: string,
+    toNodeId: string,
+    arrivedBy: Map<string, Neighbor & { from: string }>,
+    cost: number
+  ): GraphPath | null {
+    const nodeIds = [toNodeId];
+    const steps: PathStep[] = [];
+    for (let current = toNodeId; current !== fromNodeId; ) {
+      const arrival = arrivedBy.get(current)!;
+      steps.unshift(arrival.step);
+      nodeIds.unshift(arrival.from);
+      current = arrival.from;
+    }
+
+    const nodes = nodeIds.map(id => this.graph.getNode(id));
+    if (nodes.some(node => !node)) {
+      return null;
+    }
+    return { nodes: nodes as GraphNode[], steps, cost };
+  }
+
+  private neighbors(nodeId: string, options: TraversalOptions): Neighbor[] {
+    const direction = options.direction ?? 'out';
+    const accepts = (edge: GraphEdge) => !options.edgeTypes || options.edgeTypes.includes(edge.type);
+    const neighbors: Neighbor[] = [];
+
+    if (direction !== 'in') {
+      for (const edge of this.graph.getOutgoingEdges(nodeId)) {
+        if (accepts(edge)) neighbors.push({ nodeId: edge.to, step: { edge, forward: true } });
+      }
+    }
+    if (direction !== 'out') {
+      for (const edge of this.graph.getIncomingEdges(nodeId)) {
+        if (accepts(edge)) neighbors.push({ nodeId: edge.from, step: { edge, forward: false } });
+      }
+    }
+    return neighbors;
+  }
+
+  private edgeCost(edge: GraphEdge, options: TraversalOptions): number {
+    const base = options.edgeCosts?.[edge.type] ?? 1;
+    if (base < 0) {
+      throw new Error(`Edge cost for "${edge.type}" must not be negative`);
+    }
+    const confidence = typeof edge.metadata?.confidence === 'number' ? edge.metadata.confidence : 1;
+    return base / Math.max(confidence, MIN_CONFIDENCE);
+  }
+}
+
+function pathKey(path: GraphPath): string {
+  return path.steps.map(step => `${step.edge.id}${step.forward ? '>' : '<'}`).join(' ');
+}
+
+function sameRoot(path: GraphPath, rootIds: string[]): boolean {
+  return rootIds.every((id, index) => path.nodes[index]?.id === id);
+}
+
+/** Binary heap keyed by cost; stale entries are skipped by the caller once a node is settled. */
+class MinHeap {
+  private readonly items: Array<{ id: string; cost: number }> = [];
+
+  get size(): number {
+    return this.items.length;
+  }
+
+  push(id: string, cost: number): void {
+    const items = this.items;
+    items.push({ id, cost });
+    let index = items.length - 1;
+    while (index > 0) {
+      const parent = (index - 1) >> 1;
+      if (items[parent].cost <= items[index].cost) break;
+      [items[parent], items[index]] = [items[index], items[parent]];
+      index = parent;
+    }
+  }
+
+  pop(): { id: string; cost: number } | undefined {
+    const items = this.items;
+    const top = items[0];
+    const last = items.pop();
+    if (items.length > 0 && last) {
+      items[0] = last;
+      let index = 0;
+      for (;;) {
+        const left = index * 2 + 1;
+        const right = left + 1;
+        let smallest = index;
+        if (left < items.length && items[left].cost < items[smallest].cost) smallest = left;
+        if (right < items.length && items[right].cost < items[smallest].cost) smallest = right;
+        if (smallest === index) break;
+        [items[smallest], items[index]] = [items[index], items[smallest]];
+        index = smallest;
+      }
+    }
+    return top;
   }
 }
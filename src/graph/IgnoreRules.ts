@@ -0,0 +1,137 @@
+interface IgnoreRule {
+  regex: RegExp;
+  negated: boolean;
+  directoryOnly: boolean;
+}
+
+/**
+ * A list of gitignore-style patterns that apply below `base` (a root-relative,
+ * `/`-separated directory; empty for the root). Later patterns override earlier ones.
+ */
+export class IgnoreRules {
+  private constructor(
+    readonly source: string,
+    private readonly base: string,
+    private readonly rules: IgnoreRule[]
+  ) {}
+
+  static parse(content: string, source: string, base = ''): IgnoreRules {
+    return IgnoreRules.fromPatterns(content.split(/\r?\n/), source, base);
+  }
+
+  static fromPatterns(patterns: string[], source: string, base = ''): IgnoreRules {
+    const rules = patterns
+      .map(compilePattern)
+      .filter((rule): rule is IgnoreRule => rule !== null);
+    return new IgnoreRules(source, base, rules);
+  }
+
+  get isEmpty(): boolean {
+    return this.rules.length === 0;
+  }
+
+  /**
+   * `true` if the last matching pattern ignores the path, `false` if it re-includes
+   * it with `!`, and `undefined` when no pattern matches.
+   */
+  match(relativePath: string, isDirectory: boolean): boolean | undefined {
+    let local = relativePath;
+    if (this.base) {
+      if (!relativePath.startsWith(`${this.base}/`)) {
+        return undefined;
+      }
+      local = relativePath.slice(this.base.length + 1);
+    }
+
+    let decision: boolean | undefined;
+    for (const rule of this.rules) {
+      if (rule.directoryOnly && !isDirectory) continue;
+      if (rule.regex.test(local)) {
+        decision = !rule.negated;
+      }
+    }
+    return decision;
+  }
+}
+
+function compilePattern(line: string): IgnoreRule | null {
+  let pattern = line.replace(/(?<!\\)\s+$/, '');
+  if (!pattern || pattern.startsWith('#')) {
+    return null;
+  }
+
+  const negated = pattern.startsWith('!');
+  if (negated) {
+    pattern = pattern.slice(1);
+  }
+  if (pattern.startsWith('\\#') || pattern.startsWith('\\!')) {
+    pattern = pattern.slice(1);
+  }
+
+  const directoryOnly = pattern.endsWith('/');
+  if (directoryOnly) {
+    pattern = pattern.slice(0, -1);
+  }
+  // A slash anywhere but the end anchors the pattern to the ignore file's directory.
+  const anchored = pattern.includes('/');
+  if (pattern.startsWith('/')) {
+    pattern = pattern.slice(1);
+  }
+  if (!pattern) {
+    return null;
+  }
+
+  const body = translateGlob(pattern);
+  const regex = new RegExp(anchored ? `^${body}$` : `^(?:.*/)?${body}$`);
+  return { regex, negated, directoryOnly };
+}
+
+function translateGlob(pattern: string): string {
+  let output = '';
+  let i = 0;
+  while (i < pattern.length) {
+    const char = pattern[i];
+
+    if (char === '*' && pattern[i + 1] === '*') {
+      const atStart = i === 0 || pattern[i - 1] === '/';
+      const atEnd = i + 2 === pattern.length || pattern[i + 2] === '/';
+      if (atStart && atEnd) {
+        if (i + 2 === pattern.length) {
+          output += '.*';
+          i += 2;
+        } else {
+          // `**/` matches zero or more directories.
+          output += '(?:.*/)?';
+          i += 3;
+        }
+        continue;
+      }
+    }
+
+    if (char === '*') {
+      output += '[^/]*';
+    } else if (char === '?') {
+      output += '[^/]';
+    } else if (char === '[') {
+      const close = pattern.indexOf(']', i + 2);
+      if (close === -1) {
+        output += '\\[';
+      } else {
+        const members = pattern.slice(i + 1, close).replace(/^!/, '^').replace(/\\/g, '\\\\');
+        output += `[${members}]`;
+        i = close;
+      }
+    } else if (char === '\\' && i + 1 < pattern.length) {
+      output += escapeRegex(pattern[i + 1]);
+      i += 1;
+    } else {
+      output += escapeRegex(char);
+    }
+    i += 1;
+  }
+  return output;
+}
+
+function escapeRegex(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+}
@@ -0,0 +1,235 @@
+import type { GraphEdge, GraphNode, GraphView } from './CodeGraph.js';
+import { GraphWalker, type TraversalOptions } from './GraphWalker.js';
+import { DEPENDENCY_EDGE_TYPES } from './GraphAnalytics.js';
+import type { ChangedFile, GitIntegration } from '../files/GitIntegration.js';
+import { UserFacingError } from '../utils/errors.js';
+
+export interface ImpactedNode {
+  node: GraphNode;
+  /** Hops from the nearest changed node. */
+  distance: number;
+  /** The edge from this node towards a changed node that put it in the blast radius. */
+  via?: GraphEdge;
+}
+
+export interface ImpactedFile {
+  path: string;
+  nodes: ImpactedNode[];
+}
+
+export interface ImpactReport {
+  changedFiles: ChangedFile[];
+  /** Innermost symbols overlapping the changed lines, or whole files without line ranges. */
+  changed: GraphNode[];
+  /** Everything depending on the changed nodes, nearest first; tests are listed separately. */
+  dependents: ImpactedNode[];
+  byFile: ImpactedFile[];
+  /** Tests linked to a changed or dependent symbol, or reached through the walk. */
+  tests: GraphNode[];
+  /** Changed paths with no nodes in the graph (new files not indexed yet, non-code files). */
+  unindexed: string[];
+}
+
+export interface ImpactOptions {
+  /** Hops to follow from the changed nodes; unlimited by default. */
+  maxDepth?: number;
+}
+
+/**
+ * Blast radius of a change: maps changed files and lines onto graph nodes and
+ * walks dependency edges (`calls`, `imports`, `extends`, `implements`, and the
+ * `references` that import bindings and type uses create) backwards to every
+ * node that depends on them, plus the tests linked to any of those.
+ */
+export class ImpactAnalyzer {
+  private readonly walker: GraphWalker;
+
+  constructor(
+    private readonly graph: GraphView,
+    private readonly git?: GitIntegration
+  ) {
+    this.walker = new GraphWalker(graph);
+  }
+
+  /** Impact of everything changed since `since` (default `HEAD`), uncommitted edits included. */
+  async analyzeSince(since?: string, options: ImpactOptions = {}): Promise<ImpactReport> {
+    if (!this.git || !(await this.git.isRepository())) {
+      throw new UserFacingError('Impact analysis of a git range needs a git repository.');
+    }
+    let changes: ChangedFile[];
+    try {
+      changes = await this.git.changedFiles(since);
+    } catch (error) {
+      throw new UserFacingError(
+        `Could not diff against ${since ?? 'HEAD'}: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+    return this.analyze(changes, options);
+  }
+
+  analyze(changes: ChangedFile[], options: ImpactOptions = {}): ImpactReport {
+    const changed = new Map<string, GraphNode>();
+    const unindexed: string[] = [];
+    for (const change of changes) {
+      const nodes = this.graph.getNodesByPath(change.path).filter(node => node.type !== 'import');
+      if (nodes.length === 0) {
+        unindexed.push(change.path);
+        continue;
+      }
+      for (const node of this.changedNodes(nodes, change)) {
+        changed.set(node.id, node);
+      }
+    }
+
+    const reached = this.walkDependents(Array.from(changed.keys()), options.maxDepth ?? Infinity);
+    const dependents: ImpactedNode[] = [];
+    const tests = new Map<string, GraphNode>();
+    for (const impacted of reached) {
+      if (isTest(impacted.node)) {
+        tests.set(impacted.node.id, impacted.node);
+      } else {
+        dependents.push(impacted);
+      }
+    }
+    for (const node of [...changed.values(), ...dependents.map(impacted => impacted.node)]) {
+      for (const test of this.linkedTests(node)) {
+        tests.set(test.id, test);
+      }
+    }
+
+    dependents.sort(
+      (a, b) =>
+        a.distance - b.distance ||
+        a.node.path.localeCompare(b.node.path) ||
+        Number(b.node.type === 'file') - Number(a.node.type === 'file') ||
+        a.node.startLine - b.node.startLine
+    );
+    return {
+      changedFiles: changes,
+      changed: Array.from(changed.values()),
+      dependents,
+      byFile: groupByFile(dependents),
+      tests: Array.from(tests.values()).sort((a, b) => a.path.localeCompare(b.path) || a.startLine - b.startLine),
+      unindexed,
+    };
+  }
+
+  /**
+   * The innermost symbols overlapping each changed range, so editing one method
+   * does not implicate every subclass of its class. Changes outside any symbol
+   * (imports, top-level code) and whole-file changes stand for the file itself.
+   */
+  private changedNodes(nodes: GraphNode[], change: ChangedFile): GraphNode[] {
+    if (change.ranges.length === 0) {
+      return nodes;
+    }
+
+    const file = nodes.find(node => node.type === 'file');
+    const symbols = nodes.filter(node => node.type !== 'file');
+    const result = new Set<GraphNode>();
+    for (const range of change.ranges) {
+      const overlapping = symbols.filter(node => node.startLine <= range.end && node.endLine >= range.start);
+      const innermost = overlapping.filter(
+        node =>
+          !overlapping.some(
+            other => other !== node && other.startLine >= node.startLine && other.endLine <= node.endLine
+          )
+      );
+      if (innermost.length > 0) {
+        innermost.forEach(node => result.add(node));
+      } else if (file) {
+        result.add(file);
+      }
+    }
+    return Array.from(result);
+  }
+
+  // Breadth-first from all changed nodes at once, so each dependent gets its distance to the nearest.
+  private walkDependents(seeds: string[], maxDepth: number): ImpactedNode[] {
+    const options: TraversalOptions = { direction: 'in', edgeTypes: DEPENDENCY_EDGE_TYPES };
+    const distances = new Map(seeds.map(id => [id, 0]));
+    const reached: ImpactedNode[] = [];
+    let frontier = seeds;
+
+    for (let hop = 1; hop <= maxDepth && frontier.length > 0; hop++) {
+      const next: string[] = [];
+      for (const id of frontier) {
+        for (const node of this.walker.bfs(id, 1, options)) {
+          if (distances.has(node.id)) continue;
+          distances.set(node.id, hop);
+          next.push(node.id);
+          const via = this.graph
+            .getOutgoingEdges(node.id)
+            .find(edge => edge.to === id && DEPENDENCY_EDGE_TYPES.includes(edge.type));
+          reached.push({ node, distance: hop, via });
+        }
+      }
+      frontier = next;
+    }
+    return reached;
+  }
+
+  private linkedTests(node: GraphNode): GraphNode[] {
+    return this.graph
+      .getIncomingEdges(node.id)
+      .filter(edge => edge.type === 'tests')
+      .map(edge => this.graph.getNode(edge.from))
+      .filter((test): test is GraphNode => Boolean(test));
+  }
+}
+
+/** One line per affected file, nearest files first, for the CLI and the prompt alike. */
+export function formatImpactReport(report: ImpactReport, fileLimit = Infinity): string {
+  const lines = [
+    `Changed: ${report.changed.map(describeChanged).join(', ') || 'nothing in the graph'}`,
+  ];
+  if (report.unindexed.length > 0) {
+    lines.push(`Not in the graph: ${report.unindexed.join(', ')}`);
+  }
+
+  const names = new Map(
+    [...report.changed, ...report.dependents.map(impacted => impacted.node)].map(node => [
+      node.id,
+      node.type === 'file' ? node.path : node.name,
+    ])
+  );
+  lines.push('', `Dependents (${report.dependents.length} in ${report.byFile.length} files):`);
+  for (const file of report.byFile.slice(0, fileLimit)) {
+    const entries = file.nodes.map(({ node, distance, via }) => {
+      const name = node.type === 'file' ? '(file)' : node.name;
+      const target = via && names.has(via.to) ? `, ${via.type} ${names.get(via.to)}` : '';
+      return `${name} [${distance}${target}]`;
+    });
+    lines.push(`  ${file.path}: ${entries.join(', ')}`);
+  }
+  if (report.byFile.length > fileLimit) {
+    lines.push(`  ... and ${report.byFile.length - fileLimit} more files`);
+  }
+  if (report.dependents.length === 0) {
+    lines.push('  None');
+  }
+
+  lines.push('', `Tests (${report.tests.length}):`);
+  lines.push(...report.tests.map(test => `  ${test.path}: ${test.name}`));
+  if (report.tests.length === 0) {
+    lines.push('  None');
+  }
+  return lines.join('\n');
+}
+
+function describeChanged(node: GraphNode): string {
+  return node.type === 'file' ? node.path : `${node.name} (${node.path})`;
+}
+
+function isTest(node: GraphNode): boolean {
+  return node.type === 'test' || (node.type === 'file' && node.metadata?.test === true);
+}
+
+function groupByFile(dependents: ImpactedNode[]): ImpactedFile[] {
+  const files = new Map<string, ImpactedNode[]>();
+  for (const impacted of dependents) {
+    (files.get(impacted.node.path) ?? files.set(impacted.node.path, []).get(impacted.node.path)!).push(impacted);
+  }
+  // Dependents arrive sorted by distance, so the map keeps the nearest files first.
+  return Array.from(files, ([path, nodes]) => ({ path, nodes }));
+}
@@ -0,0 +1,201 @@
+import { CodeGraph, type GraphEdge, type GraphNode, type GraphView } from './CodeGraph.js';
+import type { DiffOperation } from './DiffOverlay.js';
+
+/**
+ * Read-through view of overlay operations layered over a base graph. Only the
+ * nodes and edges the overlay touches are held here; everything else is read
+ * from the base, which is never copied or mutated.
+ */
+export class LayeredGraph implements GraphView {
+  private readonly addedNodes = new Map<string, GraphNode>();
+  private readonly addedNodesByPath = new Map<string, Set<string>>();
+  /** Base nodes removed at some point; their base edges stay hidden even if re-added. */
+  private readonly removedNodeIds = new Set<string>();
+  private readonly addedEdges = new Map<string, GraphEdge>();
+  private readonly addedEdgesByNode = new Map<string, Set<string>>();
+  private readonly addedIncomingEdgesByNode = new Map<string, Set<string>>();
+
+  constructor(
+    private readonly base: CodeGraph,
+    operations: Iterable<Omit<DiffOperation, 'timestamp'>> = []
+  ) {
+    for (const operation of operations) {
+      this.applyOperation(operation);
+    }
+  }
+
+  getNode(id: string): GraphNode | undefined {
+    const added = this.addedNodes.get(id);
+    if (added) {
+      return added;
+    }
+    return this.removedNodeIds.has(id) ? undefined : this.base.getNode(id);
+  }
+
+  hasNode(id: string): boolean {
+    return this.getNode(id) !== undefined;
+  }
+
+  getNodesByPath(path: string): GraphNode[] {
+    const result = this.base
+      .getNodesByPath(path)
+      .filter(node => !this.removedNodeIds.has(node.id) && !this.addedNodes.has(node.id));
+    for (const id of this.addedNodesByPath.get(path) ?? []) {
+      result.push(this.addedNodes.get(id)!);
+    }
+    return result;
+  }
+
+  getAllNodes(): GraphNode[] {
+    const result = this.base
+      .getAllNodes()
+      .filter(node => !this.removedNodeIds.has(node.id) && !this.addedNodes.has(node.id));
+    result.push(...this.addedNodes.values());
+    return result;
+  }
+
+  getAllEdges(): GraphEdge[] {
+    const result = this.base.getAllEdges().filter(edge => this.isBaseEdgeVisible(edge));
+    result.push(...this.addedEdges.values());
+    return result;
+  }
+
+  getOutgoingEdges(nodeId: string): GraphEdge[] {
+    const result = this.removedNodeIds.has(nodeId)
+      ? []
+      : this.base.getOutgoingEdges(nodeId).filter(edge => this.isBaseEdgeVisible(edge));
+    for (const id of this.addedEdgesByNode.get(nodeId) ?? []) {
+      result.push(this.addedEdges.get(id)!);
+    }
+    return result;
+  }
+
+  getIncomingEdges(nodeId: string): GraphEdge[] {
+    const result = this.removedNodeIds.has(nodeId)
+      ? []
+      : this.base.getIncomingEdges(nodeId).filter(edge => this.isBaseEdgeVisible(edge));
+    for (const id of this.addedIncomingEdgesByNode.get(nodeId) ?? []) {
+      result.push(this.addedEdges.get(id)!);
+    }
+    return result;
+  }
+
+  getNeighbors(nodeId: string, edgeType?: string): GraphNode[] {
+    const edges = this.getOutgoingEdges(nodeId);
+    const filtered = edgeType ? edges.filter(e => e.type === edgeType) : edges;
+    return filtered
+      .map(edge => this.getNode(edge.to))
+      .filter((node): node is GraphNode => Boolean(node));
+  }
+
+  getPredecessors(nodeId: string, edgeType?: string): GraphNode[] {
+    const edges = this.getIncomingEdges(nodeId);
+    const filtered = edgeType ? edges.filter(e => e.type === edgeType) : edges;
+    return filtered
+      .map(edge => this.getNode(edge.from))
+      .filter((node): node is GraphNode => Boolean(node));
+  }
+
+  clone(): CodeGraph {
+    const graph = new CodeGraph();
+    for (const node of this.getAllNodes()) {
+      graph.upsertNode(node);
+    }
+    for (const edge of this.getAllEdges()) {
+      graph.upsertEdge(edge);
+    }
+    return graph;
+  }
+
+  toJSON(): string {
+    return JSON.stringify({
+      nodes: this.getAllNodes(),
+      edges: this.getAllEdges(),
+    });
+  }
+
+  /** Mirrors how `CodeGraph` would apply the operation to a copy of the base. */
+  private applyOperation(operation: Omit<DiffOperation, 'timestamp'>): void {
+    switch (operation.type) {
+      case 'add':
+      case 'modify':
+        if (operation.node) {
+          this.upsertNode(operation.node);
+        } else if (operation.type === 'add' && operation.edge) {
+          this.upsertEdge(operation.edge);
+        }
+        break;
+
+      case 'remove':
+        if (operation.nodeId) {
+          this.removeNode(operation.nodeId);
+        }
+        break;
+    }
+  }
+
+  private upsertNode(node: GraphNode): void {
+    const existing = this.addedNodes.get(node.id);
+    if (existing) {
+      this.addedNodesByPath.get(existing.path)?.delete(node.id);
+    }
+    this.addedNodes.set(node.id, node);
+    if (!this.addedNodesByPath.has(node.path)) {
+      this.addedNodesByPath.set(node.path, new Set());
+    }
+    this.addedNodesByPath.get(node.path)!.add(node.id);
+  }
+
+  private upsertEdge(edge: GraphEdge): void {
+    if (!this.hasNode(edge.from) || !this.hasNode(edge.to)) {
+      throw new Error(`Cannot add edge: missing nodes ${edge.from} -> ${edge.to}`);
+    }
+
+    const existing = this.addedEdges.get(edge.id);
+    if (existing) {
+      this.addedEdgesByNode.get(existing.from)?.delete(edge.id);
+      this.addedIncomingEdgesByNode.get(existing.to)?.delete(edge.id);
+    }
+    this.addedEdges.set(edge.id, edge);
+    if (!this.addedEdgesByNode.has(edge.from)) {
+      this.addedEdgesByNode.set(edge.from, new Set());
+    }
+    this.addedEdgesByNode.get(edge.from)!.add(edge.id);
+    if (!this.addedIncomingEdgesByNode.has(edge.to)) {
+      this.addedIncomingEdgesByNode.set(edge.to, new Set());
+    }
+    this.addedIncomingEdgesByNode.get(edge.to)!.add(edge.id);
+  }
+
+  private removeNode(nodeId: string): void {
+    const added = this.addedNodes.get(nodeId);
+    if (added) {
+      this.addedNodes.delete(nodeId);
+      this.addedNodesByPath.get(added.path)?.delete(nodeId);
+    }
+    if (this.base.hasNode(nodeId)) {
+      this.removedNodeIds.add(nodeId);
+    }
+
+    const connected = [
+      ...(this.addedEdgesByNode.get(nodeId) ?? []),
+      ...(this.addedIncomingEdgesByNode.get(nodeId) ?? []),
+    ];
+    for (const edgeId of connected) {
+      const edge = this.addedEdges.get(edgeId);
+      if (edge) {
+        this.addedEdges.delete(edgeId);
+        this.addedEdgesByNode.get(edge.from)?.delete(edgeId);
+        this.addedIncomingEdgesByNode.get(edge.to)?.delete(edgeId);
+      }
+    }
+  }
+
+  private isBaseEdgeVisible(edge: GraphEdge): boolean {
+    return (
+      !this.addedEdges.has(edge.id) &&
+      !this.removedNodeIds.has(edge.from) &&
+      !this.removedNodeIds.has(edge.to)
+    );
+  }
+}
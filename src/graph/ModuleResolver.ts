@@ -0,0 +1,457 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { builtinModules } from 'module';
+import type { SupportedLanguage } from '../parser/LanguageRegistry.js';
+import { logger } from '../utils/logger.js';
+import { detectWorkspaces, type WorkspacePackage } from './Workspaces.js';
+
+export type ModuleResolution =
+  | { kind: 'file'; path: string }
+  | { kind: 'external'; packageName: string; ecosystem: 'node' | 'npm' | 'python' }
+  | { kind: 'unresolved' };
+
+interface TsconfigPaths {
+  baseUrl?: string;
+  paths?: Record<string, string[]>;
+  /** Directory `paths` targets are relative to: baseUrl, else the declaring tsconfig. */
+  pathsBase?: string;
+}
+
+interface PackageManifest {
+  name?: string;
+  exports?: unknown;
+  source?: string;
+  module?: string;
+  main?: string;
+}
+
+const SCRIPT_LANGUAGES = new Set(['typescript', 'tsx', 'javascript', 'jsx']);
+
+const SCRIPT_EXTENSIONS = ['.ts', '.tsx', '.js', '.jsx', '.mjs', '.cjs', '.mts', '.cts'];
+
+// ESM sources import `./x.js` while the file on disk is `./x.ts`.
+const EMITTED_TO_SOURCE: Record<string, string[]> = {
+  '.js': ['.ts', '.tsx'],
+  '.jsx': ['.tsx'],
+  '.mjs': ['.mts'],
+  '.cjs': ['.cts'],
+};
+
+// `source` first so workspace packages resolve to code rather than build output.
+const EXPORT_CONDITIONS = ['source', 'import', 'module', 'node', 'default', 'require', 'types'];
+
+const BUILD_OUTPUT_DIRECTORIES = ['dist', 'build', 'lib', 'out'];
+
+const PYTHON_SOURCE_ROOTS = ['', 'src', 'lib'];
+
+const resolverLogger = logger.child('resolver');
+
+/**
+ * Turns import specifiers into project files, following tsconfig `paths`/`baseUrl`,
+ * ESM `.js` specifiers for `.ts` sources, index files, `package.json` exports of
+ * workspace packages and packages linked into the project, and Python relative
+ * and package imports.
+ * Anything else is reported as an external package.
+ */
+export class ModuleResolver {
+  private readonly rootDir: string;
+  private readonly tsconfigCache = new Map<string, Promise<TsconfigPaths | null>>();
+  private readonly manifestCache = new Map<string, Promise<PackageManifest | null>>();
+  private workspaceCache: Promise<WorkspacePackage[]> | null = null;
+
+  constructor(rootDir: string) {
+    this.rootDir = path.resolve(rootDir);
+  }
+
+  /** Forget cached tsconfig and package.json contents, e.g. before a rebuild. */
+  reset(): void {
+    this.tsconfigCache.clear();
+    this.manifestCache.clear();
+    this.workspaceCache = null;
+  }
+
+  /** Workspace packages declared by the root package.json or pnpm-workspace.yaml. */
+  workspaces(): Promise<WorkspacePackage[]> {
+    this.workspaceCache ??= detectWorkspaces(this.rootDir).catch(error => {
+      resolverLogger.warn('Failed to read workspaces', error);
+      return [];
+    });
+    return this.workspaceCache;
+  }
+
+  async resolve(
+    specifier: string,
+    fromFile: string,
+    language: SupportedLanguage
+  ): Promise<ModuleResolution> {
+    if (SCRIPT_LANGUAGES.has(language)) {
+      return this.resolveScript(specifier, fromFile);
+    }
+    if (language === 'python') {
+      return this.resolvePython(specifier, fromFile);
+    }
+    if (specifier.startsWith('.')) {
+      return this.toResolution(await this.findFile(path.join(path.dirname(fromFile), specifier), []));
+    }
+    return { kind: 'unresolved' };
+  }
+
+  private async resolveScript(specifier: string, fromFile: string): Promise<ModuleResolution> {
+    if (specifier.startsWith('.')) {
+      return this.toResolution(await this.findScript(path.join(path.dirname(fromFile), specifier)));
+    }
+
+    const tsconfig = await this.findTsconfig(path.dirname(fromFile));
+    if (tsconfig) {
+      const mapped = await this.resolveTsconfigPaths(specifier, tsconfig);
+      if (mapped) {
+        return { kind: 'file', path: mapped };
+      }
+    }
+
+    if (specifier.startsWith('node:') || builtinModules.includes(specifier.split('/')[0])) {
+      const name = specifier.replace(/^node:/, '').split('/')[0];
+      return { kind: 'external', packageName: `node:${name}`, ecosystem: 'node' };
+    }
+
+    const { packageName, subpath } = this.splitPackageSpecifier(specifier);
+    // Declared workspaces resolve even before `npm install` has linked them.
+    const workspace = (await this.workspaces()).find(candidate => candidate.name === packageName);
+    const linked = workspace?.directory ?? (await this.findLinkedPackage(packageName, fromFile));
+    if (linked) {
+      const entry = await this.resolvePackageEntry(linked, subpath);
+      if (entry) {
+        return { kind: 'file', path: entry };
+      }
+    }
+
+    return { kind: 'external', packageName, ecosystem: 'npm' };
+  }
+
+  private async resolveTsconfigPaths(specifier: string, tsconfig: TsconfigPaths): Promise<string | null> {
+    for (const [pattern, targets] of Object.entries(tsconfig.paths ?? {})) {
+      const wildcard = this.matchPattern(pattern, specifier);
+      if (wildcard === null) continue;
+
+      for (const target of targets) {
+        const candidate = path.join(tsconfig.pathsBase ?? '', target.replace('*', wildcard));
+        const found = await this.findScript(candidate);
+        if (found) {
+          return found;
+        }
+      }
+    }
+
+    if (tsconfig.baseUrl !== undefined) {
+      return this.findScript(path.join(tsconfig.baseUrl, specifier));
+    }
+    return null;
+  }
+
+  /** Returns the text matched by `*` (empty for exact patterns), or null if no match. */
+  private matchPattern(pattern: string, value: string): string | null {
+    const star = pattern.indexOf('*');
+    if (star === -1) {
+      return pattern === value ? '' : null;
+    }
+    const prefix = pattern.slice(0, star);
+    const suffix = pattern.slice(star + 1);
+    if (value.length < prefix.length + suffix.length || !value.startsWith(prefix) || !value.endsWith(suffix)) {
+      return null;
+    }
+    return value.slice(prefix.length, value.length - suffix.length);
+  }
+
+  private splitPackageSpecifier(specifier: string): { packageName: string; subpath: string } {
+    const parts = specifier.split('/');
+    const nameLength = specifier.startsWith('@') ? 2 : 1;
+    const packageName = parts.slice(0, nameLength).join('/');
+    const rest = parts.slice(nameLength).join('/');
+    return { packageName, subpath: rest ? `./${rest}` : '.' };
+  }
+
+  /**
+   * Finds `node_modules/<name>` above the importing file and returns it (relative to
+   * the root) only when it links back to sources inside the project, as workspaces do.
+   */
+  private async findLinkedPackage(packageName: string, fromFile: string): Promise<string | null> {
+    let dir = path.dirname(fromFile);
+    while (true) {
+      const candidate = path.join(this.rootDir, dir, 'node_modules', packageName);
+      try {
+        const real = await fs.realpath(candidate);
+        const relative = path.relative(this.rootDir, real);
+        if (relative.startsWith('..') || path.isAbsolute(relative) || relative.split(path.sep).includes('node_modules')) {
+          return null;
+        }
+        return relative;
+      } catch {
+        // not installed at this level
+      }
+
+      if (dir === '.' || dir === '') {
+        return null;
+      }
+      dir = path.dirname(dir);
+    }
+  }
+
+  private async resolvePackageEntry(packageDir: string, subpath: string): Promise<string | null> {
+    const manifest = await this.readManifest(packageDir);
+
+    if (manifest?.exports !== undefined) {
+      const target = this.resolveExports(manifest.exports, subpath);
+      return target ? this.findPackageFile(packageDir, target) : null;
+    }
+
+    if (subpath !== '.') {
+      return this.findScript(path.join(packageDir, subpath));
+    }
+    for (const field of [manifest?.source, manifest?.module, manifest?.main]) {
+      if (field) {
+        const found = await this.findPackageFile(packageDir, field);
+        if (found) {
+          return found;
+        }
+      }
+    }
+    return this.findScript(path.join(packageDir, 'index'));
+  }
+
+  /** Resolves a manifest target, falling back from unbuilt output (`dist/x.js`) to `src/x.ts`. */
+  private async findPackageFile(packageDir: string, target: string): Promise<string | null> {
+    const direct = await this.findScript(path.join(packageDir, target));
+    if (direct) {
+      return direct;
+    }
+
+    const segments = path.normalize(target).split(path.sep).filter(segment => segment !== '.');
+    if (segments.length > 1 && BUILD_OUTPUT_DIRECTORIES.includes(segments[0])) {
+      const sourcePath = path.join(packageDir, 'src', ...segments.slice(1)).replace(/\.d\.ts$/, '.ts');
+      return this.findScript(sourcePath);
+    }
+    return null;
+  }
+
+  private resolveExports(exports: unknown, subpath: string): string | null {
+    const map =
+      typeof exports === 'string' || Array.isArray(exports) || !this.isSubpathMap(exports)
+        ? { '.': exports }
+        : (exports as Record<string, unknown>);
+
+    if (subpath in map) {
+      return this.pickExportTarget(map[subpath]);
+    }
+
+    for (const [pattern, value] of Object.entries(map)) {
+      const wildcard = this.matchPattern(pattern, subpath);
+      if (wildcard !== null && pattern.includes('*')) {
+        const target = this.pickExportTarget(value);
+        if (target) {
+          return target.replace('*', wildcard);
+        }
+      }
+    }
+    return null;
+  }
+
+  private isSubpathMap(exports: unknown): boolean {
+    return (
+      typeof exports === 'object' &&
+      exports !== null &&
+      Object.keys(exports).some(key => key.startsWith('.'))
+    );
+  }
+
+  private pickExportTarget(value: unknown): string | null {
+    if (typeof value === 'string') {
+      return value;
+    }
+    if (Array.isArray(value)) {
+      for (const entry of value) {
+        const target = this.pickExportTarget(entry);
+        if (target) {
+          return target;
+        }
+      }
+      return null;
+    }
+    if (typeof value === 'object' && value !== null) {
+      const conditions = value as Record<string, unknown>;
+      for (const condition of EXPORT_CONDITIONS) {
+        if (condition in conditions) {
+          const target = this.pickExportTarget(conditions[condition]);
+          if (target) {
+            return target;
+          }
+        }
+      }
+    }
+    return null;
+  }
+
+  private async resolvePython(specifier: string, fromFile: string): Promise<ModuleResolution> {
+    const dots = specifier.match(/^\.*/)![0].length;
+    const modulePath = specifier.slice(dots).split('.').filter(Boolean);
+
+    if (dots > 0) {
+      let dir = path.dirname(fromFile);
+      for (let level = 1; level < dots; level += 1) {
+        dir = path.dirname(dir);
+      }
+      return this.toResolution(await this.findPythonModule(dir, modulePath));
+    }
+
+    for (const root of PYTHON_SOURCE_ROOTS) {
+      const found = await this.findPythonModule(root, modulePath);
+      if (found) {
+        return { kind: 'file', path: found };
+      }
+    }
+    return { kind: 'external', packageName: modulePath[0] ?? specifier, ecosystem: 'python' };
+  }
+
+  private async findPythonModule(dir: string, modulePath: string[]): Promise<string | null> {
+    const base = path.join(dir, ...modulePath);
+    const candidates = modulePath.length === 0 ? [] : [`${base}.py`];
+    candidates.push(path.join(base, '__init__.py'));
+    return this.firstExisting(candidates);
+  }
+
+  private async findScript(base: string): Promise<string | null> {
+    return this.findFile(base, SCRIPT_EXTENSIONS);
+  }
+
+  private async findFile(base: string, extensions: string[]): Promise<string | null> {
+    const candidates = [base];
+    const emitted = EMITTED_TO_SOURCE[path.extname(base)];
+    if (emitted) {
+      const stem = base.slice(0, -path.extname(base).length);
+      candidates.push(...emitted.map(ext => `${stem}${ext}`));
+    }
+    candidates.push(...extensions.map(ext => `${base}${ext}`));
+    candidates.push(...extensions.map(ext => path.join(base, `index${ext}`)));
+    return this.firstExisting(candidates);
+  }
+
+  private async firstExisting(candidates: string[]): Promise<string | null> {
+    for (const candidate of candidates) {
+      const normalized = path.normalize(candidate);
+      if (normalized.startsWith('..') || path.isAbsolute(normalized)) {
+        continue;
+      }
+      try {
+        const stats = await fs.stat(path.join(this.rootDir, normalized));
+        if (stats.isFile()) {
+          return normalized;
+        }
+      } catch {
+        // ignore
+      }
+    }
+    return null;
+  }
+
+  private toResolution(found: string | null): ModuleResolution {
+    return found ? { kind: 'file', path: found } : { kind: 'unresolved' };
+  }
+
+  /** Nearest tsconfig.json between `dir` and the project root. */
+  private async findTsconfig(dir: string): Promise<TsconfigPaths | null> {
+    let current = path.normalize(dir);
+    while (true) {
+      const config = await this.loadTsconfig(path.join(current, 'tsconfig.json'));
+      if (config) {
+        return config;
+      }
+      if (current === '.' || current === '') {
+        return null;
+      }
+      current = path.dirname(current);
+    }
+  }
+
+  private loadTsconfig(configPath: string, depth = 0): Promise<TsconfigPaths | null> {
+    let pending = this.tsconfigCache.get(configPath);
+    if (!pending) {
+      pending = this.readTsconfig(configPath, depth);
+      this.tsconfigCache.set(configPath, pending);
+    }
+    return pending;
+  }
+
+  private async readTsconfig(configPath: string, depth: number): Promise<TsconfigPaths | null> {
+    let raw: string;
+    try {
+      raw = await fs.readFile(path.join(this.rootDir, configPath), 'utf-8');
+    } catch {
+      return null;
+    }
+
+    let config: { extends?: unknown; compilerOptions?: { baseUrl?: string; paths?: Record<string, string[]> } };
+    try {
+      config = parseJsonc(raw);
+    } catch (error) {
+      resolverLogger.warn(`Ignoring unreadable ${configPath}`, error);
+      return null;
+    }
+
+    const configDir = path.dirname(configPath);
+    // Only relative `extends` are followed; shared presets rarely declare paths.
+    const parent =
+      typeof config.extends === 'string' && config.extends.startsWith('.') && depth < 5
+        ? await this.loadTsconfig(
+            path.join(configDir, config.extends.endsWith('.json') ? config.extends : `${config.extends}.json`),
+            depth + 1
+          )
+        : null;
+
+    const options = config.compilerOptions ?? {};
+    const baseUrl = options.baseUrl !== undefined ? path.join(configDir, options.baseUrl) : parent?.baseUrl;
+    const paths = options.paths ?? parent?.paths;
+    const pathsBase = baseUrl ?? (options.paths ? configDir : parent?.pathsBase);
+    return { baseUrl, paths, pathsBase };
+  }
+
+  private readManifest(packageDir: string): Promise<PackageManifest | null> {
+    let pending = this.manifestCache.get(packageDir);
+    if (!pending) {
+      pending = fs
+        .readFile(path.join(this.rootDir, packageDir, 'package.json'), 'utf-8')
+        .then(raw => JSON.parse(raw) as PackageManifest)
+        .catch(() => null);
+      this.manifestCache.set(packageDir, pending);
+    }
+    return pending;
+  }
+}
+
+/** JSON with the comments and trailing commas tsconfig files allow. */
+function parseJsonc<T>(raw: string): T {
+  let output = '';
+  let inString = false;
+  for (let i = 0; i < raw.length; i += 1) {
+    const char = raw[i];
+    if (inString) {
+      output += char;
+      if (char === '\\') {
+        output += raw[++i] ?? '';
+      } else if (char === '"') {
+        inString = false;
+      }
+    } else if (char === '"') {
+      inString = true;
+      output += char;
+    } else if (char === '/' && raw[i + 1] === '/') {
+      while (i < raw.length && raw[i] !== '\n') i += 1;
+      output += '\n';
+    } else if (char === '/' && raw[i + 1] === '*') {
+      i = raw.indexOf('*/', i + 2);
+      if (i === -1) break;
+      i += 1;
+    } else {
+      output += char;
+    }
+  }
+  return JSON.parse(output.replace(/,(\s*[}\]])/g, '$1')) as T;
+}
@@ -0,0 +1,89 @@
+import crypto from 'crypto';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import type { GraphView } from './CodeGraph.js';
+import type { DiffOverlay } from './DiffOverlay.js';
+import { readJsonFile, removeFile, writeJsonFile } from '../utils/fs.js';
+
+export interface PersistedOverlay {
+  version: 1;
+  id: string;
+  name: string;
+  savedAt: number;
+  baseFingerprint: string;
+  modifiedPaths: string[];
+  overlay: string;
+}
+
+/**
+ * Identify a graph by the digests of its files so an overlay can tell whether
+ * the base it was recorded against is still the one in the store.
+ */
+export function computeGraphFingerprint(graph: GraphView): string {
+  const entries = graph
+    .getAllNodes()
+    .filter(node => node.type === 'file')
+    .map(node => `${node.path}:${String(node.metadata?.digest ?? node.id)}`)
+    .sort();
+  return crypto.createHash('sha1').update(entries.join('\n')).digest('hex');
+}
+
+export class OverlayStore {
+  private readonly directory: string;
+
+  constructor(rootDir: string, directory?: string) {
+    this.directory = directory ?? path.join(rootDir, '.codeflow', 'overlays');
+  }
+
+  async save(
+    name: string,
+    overlay: DiffOverlay,
+    modifiedPaths: Iterable<string>
+  ): Promise<void> {
+    const record: PersistedOverlay = {
+      version: 1,
+      id: overlay.id,
+      name,
+      savedAt: Date.now(),
+      baseFingerprint: overlay.base.fingerprint,
+      modifiedPaths: Array.from(modifiedPaths),
+      overlay: overlay.toJSON(),
+    };
+    await writeJsonFile(this.resolve(overlay.id), record);
+  }
+
+  async read(overlayId: string): Promise<PersistedOverlay | null> {
+    return readJsonFile<PersistedOverlay>(this.resolve(overlayId));
+  }
+
+  /** Overlays left on disk, oldest first. */
+  async list(): Promise<PersistedOverlay[]> {
+    let entries: string[];
+    try {
+      entries = await fs.readdir(this.directory);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    const records: PersistedOverlay[] = [];
+    for (const entry of entries) {
+      if (!entry.endsWith('.json')) continue;
+      const record = await readJsonFile<PersistedOverlay>(path.join(this.directory, entry));
+      if (record) {
+        records.push(record);
+      }
+    }
+    return records.sort((a, b) => a.savedAt - b.savedAt);
+  }
+
+  async remove(overlayId: string): Promise<void> {
+    await removeFile(this.resolve(overlayId));
+  }
+
+  private resolve(overlayId: string): string {
+    return path.join(this.directory, `${overlayId}.json`);
+  }
+}
@@ -0,0 +1,126 @@
+import fs from 'fs';
+import { createRequire } from 'module';
+import { Worker } from 'worker_threads';
+import { fileURLToPath, pathToFileURL } from 'url';
+import type { ExtractionOptions, SymbolGraphData } from '../parser/SymbolExtractor.js';
+import type { SupportedLanguage } from '../parser/LanguageRegistry.js';
+
+export interface ParseRequest {
+  id: number;
+  content: string;
+  language: SupportedLanguage;
+  options?: ExtractionOptions;
+}
+
+export type ParseResponse =
+  | { id: number; data: SymbolGraphData; error?: undefined }
+  | { id: number; error: string; data?: undefined };
+
+interface PendingParse {
+  resolve(data: SymbolGraphData): void;
+  reject(error: Error): void;
+}
+
+interface PoolWorker {
+  worker: Worker;
+  pending: Map<number, PendingParse>;
+}
+
+/**
+ * Parses and extracts symbols on `worker_threads`, handing each request to the
+ * worker with the fewest in flight. Workers only know the built-in language packs.
+ */
+export class ParsePool {
+  private readonly workers: PoolWorker[] = [];
+  private nextId = 0;
+
+  constructor(size: number) {
+    const script = resolveWorkerScript();
+    for (let i = 0; i < size; i++) {
+      this.workers.push(this.spawn(script));
+    }
+  }
+
+  get size(): number {
+    return this.workers.length;
+  }
+
+  parse(
+    content: string,
+    language: SupportedLanguage,
+    options: ExtractionOptions = {}
+  ): Promise<SymbolGraphData> {
+    if (this.workers.length === 0) {
+      return Promise.reject(new Error('Parse pool has no running workers'));
+    }
+    const target = this.workers.reduce((least, candidate) =>
+      candidate.pending.size < least.pending.size ? candidate : least
+    );
+    const id = this.nextId++;
+
+    return new Promise<SymbolGraphData>((resolve, reject) => {
+      target.pending.set(id, { resolve, reject });
+      target.worker.postMessage({ id, content, language, options } satisfies ParseRequest);
+    });
+  }
+
+  async close(): Promise<void> {
+    await Promise.all(this.workers.map(({ worker }) => worker.terminate()));
+    this.workers.length = 0;
+  }
+
+  private spawn(script: WorkerScript): PoolWorker {
+    const entry: PoolWorker = {
+      worker: new Worker(script.source, { eval: script.eval }),
+      pending: new Map(),
+    };
+
+    entry.worker.on('message', (response: ParseResponse) => {
+      const pending = entry.pending.get(response.id);
+      if (!pending) return;
+      entry.pending.delete(response.id);
+      if (response.data) {
+        pending.resolve(response.data);
+      } else {
+        pending.reject(new Error(response.error));
+      }
+    });
+
+    // A crashed worker leaves the pool; its in-flight requests fail.
+    const retire = (error: Error) => {
+      const index = this.workers.indexOf(entry);
+      if (index !== -1) {
+        this.workers.splice(index, 1);
+      }
+      for (const pending of entry.pending.values()) {
+        pending.reject(error);
+      }
+      entry.pending.clear();
+    };
+    entry.worker.on('error', retire);
+    entry.worker.on('exit', code => retire(new Error(`Parse worker exited with code ${code}`)));
+
+    return entry;
+  }
+}
+
+interface WorkerScript {
+  source: URL | string;
+  eval: boolean;
+}
+
+function resolveWorkerScript(): WorkerScript {
+  // The build emits parseWorker.js beside the bundle.
+  const compiled = new URL('./parseWorker.js', import.meta.url);
+  if (fs.existsSync(fileURLToPath(compiled))) {
+    return { source: compiled, eval: false };
+  }
+
+  // Running from source (tsx, vitest): register tsx in the worker before loading the TypeScript entry.
+  const tsxApi = pathToFileURL(createRequire(import.meta.url).resolve('tsx/esm/api')).href;
+  const entry = new URL('./parseWorker.ts', import.meta.url).href;
+  return {
+    source: `import(${JSON.stringify(tsxApi)}).then(({ register }) => { register(); return import(${JSON.stringify(entry)}); });`,
+    eval: true,
+  };
+}
@@ -0,0 +1,193 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { languageRegistry } from '../parser/LanguageRegistry.js';
+import { IgnoreRules } from './IgnoreRules.js';
+
+export interface IndexingOptions {
+  /** Root-relative globs a file must match to be indexed; everything is eligible when empty. */
+  include?: string[];
+  /** Extra gitignore-style patterns, applied after .gitignore and .codeflowignore. */
+  exclude?: string[];
+  /** Files larger than this many bytes are skipped. */
+  maxFileSize?: number;
+}
+
+export type SkipReason = 'ignored' | 'excluded' | 'not-included' | 'too-large' | 'binary';
+
+export interface SkippedPath {
+  path: string;
+  reason: SkipReason;
+  /** The ignore file or setting responsible, or the file size in bytes. */
+  detail?: string;
+  /** Ignored directories are skipped whole rather than listed file by file. */
+  directory?: boolean;
+}
+
+export interface SourceScanResult {
+  files: string[];
+  skipped: SkippedPath[];
+}
+
+export const DEFAULT_MAX_FILE_SIZE = 1024 * 1024;
+
+const DEFAULT_IGNORE_PATTERNS = [
+  'node_modules/',
+  'dist/',
+  'build/',
+  '.next/',
+  'coverage/',
+  'benchmarks/',
+  'package-lock.json',
+  'npm-shrinkwrap.json',
+  'pnpm-lock.yaml',
+  '.*',
+];
+
+export const CODEFLOW_IGNORE_FILE = '.codeflowignore';
+
+// Git only looks for NUL bytes in the first 8000 bytes, so do the same.
+const BINARY_SNIFF_BYTES = 8000;
+
+/**
+ * Lists the source files under a root that GraphBuilder should index. Patterns are
+ * layered like git's: built-in defaults, then each .gitignore (scoped to its own
+ * directory), then the root .codeflowignore, then `exclude` from the config; the
+ * last matching pattern wins, so `!pattern` in a later layer re-includes a path.
+ */
+export class SourceFileScanner {
+  private readonly include: IgnoreRules | null;
+  private readonly maxFileSize: number;
+
+  constructor(private readonly rootDir: string, private readonly options: IndexingOptions = {}) {
+    this.include = options.include?.length
+      ? IgnoreRules.fromPatterns(options.include.map(anchorToRoot), 'include')
+      : null;
+    this.maxFileSize = options.maxFileSize ?? DEFAULT_MAX_FILE_SIZE;
+  }
+
+  async scan(): Promise<SourceScanResult> {
+    const files: string[] = [];
+    const skipped: SkippedPath[] = [];
+
+    const defaults = IgnoreRules.fromPatterns(DEFAULT_IGNORE_PATTERNS, 'default');
+    const codeflowIgnore = await this.readRules(CODEFLOW_IGNORE_FILE, '');
+    const exclude = IgnoreRules.fromPatterns(this.options.exclude ?? [], 'config');
+
+    const walk = async (dir: string, gitignores: IgnoreRules[]) => {
+      const relativeDir = toPosix(path.relative(this.rootDir, dir));
+      const local = await this.readRules(path.join(relativeDir, '.gitignore'), relativeDir);
+      const scoped = local ? [...gitignores, local] : gitignores;
+      const layers = [defaults, ...scoped, ...(codeflowIgnore ? [codeflowIgnore] : []), exclude];
+
+      const entries = await fs.readdir(dir, { withFileTypes: true });
+      entries.sort((a, b) => a.name.localeCompare(b.name));
+
+      for (const entry of entries) {
+        // Never descend into git's own metadata, whatever the patterns say.
+        if (entry.name === '.git') continue;
+
+        const fullPath = path.join(dir, entry.name);
+        const relative = path.relative(this.rootDir, fullPath);
+        const posixPath = toPosix(relative);
+        const isDirectory = entry.isDirectory();
+
+        const source = matchLayers(layers, posixPath, isDirectory);
+        if (source) {
+          skipped.push({
+            path: relative,
+            reason: source === 'config' ? 'excluded' : 'ignored',
+            detail: source,
+            ...(isDirectory ? { directory: true } : {}),
+          });
+          continue;
+        }
+
+        if (isDirectory) {
+          await walk(fullPath, scoped);
+          continue;
+        }
+
+        if (!languageRegistry.inferFromPath(relative)) {
+          continue;
+        }
+        if (this.include && !this.isIncluded(posixPath)) {
+          skipped.push({ path: relative, reason: 'not-included' });
+          continue;
+        }
+
+        const reason = await this.inspectContent(fullPath);
+        if (reason) {
+          skipped.push({ path: relative, ...reason });
+          continue;
+        }
+        files.push(relative);
+      }
+    };
+
+    await walk(this.rootDir, []);
+    return { files, skipped };
+  }
+
+  private isIncluded(posixPath: string): boolean {
+    // A pattern naming a directory includes everything below it.
+    const segments = posixPath.split('/');
+    for (let depth = 1; depth <= segments.length; depth++) {
+      const candidate = segments.slice(0, depth).join('/');
+      if (this.include?.match(candidate, depth < segments.length) === true) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  private async inspectContent(
+    fullPath: string
+  ): Promise<Pick<SkippedPath, 'reason' | 'detail'> | null> {
+    const handle = await fs.open(fullPath, 'r');
+    try {
+      const { size } = await handle.stat();
+      if (size > this.maxFileSize) {
+        return { reason: 'too-large', detail: String(size) };
+      }
+      const buffer = Buffer.alloc(Math.min(size, BINARY_SNIFF_BYTES));
+      const { bytesRead } = await handle.read(buffer, 0, buffer.length, 0);
+      if (buffer.subarray(0, bytesRead).includes(0)) {
+        return { reason: 'binary' };
+      }
+      return null;
+    } finally {
+      await handle.close();
+    }
+  }
+
+  private async readRules(relativePath: string, base: string): Promise<IgnoreRules | null> {
+    try {
+      const content = await fs.readFile(path.join(this.rootDir, relativePath), 'utf-8');
+      const rules = IgnoreRules.parse(content, toPosix(relativePath), base);
+      return rules.isEmpty ? null : rules;
+    } catch {
+      return null;
+    }
+  }
+}
+
+/** Returns the source of the deciding rule when the path is ignored. */
+function matchLayers(layers: IgnoreRules[], posixPath: string, isDirectory: boolean): string | null {
+  let ignoredBy: string | null = null;
+  for (const layer of layers) {
+    const decision = layer.match(posixPath, isDirectory);
+    if (decision !== undefined) {
+      ignoredBy = decision ? layer.source : null;
+    }
+  }
+  return ignoredBy;
+}
+
+// Unlike ignore patterns, `src` in `include` means the root's src, not any src directory.
+function anchorToRoot(pattern: string): string {
+  return /^[/!]|^\*\*/.test(pattern) ? pattern : `/${pattern}`;
+}
+
+function toPosix(filePath: string): string {
+  return filePath.split(path.sep).join('/');
+}
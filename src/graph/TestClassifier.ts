@@ -0,0 +1,73 @@
+import type { SupportedLanguage } from '../parser/LanguageRegistry.js';
+
+export interface TestFileClassification {
+  /** Test framework imported by the file, when one is recognised. */
+  framework?: string;
+  reason: 'path' | 'import';
+}
+
+const TEST_PATH_PATTERNS = [
+  /(^|\/)(__tests__|__specs__|tests?|specs?)\//,
+  /\.(test|spec|e2e)\.[cm]?[jt]sx?$/,
+  /(^|\/)test_[^/]+\.py$/,
+  /_test\.(py|go)$/,
+  /(^|\/)conftest\.py$/,
+  /(^|\/)src\/test\/java\//,
+  /(Test|Tests|IT)\.java$/,
+];
+
+const SCRIPT_FRAMEWORKS = [
+  'vitest',
+  'jest',
+  '@jest/globals',
+  'mocha',
+  'node:test',
+  '@playwright/test',
+  'ava',
+  'uvu',
+  '@testing-library/react',
+];
+
+const SCRIPT_LANGUAGES = new Set(['typescript', 'tsx', 'javascript', 'jsx']);
+
+const SCRIPT_IMPORT = /(?:from\s+|import\s+|require\()\s*['"]([^'"]+)['"]/g;
+
+// Other languages name the framework module itself as group 1.
+const FRAMEWORK_IMPORTS: Partial<Record<SupportedLanguage, RegExp>> = {
+  python: /^\s*(?:from|import)\s+(pytest|unittest|hypothesis)\b/m,
+  go: /"(testing)"/,
+  java: /^\s*import\s+(?:static\s+)?(org\.junit|org\.testng)\b/m,
+};
+
+/**
+ * Decides whether a file holds tests, from path conventions (`*.test.ts`,
+ * `__tests__/`, `test_*.py`, `*_test.go`, ...) or a test framework import.
+ */
+export function classifyTestFile(
+  filePath: string,
+  content: string,
+  language: SupportedLanguage
+): TestFileClassification | null {
+  const framework = detectFramework(content, language);
+  const normalized = filePath.replace(/\\/g, '/');
+  if (TEST_PATH_PATTERNS.some(pattern => pattern.test(normalized))) {
+    return framework ? { framework, reason: 'path' } : { reason: 'path' };
+  }
+  return framework ? { framework, reason: 'import' } : null;
+}
+
+function detectFramework(content: string, language: SupportedLanguage): string | undefined {
+  if (SCRIPT_LANGUAGES.has(language)) {
+    for (const match of content.matchAll(SCRIPT_IMPORT)) {
+      const specifier = match[1];
+      const framework = SCRIPT_FRAMEWORKS.find(name => specifier === name || specifier.startsWith(`${name}/`));
+      if (framework) {
+        return framework;
+      }
+    }
+    return undefined;
+  }
+
+  const pattern = FRAMEWORK_IMPORTS[language];
+  return pattern ? content.match(pattern)?.[1] : undefined;
+}
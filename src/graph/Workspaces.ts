@@ -0,0 +1,132 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { IgnoreRules } from './IgnoreRules.js';
+
+export interface WorkspacePackage {
+  name: string;
+  /** Root-relative, `/`-separated directory holding the package's package.json. */
+  directory: string;
+}
+
+interface WorkspaceManifest {
+  name?: string;
+  workspaces?: string[] | { packages?: string[] };
+}
+
+const SKIPPED_DIRECTORIES = new Set(['node_modules']);
+
+/**
+ * Lists the packages declared by npm/yarn `workspaces` in the root package.json
+ * and by `packages` in pnpm-workspace.yaml. Each glob is matched against
+ * directories that contain a named package.json; `!glob` excludes matches.
+ */
+export async function detectWorkspaces(rootDir: string): Promise<WorkspacePackage[]> {
+  const patterns = [
+    ...(await readManifestPatterns(rootDir)),
+    ...(await readPnpmPatterns(rootDir)),
+  ];
+  if (!patterns.some(pattern => !pattern.startsWith('!'))) {
+    return [];
+  }
+
+  const rules = IgnoreRules.fromPatterns(patterns.map(anchorPattern), 'workspaces');
+  const maxDepth = patterns.some(pattern => pattern.includes('**'))
+    ? Infinity
+    : Math.max(...patterns.map(pattern => normalizeGlob(pattern).split('/').length));
+  const packages: WorkspacePackage[] = [];
+
+  const walk = async (relativeDir: string, depth: number) => {
+    let entries;
+    try {
+      entries = await fs.readdir(path.join(rootDir, relativeDir), { withFileTypes: true });
+    } catch {
+      return;
+    }
+
+    for (const entry of entries) {
+      if (!entry.isDirectory() || entry.name.startsWith('.') || SKIPPED_DIRECTORIES.has(entry.name)) {
+        continue;
+      }
+      const directory = relativeDir ? `${relativeDir}/${entry.name}` : entry.name;
+      if (rules.match(directory, true) === true) {
+        const manifest = await readManifest(path.join(rootDir, directory));
+        if (manifest?.name) {
+          packages.push({ name: manifest.name, directory });
+        }
+      }
+      if (depth < maxDepth) {
+        await walk(directory, depth + 1);
+      }
+    }
+  };
+
+  await walk('', 1);
+  return packages.sort((a, b) => a.directory.localeCompare(b.directory));
+}
+
+/** The innermost workspace package containing a root-relative file path. */
+export function workspaceForPath(
+  packages: WorkspacePackage[],
+  filePath: string
+): WorkspacePackage | undefined {
+  const normalized = filePath.split(path.sep).join('/');
+  let match: WorkspacePackage | undefined;
+  for (const candidate of packages) {
+    if (
+      normalized.startsWith(`${candidate.directory}/`) &&
+      (!match || candidate.directory.length > match.directory.length)
+    ) {
+      match = candidate;
+    }
+  }
+  return match;
+}
+
+async function readManifest(directory: string): Promise<WorkspaceManifest | null> {
+  try {
+    return JSON.parse(await fs.readFile(path.join(directory, 'package.json'), 'utf-8')) as WorkspaceManifest;
+  } catch {
+    return null;
+  }
+}
+
+async function readManifestPatterns(rootDir: string): Promise<string[]> {
+  const workspaces = (await readManifest(rootDir))?.workspaces;
+  const patterns = Array.isArray(workspaces) ? workspaces : workspaces?.packages;
+  return Array.isArray(patterns) ? patterns.filter(pattern => typeof pattern === 'string') : [];
+}
+
+/** Reads the `packages:` list; the rest of the file is irrelevant here, so no YAML parser. */
+async function readPnpmPatterns(rootDir: string): Promise<string[]> {
+  let raw: string;
+  try {
+    raw = await fs.readFile(path.join(rootDir, 'pnpm-workspace.yaml'), 'utf-8');
+  } catch {
+    return [];
+  }
+
+  const patterns: string[] = [];
+  let inPackages = false;
+  for (const line of raw.split(/\r?\n/)) {
+    const content = line.replace(/\s+#.*$/, '');
+    if (!content.trim() || content.trim().startsWith('#')) continue;
+
+    if (/^\S/.test(content)) {
+      inPackages = /^packages\s*:/.test(content);
+      continue;
+    }
+    const item = inPackages ? content.match(/^\s+-\s*(.+?)\s*$/) : null;
+    if (item) {
+      patterns.push(item[1].replace(/^(['"])(.*)\1$/, '$2'));
+    }
+  }
+  return patterns;
+}
+
+function normalizeGlob(pattern: string): string {
+  return pattern.replace(/^!/, '').replace(/^\.\//, '').replace(/\/+$/, '');
+}
+
+function anchorPattern(pattern: string): string {
+  return `${pattern.startsWith('!') ? '!' : ''}/${normalizeGlob(pattern)}`;
+}
@@ -0,0 +1,19 @@
+import { parentPort } from 'worker_threads';
+import { TreeSitterParser } from '../parser/TreeSitterParser.js';
+import { SymbolExtractor } from '../parser/SymbolExtractor.js';
+import type { ParseRequest, ParseResponse } from './ParsePool.js';
+
+// Entry point for ParsePool workers; only the built-in language packs exist here.
+const parser = new TreeSitterParser();
+const extractor = new SymbolExtractor();
+
+parentPort?.on('message', async (request: ParseRequest) => {
+  let response: ParseResponse;
+  try {
+    const tree = await parser.parse(request.content, request.language);
+    response = { id: request.id, data: extractor.extractGraphData(tree, request.language, request.options) };
+  } catch (error) {
+    response = { id: request.id, error: error instanceof Error ? error.message : String(error) };
+  }
+  parentPort?.postMessage(response);
+});
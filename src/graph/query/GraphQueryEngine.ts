@@ -0,0 +1,244 @@
+import type { GraphNode, GraphView } from '../CodeGraph.js';
+import { GraphWalker, type GraphPath, type TraversalOptions } from '../GraphWalker.js';
+import { DEPENDENCY_EDGE_TYPES } from '../GraphAnalytics.js';
+import { GraphQueryError } from '../../utils/errors.js';
+import {
+  parseGraphQuery,
+  type GraphQuery,
+  type NodeSelector,
+  type QueryCondition,
+  type QueryFunction,
+} from './GraphQueryParser.js';
+
+export interface QueryRow {
+  node: GraphNode;
+  /** Hops from the nearest selected node; 0 for the selected nodes of `find`. */
+  distance: number;
+}
+
+export interface GraphQueryResult {
+  query: GraphQuery;
+  rows: QueryRow[];
+  /** Set by `path()`; `rows` then lists the nodes along them. */
+  paths?: GraphPath[];
+  /** Rows dropped by `limit`. */
+  truncated: number;
+}
+
+const DEFAULT_LIMIT = 50;
+const DEFAULT_PATH_COUNT = 3;
+const MAX_DEPTH = 10;
+
+const SELECTOR_KINDS: Record<string, GraphNode['type'][]> = {
+  fn: ['function'],
+  function: ['function'],
+  method: ['function'],
+  class: ['class'],
+  interface: ['interface'],
+  type: ['type_alias', 'interface', 'enum'],
+  enum: ['enum'],
+  const: ['constant'],
+  var: ['variable', 'constant'],
+  file: ['file'],
+  test: ['test'],
+  package: ['package'],
+  config: ['config_key'],
+  doc: ['doc_section'],
+  sql: ['sql_statement'],
+};
+
+// Relations walk from the selected nodes; a selected file stands for the symbols it contains.
+const RELATIONS: Record<Exclude<QueryFunction, 'find' | 'path'>, TraversalOptions & { expandFiles: boolean }> = {
+  callers: { direction: 'in', edgeTypes: ['calls'], expandFiles: true },
+  callees: { direction: 'out', edgeTypes: ['calls'], expandFiles: true },
+  importers: { direction: 'in', edgeTypes: ['imports'], expandFiles: false },
+  imports: { direction: 'out', edgeTypes: ['imports'], expandFiles: false },
+  dependents: { direction: 'in', edgeTypes: DEPENDENCY_EDGE_TYPES, expandFiles: true },
+  dependencies: { direction: 'out', edgeTypes: DEPENDENCY_EDGE_TYPES, expandFiles: true },
+  members: { direction: 'out', edgeTypes: ['contains'], expandFiles: false },
+  tests: { direction: 'in', edgeTypes: ['tests'], expandFiles: true },
+};
+
+// `path()` may step from a file into the symbols it contains, but never through test links.
+const PATH_EDGE_TYPES = [...DEPENDENCY_EDGE_TYPES, 'contains'];
+
+/**
+ * Evaluates graph queries (see `parseGraphQuery`) with GraphWalker: relation
+ * functions walk `depth` hops (default 1) from every selected node, `find` lists
+ * the selected nodes, and `path(a, b)` ranks up to `limit` routes between them.
+ */
+export class GraphQueryEngine {
+  private readonly walker: GraphWalker;
+
+  constructor(private readonly graph: GraphView) {
+    this.walker = new GraphWalker(graph);
+  }
+
+  run(query: string | GraphQuery): GraphQueryResult {
+    const parsed = typeof query === 'string' ? parseGraphQuery(query) : query;
+    if (parsed.fn === 'path') {
+      return this.runPath(parsed);
+    }
+
+    const selected = selectNodes(this.graph, parsed.selectors);
+    const rows =
+      parsed.fn === 'find'
+        ? selected
+            .sort((a, b) => a.path.localeCompare(b.path) || a.startLine - b.startLine)
+            .map(node => ({ node, distance: 0 }))
+        : this.walk(parsed, selected);
+    return this.finish(parsed, rows.filter(row => this.matchesAll(row, parsed.where)));
+  }
+
+  private walk(query: GraphQuery, selected: GraphNode[]): QueryRow[] {
+    const relation = RELATIONS[query.fn as keyof typeof RELATIONS];
+    const depth = Math.min(query.depth ?? 1, MAX_DEPTH);
+    const seeds = new Set(selected.map(node => node.id));
+    if (relation.expandFiles) {
+      for (const node of selected) {
+        if (node.type !== 'file') continue;
+        for (const member of this.graph.getNeighbors(node.id, 'contains')) {
+          seeds.add(member.id);
+        }
+      }
+    }
+
+    // Breadth-first from all seeds at once, so each row carries its distance to the nearest one.
+    const distances = new Map<string, number>();
+    let frontier = Array.from(seeds);
+    for (const id of frontier) distances.set(id, 0);
+    for (let hop = 1; hop <= depth && frontier.length > 0; hop++) {
+      const nextFrontier: string[] = [];
+      for (const id of frontier) {
+        for (const node of this.walker.bfs(id, 1, relation)) {
+          if (!distances.has(node.id)) {
+            distances.set(node.id, hop);
+            nextFrontier.push(node.id);
+          }
+        }
+      }
+      frontier = nextFrontier;
+    }
+
+    const rows: QueryRow[] = [];
+    for (const [id, distance] of distances) {
+      const node = this.graph.getNode(id);
+      if (node && !seeds.has(id)) {
+        rows.push({ node, distance });
+      }
+    }
+    return rows.sort((a, b) => a.distance - b.distance || a.node.path.localeCompare(b.node.path));
+  }
+
+  /** Routes from the first node matching the start selector to the first matching the end one. */
+  private runPath(query: GraphQuery): GraphQueryResult {
+    const [from] = selectNodes(this.graph, [query.selectors[0]]);
+    const [to] = selectNodes(this.graph, [query.selectors[1]]);
+    const paths = this.walker.kShortestPaths(from.id, to.id, query.limit ?? DEFAULT_PATH_COUNT, {
+      direction: 'out',
+      edgeTypes: PATH_EDGE_TYPES,
+    });
+
+    const rows = new Map<string, QueryRow>();
+    for (const path of paths) {
+      path.nodes.forEach((node, distance) => {
+        const existing = rows.get(node.id);
+        if (!existing || existing.distance > distance) {
+          rows.set(node.id, { node, distance });
+        }
+      });
+    }
+    return {
+      query,
+      rows: Array.from(rows.values())
+        .filter(row => this.matchesAll(row, query.where))
+        .sort((a, b) => a.distance - b.distance || a.node.path.localeCompare(b.node.path)),
+      paths,
+      truncated: 0,
+    };
+  }
+
+  private matchesAll(row: QueryRow, conditions: QueryCondition[]): boolean {
+    return conditions.every(condition => {
+      switch (condition.field) {
+        case 'distance':
+          return compare(row.distance, condition);
+        case 'language':
+          return compare(this.languageOf(row.node), condition);
+        default:
+          return compare(row.node[condition.field], condition);
+      }
+    });
+  }
+
+  // Only file nodes record their language; symbols take their file's.
+  private languageOf(node: GraphNode): string {
+    const file = node.type === 'file' ? node : this.graph.getNodesByPath(node.path).find(candidate => candidate.type === 'file');
+    return String(file?.metadata?.language ?? '');
+  }
+
+  private finish(query: GraphQuery, rows: QueryRow[]): GraphQueryResult {
+    const limit = query.limit ?? DEFAULT_LIMIT;
+    return { query, rows: rows.slice(0, limit), truncated: Math.max(0, rows.length - limit) };
+  }
+}
+
+/** Nodes matching any selector; a selector that matches nothing is an error. */
+export function selectNodes(graph: GraphView, selectors: NodeSelector[]): GraphNode[] {
+  const nodes = graph.getAllNodes();
+  const selected = new Map<string, GraphNode>();
+
+  for (const selector of selectors) {
+    const types = selector.kind ? SELECTOR_KINDS[selector.kind] : undefined;
+    if (selector.kind && selector.kind !== 'id' && !types) {
+      throw new GraphQueryError(
+        `Unknown selector kind "${selector.kind}" (expected one of id, ${Object.keys(SELECTOR_KINDS).join(', ')})`
+      );
+    }
+
+    const pattern = globToRegExp(selector.pattern);
+    const found = nodes.filter(node => {
+      if (selector.kind === 'id') return node.id === selector.pattern;
+      if (types ? !types.includes(node.type) : node.type === 'import') return false;
+      if (node.type === 'file') {
+        return pattern.test(node.path) || pattern.test(node.name) || node.path.endsWith(`/${selector.pattern}`);
+      }
+      return pattern.test(node.name);
+    });
+
+    if (found.length === 0) {
+      const label = selector.kind ? `${selector.kind}:${selector.pattern}` : selector.pattern;
+      throw new GraphQueryError(`No nodes match ${label}`);
+    }
+    for (const node of found) {
+      selected.set(node.id, node);
+    }
+  }
+  return Array.from(selected.values());
+}
+
+function globToRegExp(pattern: string): RegExp {
+  const source = pattern.replace(/[.+^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*').replace(/\?/g, '.');
+  return new RegExp(`^${source}$`);
+}
+
+function compare(actual: string | number, condition: QueryCondition): boolean {
+  switch (condition.operator) {
+    case '=':
+      return String(actual) === condition.value;
+    case '!=':
+      return String(actual) !== condition.value;
+    case '~':
+      return new RegExp(condition.value).test(String(actual));
+    case '!~':
+      return !new RegExp(condition.value).test(String(actual));
+    case '<':
+      return Number(actual) < Number(condition.value);
+    case '<=':
+      return Number(actual) <= Number(condition.value);
+    case '>':
+      return Number(actual) > Number(condition.value);
+    case '>=':
+      return Number(actual) >= Number(condition.value);
+  }
+}
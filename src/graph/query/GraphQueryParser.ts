@@ -0,0 +1,226 @@
+import { GraphQueryError } from '../../utils/errors.js';
+
+export type QueryFunction =
+  | 'find'
+  | 'callers'
+  | 'callees'
+  | 'importers'
+  | 'imports'
+  | 'dependents'
+  | 'dependencies'
+  | 'members'
+  | 'tests'
+  | 'path';
+
+export const QUERY_FUNCTIONS: QueryFunction[] = [
+  'find',
+  'callers',
+  'callees',
+  'importers',
+  'imports',
+  'dependents',
+  'dependencies',
+  'members',
+  'tests',
+  'path',
+];
+
+/** `fn:buildContext`, `file:src/ui/app.tsx` or a bare name; `*` in the pattern matches anything. */
+export interface NodeSelector {
+  kind?: string;
+  pattern: string;
+}
+
+export type ConditionField = 'path' | 'name' | 'type' | 'language' | 'distance';
+export type ConditionOperator = '=' | '!=' | '~' | '!~' | '<' | '<=' | '>' | '>=';
+
+export interface QueryCondition {
+  field: ConditionField;
+  operator: ConditionOperator;
+  value: string;
+}
+
+export interface GraphQuery {
+  /** The query text as written. */
+  source: string;
+  fn: QueryFunction;
+  selectors: NodeSelector[];
+  depth?: number;
+  where: QueryCondition[];
+  limit?: number;
+}
+
+const CONDITION_FIELDS: ConditionField[] = ['path', 'name', 'type', 'language', 'distance'];
+const OPERATORS: ConditionOperator[] = ['!=', '!~', '<=', '>=', '=', '~', '<', '>'];
+
+interface Token {
+  kind: 'word' | 'string' | 'punct' | 'operator' | 'end';
+  value: string;
+  column: number;
+}
+
+/**
+ * Parses the graph query language:
+ *
+ *   callers(fn:buildContextForChange) depth 2 where path ~ "src/ui" and type = function limit 20
+ *
+ * A query is one function over node selectors, then optional `depth`, `where`
+ * (conditions joined by `and`) and `limit` clauses in any order.
+ */
+export function parseGraphQuery(source: string): GraphQuery {
+  const tokens = tokenize(source);
+  let position = 0;
+
+  const peek = () => tokens[position];
+  const next = () => tokens[position++];
+  const expect = (kind: Token['kind'], value?: string): Token => {
+    const token = next();
+    if (token.kind !== kind || (value !== undefined && token.value !== value)) {
+      const wanted = value ? `"${value}"` : kind;
+      const found = token.kind === 'end' ? 'end of query' : `"${token.value}"`;
+      throw new GraphQueryError(`Expected ${wanted} but found ${found}`, token.column);
+    }
+    return token;
+  };
+  const isKeyword = (token: Token, keyword: string) =>
+    token.kind === 'word' && token.value.toLowerCase() === keyword;
+
+  const fnToken = expect('word');
+  const fn = fnToken.value.toLowerCase() as QueryFunction;
+  if (!QUERY_FUNCTIONS.includes(fn)) {
+    throw new GraphQueryError(
+      `Unknown query function "${fnToken.value}" (expected one of ${QUERY_FUNCTIONS.join(', ')})`,
+      fnToken.column
+    );
+  }
+
+  expect('punct', '(');
+  const selectors: NodeSelector[] = [];
+  while (!(peek().kind === 'punct' && peek().value === ')')) {
+    if (selectors.length > 0) {
+      expect('punct', ',');
+    }
+    const token = next();
+    if (token.kind !== 'word' && token.kind !== 'string') {
+      throw new GraphQueryError('Expected a node selector', token.column);
+    }
+    selectors.push(parseSelector(token));
+  }
+  expect('punct', ')');
+
+  if (fn === 'path' && selectors.length !== 2) {
+    throw new GraphQueryError('path() takes a start and an end selector', fnToken.column);
+  }
+  if (selectors.length === 0) {
+    throw new GraphQueryError(`${fn}() needs a node selector`, fnToken.column);
+  }
+
+  const query: GraphQuery = { source: source.trim(), fn, selectors, where: [] };
+  while (peek().kind !== 'end') {
+    const token = next();
+    if (isKeyword(token, 'depth')) {
+      query.depth = readCount(next(), 'depth');
+    } else if (isKeyword(token, 'limit')) {
+      query.limit = readCount(next(), 'limit');
+    } else if (isKeyword(token, 'where')) {
+      query.where.push(readCondition());
+      while (isKeyword(peek(), 'and')) {
+        next();
+        query.where.push(readCondition());
+      }
+    } else {
+      throw new GraphQueryError(`Unexpected "${token.value}"; expected depth, where or limit`, token.column);
+    }
+  }
+  return query;
+
+  function readCondition(): QueryCondition {
+    const fieldToken = expect('word');
+    const field = fieldToken.value.toLowerCase() as ConditionField;
+    if (!CONDITION_FIELDS.includes(field)) {
+      throw new GraphQueryError(
+        `Unknown field "${fieldToken.value}" (expected one of ${CONDITION_FIELDS.join(', ')})`,
+        fieldToken.column
+      );
+    }
+    const operator = expect('operator').value as ConditionOperator;
+    const valueToken = next();
+    if (valueToken.kind !== 'word' && valueToken.kind !== 'string') {
+      throw new GraphQueryError(`Expected a value after ${field} ${operator}`, valueToken.column);
+    }
+    if (operator === '~' || operator === '!~') {
+      try {
+        new RegExp(valueToken.value);
+      } catch {
+        throw new GraphQueryError(`Invalid pattern "${valueToken.value}"`, valueToken.column);
+      }
+    }
+    return { field, operator, value: valueToken.value };
+  }
+}
+
+function parseSelector(token: Token): NodeSelector {
+  return token.kind === 'string' ? { pattern: token.value } : parseNodeSelector(token.value);
+}
+
+/** Reads one selector such as `fn:buildContext*`, for commands that take a node outside a query. */
+export function parseNodeSelector(text: string): NodeSelector {
+  const separator = text.indexOf(':');
+  if (separator > 0) {
+    return { kind: text.slice(0, separator).toLowerCase(), pattern: text.slice(separator + 1) };
+  }
+  return { pattern: text };
+}
+
+function readCount(token: Token, clause: string): number {
+  const value = Number(token.value);
+  if (token.kind !== 'word' || !Number.isInteger(value) || value < 0) {
+    throw new GraphQueryError(`${clause} takes a whole number`, token.column);
+  }
+  return value;
+}
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let index = 0;
+
+  while (index < source.length) {
+    const char = source[index];
+    const column = index + 1;
+
+    if (/\s/.test(char)) {
+      index++;
+    } else if (char === '(' || char === ')' || char === ',') {
+      tokens.push({ kind: 'punct', value: char, column });
+      index++;
+    } else if (char === '"' || char === "'") {
+      let value = '';
+      index++;
+      while (index < source.length && source[index] !== char) {
+        if (source[index] === '\\' && index + 1 < source.length) index++;
+        value += source[index++];
+      }
+      if (index >= source.length) {
+        throw new GraphQueryError('Unterminated string', column);
+      }
+      index++;
+      tokens.push({ kind: 'string', value, column });
+    } else {
+      const operator = OPERATORS.find(candidate => source.startsWith(candidate, index));
+      if (operator) {
+        tokens.push({ kind: 'operator', value: operator, column });
+        index += operator.length;
+        continue;
+      }
+      const word = /^[^\s(),"'=!~<>]+/.exec(source.slice(index))?.[0];
+      if (!word) {
+        throw new GraphQueryError(`Unexpected "${char}"`, column);
+      }
+      tokens.push({ kind: 'word', value: word, column });
+      index += word.length;
+    }
+  }
+
+  tokens.push({ kind: 'end', value: '', column: source.length + 1 });
+  return tokens;
+}
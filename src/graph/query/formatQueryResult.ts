@@ -0,0 +1,89 @@
+import type { GraphNode } from '../CodeGraph.js';
+import type { GraphPath } from '../GraphWalker.js';
+import type { GraphQueryResult } from './GraphQueryEngine.js';
+
+const NAME_WIDTH = 40;
+
+/** Plain-text table of the rows, preceded by the routes for `path()` queries. */
+export function formatQueryTable(result: GraphQueryResult): string {
+  const lines: string[] = [];
+  result.paths?.forEach((path, index) => {
+    lines.push(`${index + 1}. ${formatPath(path)} (cost ${formatCost(path.cost)})`);
+  });
+  if (result.paths?.length === 0) {
+    lines.push('No path found.');
+  }
+  if (result.paths) {
+    lines.push('');
+  }
+
+  if (result.rows.length === 0) {
+    lines.push('No matching nodes.');
+  } else {
+    const typeWidth = Math.max(4, ...result.rows.map(row => row.node.type.length));
+    const nameWidth = Math.min(
+      NAME_WIDTH,
+      Math.max(4, ...result.rows.map(row => row.node.name.length))
+    );
+    lines.push(`DIST  ${'TYPE'.padEnd(typeWidth)}  ${'NAME'.padEnd(nameWidth)}  LOCATION`);
+    for (const { node, distance } of result.rows) {
+      lines.push(
+        `${String(distance).padStart(4)}  ${node.type.padEnd(typeWidth)}  ` +
+          `${truncate(node.name, nameWidth).padEnd(nameWidth)}  ${location(node)}`
+      );
+    }
+  }
+
+  const count = `${result.rows.length} row${result.rows.length === 1 ? '' : 's'}`;
+  lines.push(result.truncated > 0 ? `${count} (${result.truncated} more past the limit)` : count);
+  return lines.join('\n');
+}
+
+/** JSON-ready form: nodes without content or embeddings, paths as node ids joined by edge types. */
+export function queryResultToJson(result: GraphQueryResult) {
+  return {
+    query: result.query,
+    rows: result.rows.map(({ node, distance }) => ({
+      id: node.id,
+      type: node.type,
+      name: node.name,
+      path: node.path,
+      line: node.startLine,
+      distance,
+    })),
+    ...(result.paths && {
+      paths: result.paths.map(path => ({
+        cost: path.cost,
+        nodes: path.nodes.map(node => node.id),
+        edges: path.steps.map(step => step.edge.type),
+      })),
+    }),
+    truncated: result.truncated,
+  };
+}
+
+/** `cli.ts -imports-> app.tsx -contains-> App`; edges walked backwards point left. */
+export function formatPath(path: GraphPath): string {
+  let text = label(path.nodes[0]);
+  path.steps.forEach((step, index) => {
+    const arrow = step.forward ? ` -${step.edge.type}-> ` : ` <-${step.edge.type}- `;
+    text += arrow + label(path.nodes[index + 1]);
+  });
+  return text;
+}
+
+function label(node: GraphNode): string {
+  return node.type === 'file' ? node.path : node.name;
+}
+
+function location(node: GraphNode): string {
+  return node.type === 'file' ? node.path : `${node.path}:${node.startLine}`;
+}
+
+function truncate(text: string, width: number): string {
+  return text.length > width ? `${text.slice(0, width - 1)}…` : text;
+}
+
+function formatCost(cost: number): string {
+  return Number.isInteger(cost) ? String(cost) : cost.toFixed(2);
+}
@@ -0,0 +1,359 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { nanoid } from 'nanoid';
+import { CodeGraph, type GraphEdge, type GraphNode } from '../CodeGraph.js';
+import type {
+  GraphSnapshotDiff,
+  GraphSnapshotInfo,
+  GraphStore,
+  GraphStoreConfig,
+} from './GraphStore.js';
+import { diffGraphs } from './snapshots.js';
+import { ensureDir, readJsonFile, writeJsonFile } from '../../utils/fs.js';
+import { logger } from '../../utils/logger.js';
+
+/** Bumped whenever the layout changes. Stores with another version are ignored and rebuilt, not migrated. */
+export const FILE_STORE_SCHEMA_VERSION = 1;
+
+const MANIFEST_FILE = 'manifest.json';
+const SNAPSHOTS_DIR = 'snapshots';
+const GRAPH_FILE = 'graph.json';
+const CONTENT_FILE = 'content.bin';
+const EMBEDDINGS_FILE = 'embeddings.bin';
+const DEFAULT_MAX_SNAPSHOTS = 10;
+
+/**
+ * Nodes are stored as positional tuples to keep the document small. Source
+ * text lives in `content.bin`, located by a UTF-8 byte offset and length. The
+ * last two entries locate the node's embedding inside `embeddings.bin` as a
+ * float32 offset and length, with -1 meaning "no embedding".
+ */
+type StoredNode = [
+  id: string,
+  type: GraphNode['type'],
+  name: string,
+  path: string,
+  contentOffset: number,
+  contentLength: number,
+  startLine: number,
+  endLine: number,
+  metadata: Record<string, unknown>,
+  embeddingOffset: number,
+  embeddingLength: number,
+];
+
+type StoredEdge = [
+  id: string,
+  from: string,
+  to: string,
+  type: GraphEdge['type'],
+  metadata: Record<string, unknown>,
+];
+
+interface StoredGraph {
+  nodes: StoredNode[];
+  edges: StoredEdge[];
+}
+
+export interface FileStoreManifest {
+  version: number;
+  snapshotId: string;
+  savedAt: number;
+  nodeCount: number;
+  edgeCount: number;
+  digests: Record<string, string>;
+  /** Retained snapshots, newest (the one above) first. */
+  snapshots: GraphSnapshotInfo[];
+}
+
+interface LoadedDocument {
+  graph: StoredGraph;
+  contents: Buffer;
+  embeddings: Float32Array;
+}
+
+/**
+ * Keeps the `maxSnapshots` most recent snapshots (10 by default) so earlier
+ * graphs can still be loaded and diffed; older ones are deleted on save. Each
+ * save writes `graph.json`, `content.bin` and `embeddings.bin` into
+ * `snapshots/<snapshotId>/` and then points `manifest.json` at it, so the
+ * manifest always names a complete set of files. The first `load` parses the
+ * node and edge structure in `graph.json`; each node's content and embedding
+ * are decoded from the binary files only when first read.
+ */
+export class FileGraphStore implements GraphStore {
+  private readonly directory: string;
+  private readonly maxSnapshots: number;
+  private cached: CodeGraph | null = null;
+  private cachedSnapshotId: string | null = null;
+  private loaded = false;
+
+  constructor(config: GraphStoreConfig) {
+    const root = config.namespace ?? process.cwd();
+    this.directory = config.directory
+      ? path.resolve(root, config.directory)
+      : path.join(root, '.codeflow', 'graph');
+    this.maxSnapshots = Math.max(1, config.maxSnapshots ?? DEFAULT_MAX_SNAPSHOTS);
+  }
+
+  async load(snapshotId?: string): Promise<CodeGraph | null> {
+    if (!this.loaded) {
+      this.cached = await this.readGraph();
+      this.loaded = true;
+    }
+    if (!snapshotId || snapshotId === this.cachedSnapshotId) {
+      return this.cached ? this.cached.clone() : null;
+    }
+
+    const manifest = await this.readCurrentManifest();
+    const retained = manifest?.snapshots.some(snapshot => snapshot.id === snapshotId);
+    return retained ? this.readSnapshot(snapshotId) : null;
+  }
+
+  async save(graph: CodeGraph): Promise<void> {
+    const nodes: StoredNode[] = [];
+    const contents: Buffer[] = [];
+    const vectors: number[][] = [];
+    let contentOffset = 0;
+    let offset = 0;
+
+    for (const node of graph.getAllNodes()) {
+      const embedding = node.embedding && node.embedding.length > 0 ? node.embedding : null;
+      const content = Buffer.from(node.content ?? '', 'utf-8');
+      nodes.push([
+        node.id,
+        node.type,
+        node.name,
+        node.path,
+        contentOffset,
+        content.byteLength,
+        node.startLine,
+        node.endLine,
+        node.metadata ?? {},
+        embedding ? offset : -1,
+        embedding ? embedding.length : -1,
+      ]);
+      contents.push(content);
+      contentOffset += content.byteLength;
+      if (embedding) {
+        vectors.push(embedding);
+        offset += embedding.length;
+      }
+    }
+
+    const edges: StoredEdge[] = graph
+      .getAllEdges()
+      .map(edge => [edge.id, edge.from, edge.to, edge.type, edge.metadata ?? {}]);
+
+    const embeddings = new Float32Array(offset);
+    let cursor = 0;
+    for (const vector of vectors) {
+      embeddings.set(vector, cursor);
+      cursor += vector.length;
+    }
+
+    const snapshotId = nanoid();
+    const savedAt = Date.now();
+    const previous = (await this.readCurrentManifest())?.snapshots ?? [];
+    const manifest: FileStoreManifest = {
+      version: FILE_STORE_SCHEMA_VERSION,
+      snapshotId,
+      savedAt,
+      nodeCount: nodes.length,
+      edgeCount: edges.length,
+      digests: collectDigests(graph.getAllNodes()),
+      snapshots: [
+        { id: snapshotId, createdAt: savedAt, supersededAt: null, nodeCount: nodes.length, edgeCount: edges.length },
+        ...previous.map(snapshot => ({ ...snapshot, supersededAt: snapshot.supersededAt ?? savedAt })),
+      ].slice(0, this.maxSnapshots),
+    };
+
+    const snapshotDirectory = this.snapshotDirectory(manifest.snapshotId);
+    await ensureDir(snapshotDirectory);
+    await fs.writeFile(path.join(snapshotDirectory, CONTENT_FILE), Buffer.concat(contents));
+    await fs.writeFile(
+      path.join(snapshotDirectory, EMBEDDINGS_FILE),
+      Buffer.from(embeddings.buffer, embeddings.byteOffset, embeddings.byteLength)
+    );
+    await fs.writeFile(path.join(snapshotDirectory, GRAPH_FILE), JSON.stringify({ nodes, edges }), 'utf-8');
+    // Replacing the manifest (tmp + rename) commits the save; until then it names the previous snapshot.
+    await writeJsonFile(this.resolve(MANIFEST_FILE), manifest);
+    await this.removeSnapshotsExcept(new Set(manifest.snapshots.map(snapshot => snapshot.id)));
+
+    this.cached = graph.clone();
+    this.cachedSnapshotId = manifest.snapshotId;
+    this.loaded = true;
+  }
+
+  async clear(): Promise<void> {
+    await fs.rm(this.directory, { recursive: true, force: true });
+    this.cached = null;
+    this.cachedSnapshotId = null;
+    this.loaded = true;
+  }
+
+  async listSnapshots(): Promise<GraphSnapshotInfo[]> {
+    const manifest = await this.readCurrentManifest();
+    return manifest ? manifest.snapshots.map(snapshot => ({ ...snapshot })) : [];
+  }
+
+  async diffSnapshots(fromSnapshotId: string, toSnapshotId: string): Promise<GraphSnapshotDiff> {
+    const from = await this.load(fromSnapshotId);
+    const to = await this.load(toSnapshotId);
+    if (!from || !to) {
+      throw new Error(`Unknown graph snapshot: ${from ? toSnapshotId : fromSnapshotId}`);
+    }
+    return diffGraphs(fromSnapshotId, from, toSnapshotId, to);
+  }
+
+  /**
+   * Read only the manifest, e.g. to compare file digests without materialising
+   * the whole graph.
+   */
+  async readManifest(): Promise<FileStoreManifest | null> {
+    return readJsonFile<FileStoreManifest>(this.resolve(MANIFEST_FILE));
+  }
+
+  /** The manifest, or null when there is none or it has another schema version. */
+  private async readCurrentManifest(): Promise<FileStoreManifest | null> {
+    const manifest = await this.readManifest();
+    if (!manifest || manifest.version === FILE_STORE_SCHEMA_VERSION) {
+      return manifest;
+    }
+    logger.warn('Graph store uses a different schema version; ignoring it so the graph is rebuilt.', {
+      directory: this.directory,
+      version: manifest.version,
+    });
+    return null;
+  }
+
+  private async readGraph(): Promise<CodeGraph | null> {
+    const manifest = await this.readCurrentManifest();
+    if (!manifest) {
+      return null;
+    }
+    const graph = await this.readSnapshot(manifest.snapshotId);
+    if (graph) {
+      this.cachedSnapshotId = manifest.snapshotId;
+    }
+    return graph;
+  }
+
+  private async readSnapshot(snapshotId: string): Promise<CodeGraph | null> {
+    const snapshotDirectory = this.snapshotDirectory(snapshotId);
+    const graphDocument = await readJsonFile<StoredGraph>(path.join(snapshotDirectory, GRAPH_FILE));
+    if (!graphDocument) {
+      return null;
+    }
+    return materialize({
+      graph: graphDocument,
+      contents: await fs.readFile(path.join(snapshotDirectory, CONTENT_FILE)),
+      embeddings: await this.readEmbeddings(snapshotDirectory),
+    });
+  }
+
+  private async readEmbeddings(snapshotDirectory: string): Promise<Float32Array> {
+    try {
+      const buffer = await fs.readFile(path.join(snapshotDirectory, EMBEDDINGS_FILE));
+      const aligned = new Uint8Array(buffer).buffer;
+      return new Float32Array(aligned, 0, Math.floor(buffer.byteLength / 4));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return new Float32Array(0);
+      }
+      throw error;
+    }
+  }
+
+  /** Drops snapshots past the retention count, and the files of a save that failed before its manifest was written. */
+  private async removeSnapshotsExcept(retained: Set<string>): Promise<void> {
+    const entries = await fs.readdir(this.resolve(SNAPSHOTS_DIR));
+    await Promise.all(
+      entries
+        .filter(entry => !retained.has(entry))
+        .map(entry => fs.rm(this.snapshotDirectory(entry), { recursive: true, force: true }))
+    );
+  }
+
+  private snapshotDirectory(snapshotId: string): string {
+    return path.join(this.directory, SNAPSHOTS_DIR, snapshotId);
+  }
+
+  private resolve(fileName: string): string {
+    return path.join(this.directory, fileName);
+  }
+}
+
+function materialize(document: LoadedDocument): CodeGraph {
+  const graph = new CodeGraph();
+
+  for (const stored of document.graph.nodes) {
+    const [id, type, name, nodePath, contentOffset, contentLength, startLine, endLine, metadata, offset, length] = stored;
+    const node = { id, type, name, path: nodePath, startLine, endLine, metadata } as GraphNode;
+    defineLazyContent(node, document.contents, contentOffset, contentLength);
+    if (offset >= 0 && length > 0) {
+      defineLazyEmbedding(node, document.embeddings, offset, length);
+    }
+    graph.upsertNode(node);
+  }
+
+  for (const [id, from, to, type, metadata] of document.graph.edges) {
+    if (graph.hasNode(from) && graph.hasNode(to)) {
+      graph.upsertEdge({ id, from, to, type, metadata });
+    }
+  }
+
+  return graph;
+}
+
+/**
+ * Embeddings stay as views into the shared float buffer until first read, so
+ * loading a large graph does not allocate one number array per node up front.
+ */
+function defineLazyEmbedding(
+  node: GraphNode,
+  embeddings: Float32Array,
+  offset: number,
+  length: number
+): void {
+  let decoded: number[] | undefined;
+  Object.defineProperty(node, 'embedding', {
+    enumerable: true,
+    configurable: true,
+    get() {
+      if (!decoded) {
+        decoded = Array.from(embeddings.subarray(offset, offset + length));
+      }
+      return decoded;
+    },
+    set(value: number[] | undefined) {
+      decoded = value;
+    },
+  });
+}
+
+/** Like embeddings, source text is decoded from the shared buffer on first read. */
+function defineLazyContent(node: GraphNode, contents: Buffer, offset: number, length: number): void {
+  let decoded: string | undefined;
+  Object.defineProperty(node, 'content', {
+    enumerable: true,
+    configurable: true,
+    get() {
+      decoded ??= contents.toString('utf-8', offset, offset + length);
+      return decoded;
+    },
+    set(value: string) {
+      decoded = value;
+    },
+  });
+}
+
+function collectDigests(nodes: GraphNode[]): Record<string, string> {
+  const digests: Record<string, string> = {};
+  for (const node of nodes) {
+    if (node.type === 'file' && typeof node.metadata?.digest === 'string') {
+      digests[node.path] = node.metadata.digest;
+    }
+  }
+  return digests;
+}
@@ -1,12 +1,36 @@
-import { CodeGraph } from '../CodeGraph.js';
+import { CodeGraph, type GraphEdge, type GraphNode } from '../CodeGraph.js';
 
 export interface GraphStore {
-  load(): Promise<CodeGraph | null>;
+  /** Load the active snapshot, or a historical one when `snapshotId` is given. */
+  load(snapshotId?: string): Promise<CodeGraph | null>;
   save(graph: CodeGraph): Promise<void>;
   clear(): Promise<void>;
+  /** Snapshots known to the store, newest first. */
+  listSnapshots(): Promise<GraphSnapshotInfo[]>;
+  diffSnapshots(fromSnapshotId: string, toSnapshotId: string): Promise<GraphSnapshotDiff>;
+  /** Release connections; stores holding none leave it out. */
+  close?(): Promise<void>;
 }
 
-export type GraphStoreKind = 'memory' | 'neo4j';
+export interface GraphSnapshotInfo {
+  id: string;
+  createdAt: number;
+  supersededAt: number | null;
+  nodeCount: number;
+  edgeCount: number;
+}
+
+export interface GraphSnapshotDiff {
+  fromSnapshotId: string;
+  toSnapshotId: string;
+  addedNodes: GraphNode[];
+  removedNodes: GraphNode[];
+  changedNodes: Array<{ before: GraphNode; after: GraphNode }>;
+  addedEdges: GraphEdge[];
+  removedEdges: GraphEdge[];
+}
+
+export type GraphStoreKind = 'memory' | 'file' | 'neo4j';
 
 export interface GraphStoreConfig {
   kind: GraphStoreKind;
@@ -14,6 +38,9 @@ export interface GraphStoreConfig {
   username?: string;
   password?: string;
   namespace?: string;
+  directory?: string;
+  /** Snapshots the memory and file stores retain before deleting the oldest; 10 by default. */
+  maxSnapshots?: number;
   maxConnectionPoolSize?: number;
   connectionTimeoutMs?: number;
   provisioning?: {
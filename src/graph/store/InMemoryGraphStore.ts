@@ -1,21 +1,71 @@
+import { nanoid } from 'nanoid';
 import { CodeGraph } from '../CodeGraph.js';
-import type { GraphStore } from './GraphStore.js';
+import type { GraphSnapshotDiff, GraphSnapshotInfo, GraphStore } from './GraphStore.js';
+import { diffGraphs } from './snapshots.js';
+
+interface MemorySnapshot {
+  info: GraphSnapshotInfo;
+  graph: CodeGraph;
+}
+
+export interface InMemoryGraphStoreOptions {
+  maxSnapshots?: number;
+}
 
 export class InMemoryGraphStore implements GraphStore {
-  private graph: CodeGraph | null = null;
+  private snapshots: MemorySnapshot[] = [];
+  private readonly maxSnapshots: number;
 
-  async load(): Promise<CodeGraph | null> {
-    if (!this.graph) {
+  constructor(options: InMemoryGraphStoreOptions = {}) {
+    this.maxSnapshots = Math.max(1, options.maxSnapshots ?? 10);
+  }
+
+  async load(snapshotId?: string): Promise<CodeGraph | null> {
+    const snapshot = snapshotId ? this.findSnapshot(snapshotId) : this.snapshots[0];
+    if (!snapshot) {
       return null;
     }
-    return this.graph.clone();
+    return snapshot.graph.clone();
   }
 
   async save(graph: CodeGraph): Promise<void> {
-    this.graph = graph.clone();
+    const now = Date.now();
+    const active = this.snapshots[0];
+    if (active) {
+      active.info.supersededAt = now;
+    }
+
+    this.snapshots.unshift({
+      info: {
+        id: nanoid(),
+        createdAt: now,
+        supersededAt: null,
+        nodeCount: graph.getAllNodes().length,
+        edgeCount: graph.getAllEdges().length,
+      },
+      graph: graph.clone(),
+    });
+    this.snapshots = this.snapshots.slice(0, this.maxSnapshots);
   }
 
   async clear(): Promise<void> {
-    this.graph = null;
+    this.snapshots = [];
+  }
+
+  async listSnapshots(): Promise<GraphSnapshotInfo[]> {
+    return this.snapshots.map(snapshot => ({ ...snapshot.info }));
+  }
+
+  async diffSnapshots(fromSnapshotId: string, toSnapshotId: string): Promise<GraphSnapshotDiff> {
+    const from = this.findSnapshot(fromSnapshotId);
+    const to = this.findSnapshot(toSnapshotId);
+    if (!from || !to) {
+      throw new Error(`Unknown graph snapshot: ${from ? toSnapshotId : fromSnapshotId}`);
+    }
+    return diffGraphs(fromSnapshotId, from.graph, toSnapshotId, to.graph);
+  }
+
+  private findSnapshot(snapshotId: string): MemorySnapshot | undefined {
+    return this.snapshots.find(snapshot => snapshot.info.id === snapshotId);
   }
 }
@@ -1,7 +1,13 @@
 import neo4j, { Driver, isInt, Session } from 'neo4j-driver';
 import { nanoid } from 'nanoid';
 import { CodeGraph, type GraphEdge, type GraphNode } from '../CodeGraph.js';
-import type { GraphStore, GraphStoreConfig } from './GraphStore.js';
+import type {
+  GraphSnapshotDiff,
+  GraphSnapshotInfo,
+  GraphStore,
+  GraphStoreConfig,
+} from './GraphStore.js';
+import { diffGraphs } from './snapshots.js';
 import { logger } from '../../utils/logger.js';
 
 type StoredNode = GraphNode & { namespace: string; snapshotId: string; validFrom: number; validTo: number | null };
@@ -20,6 +26,7 @@ const EDGE_LABELS: Record<GraphEdge['type'], string> = {
   references: 'REFERENCES',
   extends: 'EXTENDS',
   implements: 'IMPLEMENTS',
+  tests: 'TESTS',
 };
 
 const REVERSE_EDGE_LABELS = Object.fromEntries(
@@ -51,7 +58,7 @@ export class Neo4jGraphStore implements GraphStore {
     );
   }
 
-  private async verifyConnectivity(): Promise<void> {
+  async verifyConnectivity(): Promise<void> {
     if (this.connectivityVerified) {
       return;
     }
@@ -60,6 +67,10 @@ export class Neo4jGraphStore implements GraphStore {
     this.connectivityVerified = true;
   }
 
+  async close(): Promise<void> {
+    await this.driver.close();
+  }
+
   private async withSession<T>(operation: (session: Session) => Promise<T>, attempts = 3): Promise<T> {
     let lastError: unknown = undefined;
 
@@ -91,13 +102,16 @@ export class Neo4jGraphStore implements GraphStore {
     throw lastError ?? new Error('Neo4j operation failed after retries.');
   }
 
-  async load(): Promise<CodeGraph | null> {
+  async load(requestedSnapshotId?: string): Promise<CodeGraph | null> {
     await this.ensureSetup();
     return this.withSession(async (session) => {
-      const snapshotId = await this.getActiveSnapshotId(session);
+      const snapshotId = requestedSnapshotId ?? (await this.getActiveSnapshotId(session));
       if (!snapshotId) {
         return null;
       }
+      if (requestedSnapshotId && !(await this.snapshotExists(session, requestedSnapshotId))) {
+        return null;
+      }
 
       const graph = new CodeGraph();
       const nodes = await session.readTransaction(async (tx) => {
@@ -205,10 +219,18 @@ export class Neo4jGraphStore implements GraphStore {
               id: $snapshotId,
               namespace: $namespace,
               validFrom: $now,
-              validTo: null
+              validTo: null,
+              nodeCount: $nodeCount,
+              edgeCount: $edgeCount
             })
           `,
-          { snapshotId, namespace: this.namespace, now }
+          {
+            snapshotId,
+            namespace: this.namespace,
+            now,
+            nodeCount: nodes.length,
+            edgeCount: graph.getAllEdges().length,
+          }
         );
 
         if (nodes.length > 0) {
@@ -270,6 +292,42 @@ export class Neo4jGraphStore implements GraphStore {
     });
   }
 
+  async listSnapshots(): Promise<GraphSnapshotInfo[]> {
+    await this.ensureSetup();
+    return this.withSession(async (session) => {
+      const records = await session.readTransaction(async (tx) => {
+        const result = await tx.run(
+          `
+            MATCH (s:GraphSnapshot {namespace: $namespace})
+            RETURN s
+            ORDER BY s.validFrom DESC
+          `,
+          { namespace: this.namespace }
+        );
+        return result.records;
+      });
+
+      return records.map((record) => {
+        const props = record.get('s').properties as Record<string, unknown>;
+        return {
+          id: props.id as string,
+          createdAt: toNumber(props.validFrom),
+          supersededAt: props.validTo == null ? null : toNumber(props.validTo),
+          nodeCount: toNumber(props.nodeCount),
+          edgeCount: toNumber(props.edgeCount),
+        };
+      });
+    });
+  }
+
+  async diffSnapshots(fromSnapshotId: string, toSnapshotId: string): Promise<GraphSnapshotDiff> {
+    const [from, to] = await Promise.all([this.load(fromSnapshotId), this.load(toSnapshotId)]);
+    if (!from || !to) {
+      throw new Error(`Unknown graph snapshot: ${from ? toSnapshotId : fromSnapshotId}`);
+    }
+    return diffGraphs(fromSnapshotId, from, toSnapshotId, to);
+  }
+
   async clear(): Promise<void> {
     await this.ensureSetup();
     await this.withSession(async (session) => {
@@ -309,6 +367,19 @@ export class Neo4jGraphStore implements GraphStore {
     this.initialized = true;
   }
 
+  private async snapshotExists(session: Session, snapshotId: string): Promise<boolean> {
+    return session.readTransaction(async (tx) => {
+      const res = await tx.run(
+        `
+          MATCH (s:GraphSnapshot {namespace: $namespace, id: $snapshotId})
+          RETURN count(s) AS total
+        `,
+        { namespace: this.namespace, snapshotId }
+      );
+      return toNumber(res.records[0]?.get('total')) > 0;
+    });
+  }
+
   private async getActiveSnapshotId(session: Session): Promise<string | null> {
     const result = await session.readTransaction(async (tx) => {
       const res = await tx.run(
@@ -1,6 +1,9 @@
 import type { GraphStore, GraphStoreConfig } from './GraphStore.js';
 import { InMemoryGraphStore } from './InMemoryGraphStore.js';
-
+import { FileGraphStore } from './FileGraphStore.js';
+import { Neo4jGraphStore } from './Neo4jGraphStore.js';
+import { prepareNeo4jConfig } from './provisioning.js';
+import { logger } from '../../utils/logger.js';
 
 export async function createGraphStore(
   config: GraphStoreConfig | undefined
@@ -9,9 +12,11 @@ export async function createGraphStore(
 
   switch (kind) {
     case 'memory':
-      return new InMemoryGraphStore();
+      return new InMemoryGraphStore({ maxSnapshots: config?.maxSnapshots });
+    case 'file':
+      return new FileGraphStore(config ?? { kind });
     case 'neo4j':
-            return new InMemoryGraphStore();
+      return createNeo4jGraphStore(config ?? { kind });
     default: {
       const exhaustive: never = kind;
       throw new Error(`Unsupported graph store kind: ${exhaustive}`);
@@ -19,6 +24,24 @@ export async function createGraphStore(
   }
 }
 
-export type { GraphStore, GraphStoreConfig } from './GraphStore.js';
-
+/**
+ * Provision (when enabled) and connect to Neo4j. Any failure along the way
+ * degrades to the in-memory store so a session can still start offline.
+ */
+async function createNeo4jGraphStore(config: GraphStoreConfig): Promise<GraphStore> {
+  let store: Neo4jGraphStore | null = null;
+  try {
+    const prepared = await prepareNeo4jConfig(config);
+    store = new Neo4jGraphStore(prepared);
+    await store.verifyConnectivity();
+    return store;
+  } catch (error) {
+    await store?.close().catch(() => {});
+    logger.warn('Neo4j graph store unavailable, falling back to in-memory store', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return new InMemoryGraphStore();
+  }
+}
 
+export type { GraphStore, GraphStoreConfig } from './GraphStore.js';
@@ -0,0 +1,50 @@
+import type { GraphNode, GraphView } from '../CodeGraph.js';
+import type { GraphSnapshotDiff } from './GraphStore.js';
+
+export function diffGraphs(
+  fromSnapshotId: string,
+  from: GraphView,
+  toSnapshotId: string,
+  to: GraphView
+): GraphSnapshotDiff {
+  const diff: GraphSnapshotDiff = {
+    fromSnapshotId,
+    toSnapshotId,
+    addedNodes: [],
+    removedNodes: [],
+    changedNodes: [],
+    addedEdges: [],
+    removedEdges: [],
+  };
+
+  for (const after of to.getAllNodes()) {
+    const before = from.getNode(after.id);
+    if (!before) {
+      diff.addedNodes.push(after);
+    } else if (nodeChanged(before, after)) {
+      diff.changedNodes.push({ before, after });
+    }
+  }
+
+  for (const before of from.getAllNodes()) {
+    if (!to.hasNode(before.id)) {
+      diff.removedNodes.push(before);
+    }
+  }
+
+  const fromEdgeIds = new Set(from.getAllEdges().map(edge => edge.id));
+  const toEdgeIds = new Set(to.getAllEdges().map(edge => edge.id));
+  diff.addedEdges = to.getAllEdges().filter(edge => !fromEdgeIds.has(edge.id));
+  diff.removedEdges = from.getAllEdges().filter(edge => !toEdgeIds.has(edge.id));
+
+  return diff;
+}
+
+function nodeChanged(before: GraphNode, after: GraphNode): boolean {
+  return (
+    before.content !== after.content ||
+    before.startLine !== after.startLine ||
+    before.endLine !== after.endLine ||
+    before.name !== after.name
+  );
+}
@@ -1,10 +1,11 @@
-import type { GraphEdge, GraphNode } from './CodeGraph.js';
+import type { CodeGraph, GraphEdge, GraphNode } from './CodeGraph.js';
 import type { SupportedLanguage } from '../parser/LanguageRegistry.js';
 
 export interface FileGraphSnapshot {
   filePath: string;
   language: SupportedLanguage;
   file: GraphNode;
+  /** Symbols declared in the file, plus `package` nodes for the external packages it imports. */
   symbols: GraphNode[];
   edges: GraphEdge[];
   digest: string;
@@ -14,3 +15,26 @@ export interface GraphSnapshot {
   files: FileGraphSnapshot[];
   createdAt: number;
 }
+
+export interface IncrementalBuildResult {
+  graph: CodeGraph;
+  added: string[];
+  changed: string[];
+  removed: string[];
+}
+
+/** A file edited outside the overlay after the overlay recorded it. */
+export interface OverlayConflict {
+  path: string;
+  /** Digest recorded with the overlay operation; null if the file was absent. */
+  recordedDigest: string | null;
+  /** Digest of the file on disk now; null if it has been deleted. */
+  currentDigest: string | null;
+}
+
+/**
+ * - `keep-overlay`: the merged graph keeps the overlay's nodes for the file.
+ * - `take-disk`: the overlay's operations for the file are dropped in favour of disk.
+ * - `re-record`: the file is re-recorded from disk into the overlay before merging.
+ */
+export type OverlayConflictResolution = 'keep-overlay' | 'take-disk' | 're-record';
@@ -1,12 +1,26 @@
 #!/usr/bin/env node
+import * as fs from 'fs/promises';
+import * as path from 'path';
 import React from 'react';
 import { render } from 'ink';
 import { App } from './ui/app.js';
 import { program } from 'commander';
-import { GraphManager } from './graph/GraphManager.js';
+import ora from 'ora';
+import { GraphManager, type LeftoverOverlay } from './graph/GraphManager.js';
 import { createGraphStore } from './graph/store/factory.js';
+import { destroyProvisionedNeo4j } from './graph/store/provisioning.js';
+import { SourceFileScanner, type SkippedPath } from './graph/SourceFileScanner.js';
+import { GraphAnalytics, type GraphAnalysis } from './graph/GraphAnalytics.js';
+import { GraphExporter, EXPORT_FORMATS, type ExportFormat } from './graph/GraphExporter.js';
+import { ImpactAnalyzer, formatImpactReport, type ImpactReport } from './graph/ImpactAnalyzer.js';
+import { GitIntegration, type ChangedFile } from './files/GitIntegration.js';
+import type { GraphEdge, GraphNode, GraphView } from './graph/CodeGraph.js';
+import { parseGraphQuery, parseNodeSelector } from './graph/query/GraphQueryParser.js';
+import { GraphQueryEngine, selectNodes } from './graph/query/GraphQueryEngine.js';
+import { formatQueryTable, queryResultToJson } from './graph/query/formatQueryResult.js';
 import { loadConfig, initConfig } from './config/settings.js';
 import { AuthManager } from './auth/AuthManager.js';
+import { UserFacingError, isUserFacingError } from './utils/errors.js';
 import { SUPPORTED_MODELS, getModel } from './config/models.js';
 
 
@@ -43,7 +57,6 @@ async function main() {
         await initConfig({ defaultModel: resolvedModel });
       }
 
-      let graphStoreConfig = { kind: 'memory' as const };
       if (!offline) {
         try {
           const session = await authManager.ensureAuthenticated();
@@ -60,20 +73,58 @@ async function main() {
         console.warn('Running in offline mode with no API key; responses will be simulated.');
       }
 
-      console.log('Preparing code graph...');
-      const store = await createGraphStore(graphStoreConfig);
+      const spinner = ora('Preparing code graph...').start();
+      const store = await createGraphStore(config.graphStore);
       const manager = new GraphManager({
         rootDir: process.cwd(),
         store,
+        indexing: config.indexing,
+        onBuildProgress: ({ phase, completed, total }) => {
+          spinner.text = phase === 'parse'
+            ? `Indexed ${completed.toLocaleString()}/${total.toLocaleString()} files`
+            : `Embedded ${completed.toLocaleString()}/${total.toLocaleString()} symbols`;
+        },
       });
-      const { graph, source } = await manager.initialize(Boolean(options.rebuild));
-      const nodeCount = graph.getAllNodes().length;
+      let initialized;
+      try {
+        initialized = await manager.initialize(Boolean(options.rebuild));
+      } catch (error) {
+        spinner.fail('Failed to prepare code graph');
+        throw error;
+      }
+      const { graph: baseGraph, source, leftoverOverlays } = initialized;
+      const nodeCount = baseGraph.getAllNodes().length;
 
       if (source === 'store') {
-        console.log(`Loaded cached graph with ${nodeCount} code symbols.`);
+        const refreshed = initialized.refreshedFiles > 0
+          ? ` (re-indexed ${initialized.refreshedFiles} file(s) changed since it was saved)`
+          : '';
+        spinner.succeed(`Loaded cached graph with ${nodeCount} code symbols${refreshed}.`);
       } else {
-        console.log(`Indexed ${nodeCount} code symbols from source files.`);
+        spinner.succeed(`Indexed ${nodeCount} code symbols from source files.`);
+      }
+
+      if (leftoverOverlays.length > 0) {
+        const resume = await confirmOverlayResume(leftoverOverlays);
+        for (const overlay of leftoverOverlays) {
+          try {
+            if (resume) {
+              await manager.resumeOverlay(overlay.id);
+            } else {
+              await manager.discardPersistedOverlay(overlay.id);
+            }
+          } catch (error) {
+            console.warn(
+              `Skipped overlay "${overlay.name}":`,
+              error instanceof Error ? error.message : String(error)
+            );
+          }
+        }
+        if (resume) {
+          console.log(`Resumed ${leftoverOverlays.length} overlay(s); active: ${manager.getActiveOverlayName()}.`);
+        }
       }
+      const graph = manager.getGraph();
       console.log('Starting interactive session...\n');
 
       render(
@@ -90,6 +141,190 @@ async function main() {
 
     });
 
+  program
+    .command('index')
+    .description('Rebuild the code graph for the current directory')
+    .option('--dry-run', 'List the files that would be indexed without building')
+    .action(async (options) => {
+      const config = await loadConfig();
+
+      if (options.dryRun) {
+        const scanner = new SourceFileScanner(process.cwd(), config.indexing);
+        const { files, skipped } = await scanner.scan();
+        console.log(`Would index ${files.length} file(s):`);
+        for (const file of files) {
+          console.log(`  ${file}`);
+        }
+        if (skipped.length > 0) {
+          console.log(`\nSkipped ${skipped.length} path(s):`);
+          for (const entry of skipped) {
+            console.log(`  ${describeSkipped(entry)}`);
+          }
+        }
+        return;
+      }
+
+      const spinner = ora('Indexing source files...').start();
+      const store = await createGraphStore(config.graphStore);
+      const manager = new GraphManager({
+        rootDir: process.cwd(),
+        store,
+        indexing: config.indexing,
+        onBuildProgress: ({ phase, completed, total }) => {
+          spinner.text = phase === 'parse'
+            ? `Indexed ${completed.toLocaleString()}/${total.toLocaleString()} files`
+            : `Embedded ${completed.toLocaleString()}/${total.toLocaleString()} symbols`;
+        },
+      });
+      try {
+        const { graph } = await manager.initialize(true);
+        spinner.succeed(`Indexed ${graph.getAllNodes().length} code symbols from source files.`);
+      } catch (error) {
+        spinner.fail('Failed to index source files');
+        throw error;
+      } finally {
+        await store.close?.();
+      }
+    });
+
+  const graphCommand = program
+    .command('graph')
+    .description('Inspect the code graph');
+
+  graphCommand
+    .command('analyze')
+    .description('Report import cycles, hotspots, central symbols and orphan files')
+    .option('-n, --limit <count>', 'Hotspots and central symbols to list', '15')
+    .option('--snapshot <id>', 'Analyze an earlier stored snapshot (see codeflow graph snapshots)')
+    .option('--json', 'Print the analysis as JSON')
+    .action(async (options) => {
+      try {
+        const graph = await loadGraph(options.snapshot);
+        const limit = Math.max(1, Number.parseInt(options.limit, 10) || 15);
+        const analysis = new GraphAnalytics(graph).analyze(limit);
+        if (options.json) {
+          console.log(JSON.stringify(summarizeAnalysis(graph, analysis, limit), null, 2));
+        } else {
+          printAnalysis(graph, analysis, limit);
+        }
+      } catch (error) {
+        if (!isUserFacingError(error)) throw error;
+        console.error(error.message);
+        process.exitCode = 1;
+      }
+    });
+
+  graphCommand
+    .command('snapshots')
+    .description('List the graph snapshots the store has kept, newest first')
+    .option('--json', 'Print the snapshots as JSON')
+    .action(async (options) => {
+      const config = await loadConfig();
+      const store = await createGraphStore(config.graphStore);
+      try {
+        const snapshots = await store.listSnapshots();
+        if (options.json) {
+          console.log(JSON.stringify(snapshots, null, 2));
+        } else if (snapshots.length === 0) {
+          console.log('No stored snapshots; run codeflow index first.');
+        } else {
+          for (const snapshot of snapshots) {
+            const active = snapshot.supersededAt === null ? '  (active)' : '';
+            console.log(
+              `${snapshot.id}  ${new Date(snapshot.createdAt).toISOString()}  ${snapshot.nodeCount} nodes, ${snapshot.edgeCount} edges${active}`
+            );
+          }
+        }
+      } finally {
+        await store.close?.();
+      }
+    });
+
+  graphCommand
+    .command('export')
+    .description('Export the graph, or a filtered part of it, for diagrams')
+    .option('-f, --format <format>', `Output format: ${EXPORT_FORMATS.join(', ')}`, 'dot')
+    .option('-o, --output <file>', 'Write to a file instead of stdout')
+    .option('--path <globs>', 'Comma-separated path globs to keep, e.g. "src/graph,!**/*.test.ts"')
+    .option('--node-types <types>', 'Comma-separated node types to keep, e.g. file,class')
+    .option('--edge-types <types>', 'Comma-separated edge types to keep and walk, e.g. imports,calls')
+    .option('--around <selector>', 'Only nodes near this one, e.g. fn:buildContextForChange or file:src/cli.ts')
+    .option('-d, --depth <hops>', 'Hops to walk from --around', '1')
+    .option('--snapshot <id>', 'Export an earlier stored snapshot (see codeflow graph snapshots)')
+    .action(async (options) => {
+      try {
+        const format = String(options.format).toLowerCase() as ExportFormat;
+        if (!EXPORT_FORMATS.includes(format)) {
+          throw new UserFacingError(`Unknown export format "${options.format}" (expected one of ${EXPORT_FORMATS.join(', ')})`);
+        }
+        const graph = await loadGraph(options.snapshot);
+        const around = options.around
+          ? selectNodes(graph, [parseNodeSelector(options.around)]).map(node => node.id)
+          : undefined;
+        const output = new GraphExporter(graph).export(format, {
+          paths: splitList(options.path),
+          nodeTypes: splitList(options.nodeTypes) as GraphNode['type'][] | undefined,
+          edgeTypes: splitList(options.edgeTypes) as GraphEdge['type'][] | undefined,
+          around,
+          depth: Math.max(0, Number.parseInt(options.depth, 10) || 0),
+        });
+        if (options.output) {
+          await fs.writeFile(options.output, `${output}\n`, 'utf-8');
+          console.error(`Wrote ${format} export to ${options.output}`);
+        } else {
+          console.log(output);
+        }
+      } catch (error) {
+        if (!isUserFacingError(error)) throw error;
+        console.error(error.message);
+        process.exitCode = 1;
+      }
+    });
+
+  program
+    .command('impact')
+    .description('List the symbols and tests affected by changed files or a git range')
+    .argument('[files...]', 'Changed files; defaults to what git reports as changed')
+    .option('--since <ref>', 'Diff against this ref or range instead of HEAD, e.g. main or main...HEAD')
+    .option('-d, --depth <hops>', 'Only follow dependents this many hops out')
+    .option('--json', 'Print the report as JSON')
+    .action(async (files: string[], options) => {
+      try {
+        const graph = await loadGraph();
+        const analyzer = new ImpactAnalyzer(graph, new GitIntegration(process.cwd()));
+        const impactOptions = {
+          maxDepth: options.depth ? Math.max(1, Number.parseInt(options.depth, 10) || 1) : undefined,
+        };
+        const report =
+          files.length > 0
+            ? analyzer.analyze(files.map(toChangedFile), impactOptions)
+            : await analyzer.analyzeSince(options.since, impactOptions);
+        console.log(options.json ? JSON.stringify(summarizeImpact(report), null, 2) : formatImpactReport(report));
+      } catch (error) {
+        if (!isUserFacingError(error)) throw error;
+        console.error(error.message);
+        process.exitCode = 1;
+      }
+    });
+
+  program
+    .command('query')
+    .description('Run a graph query, e.g. callers(fn:buildContextForChange) depth 2 where path ~ "src/ui"')
+    .argument('<query...>', 'Query to run; quote it to keep the shell off parentheses')
+    .option('--snapshot <id>', 'Query an earlier stored snapshot (see codeflow graph snapshots)')
+    .option('--json', 'Print the result as JSON')
+    .action(async (words: string[], options) => {
+      try {
+        const query = parseGraphQuery(words.join(' '));
+        const result = new GraphQueryEngine(await loadGraph(options.snapshot)).run(query);
+        console.log(options.json ? JSON.stringify(queryResultToJson(result), null, 2) : formatQueryTable(result));
+      } catch (error) {
+        if (!isUserFacingError(error)) throw error;
+        console.error(error.message);
+        process.exitCode = 1;
+      }
+    });
+
   program
     .command('login')
     .description('Authenticate with CodeFlow')
@@ -117,6 +352,7 @@ async function main() {
       
       const authManager = new AuthManager();
       await authManager.logout();
+      await destroyProvisionedNeo4j(config.graphStore);
       console.log('Logged out of CodeFlow and cleaned up resources.');
     });
 
@@ -145,6 +381,150 @@ main().catch((error) => {
   process.exit(1);
 });
 
+function describeSkipped(entry: SkippedPath): string {
+  const label = entry.directory ? `${entry.path}/` : entry.path;
+  switch (entry.reason) {
+    case 'ignored':
+      return `${label} (ignored by ${entry.detail})`;
+    case 'excluded':
+      return `${label} (excluded in config)`;
+    case 'not-included':
+      return `${label} (not matched by include)`;
+    case 'too-large':
+      return `${label} (too large: ${Number(entry.detail).toLocaleString()} bytes)`;
+    case 'binary':
+      return `${label} (binary)`;
+  }
+}
+
+function splitList(value: string | undefined): string[] | undefined {
+  const items = value?.split(',').map(item => item.trim()).filter(Boolean);
+  return items && items.length > 0 ? items : undefined;
+}
+
+/** A file named on the command line counts as changed throughout. */
+function toChangedFile(file: string): ChangedFile {
+  const relative = path.relative(process.cwd(), path.resolve(file)).split(path.sep).join('/');
+  return { path: relative, status: 'modified', ranges: [] };
+}
+
+function summarizeImpact(report: ImpactReport) {
+  const describe = (node: GraphNode) => ({
+    id: node.id,
+    type: node.type,
+    name: node.name,
+    path: node.path,
+    line: node.startLine,
+  });
+  return {
+    changed: report.changed.map(describe),
+    files: report.byFile.map(file => ({
+      path: file.path,
+      dependents: file.nodes.map(({ node, distance, via }) => ({ ...describe(node), distance, via: via?.type })),
+    })),
+    tests: report.tests.map(describe),
+    unindexed: report.unindexed,
+  };
+}
+
+/** Loads the cached graph, building it first when there is none, or an earlier stored snapshot. */
+async function loadGraph(snapshotId?: string): Promise<GraphView> {
+  const config = await loadConfig();
+  const spinner = ora({ text: 'Loading code graph...', stream: process.stderr }).start();
+  const store = await createGraphStore(config.graphStore);
+  const manager = new GraphManager({ rootDir: process.cwd(), store, indexing: config.indexing });
+  try {
+    const graph = snapshotId ? await manager.loadSnapshot(snapshotId) : (await manager.initialize(false)).graph;
+    spinner.succeed(`Loaded graph with ${graph.getAllNodes().length} nodes.`);
+    return graph;
+  } catch (error) {
+    spinner.fail('Failed to load code graph');
+    throw error;
+  } finally {
+    // An open Neo4j driver would keep the process alive after the command prints.
+    await store.close?.();
+  }
+}
+
+function describeNode(node: GraphNode): string {
+  return node.type === 'file' ? node.path : `${node.type} ${node.name} (${node.path}:${node.startLine})`;
+}
+
+function mostCentral(graph: GraphView, analysis: GraphAnalysis, limit: number): GraphNode[] {
+  return Array.from(analysis.centrality)
+    .sort((a, b) => b[1] - a[1])
+    .map(([id]) => graph.getNode(id))
+    .filter((node): node is GraphNode => Boolean(node && node.type !== 'package'))
+    .slice(0, limit);
+}
+
+function summarizeAnalysis(graph: GraphView, analysis: GraphAnalysis, limit: number) {
+  return {
+    cycles: analysis.cycles.map(cycle => cycle.map(node => node.path)),
+    hotspots: analysis.hotspots.map(({ node, fanIn, fanOut }) => ({
+      type: node.type,
+      name: node.name,
+      path: node.path,
+      line: node.startLine,
+      fanIn,
+      fanOut,
+    })),
+    central: mostCentral(graph, analysis, limit).map(node => ({
+      type: node.type,
+      name: node.name,
+      path: node.path,
+      centrality: analysis.centrality.get(node.id),
+    })),
+    orphans: analysis.orphans.map(node => node.path),
+  };
+}
+
+function printAnalysis(graph: GraphView, analysis: GraphAnalysis, limit: number): void {
+  console.log(`\nImport cycles (${analysis.cycles.length})`);
+  analysis.cycles.forEach((cycle, index) => {
+    console.log(`  ${index + 1}. ${cycle.map(node => node.path).join(' <-> ')}`);
+  });
+
+  console.log('\nHotspots (fan-in / fan-out)');
+  for (const { node, fanIn, fanOut } of analysis.hotspots) {
+    console.log(`  ${String(fanIn).padStart(4)} / ${String(fanOut).padEnd(4)} ${describeNode(node)}`);
+  }
+
+  console.log('\nMost central');
+  for (const node of mostCentral(graph, analysis, limit)) {
+    console.log(`  ${(analysis.centrality.get(node.id) ?? 0).toFixed(3)} ${describeNode(node)}`);
+  }
+
+  console.log(`\nOrphan files (${analysis.orphans.length})`);
+  for (const node of analysis.orphans) {
+    console.log(`  ${node.path}`);
+  }
+  console.log('');
+}
+
+async function confirmOverlayResume(overlays: LeftoverOverlay[]): Promise<boolean> {
+  const { default: inquirer } = await import('inquirer');
+  const described = overlays.map(overlay => {
+    const files = overlay.modifiedPaths.join(', ') || 'no files';
+    const stale = overlay.baseMatches ? '' : ', graph changed since';
+    return `${overlay.name} from ${new Date(overlay.savedAt).toLocaleString()} (${files}${stale})`;
+  });
+  const staleNote = overlays.every(overlay => overlay.baseMatches)
+    ? ''
+    : ' Overlays recorded against an older graph will be re-indexed from disk.';
+
+  const { resume } = await inquirer.prompt<{ resume: boolean }>([
+    {
+      type: 'confirm',
+      name: 'resume',
+      message: `Found unmerged graph edits: ${described.join('; ')}.${staleNote} Resume them?`,
+      default: true,
+    },
+  ]);
+
+  return resume;
+}
+
 async function resolveModel(cliModel: string | undefined, defaultModel: string | undefined): Promise<string> {
   if (cliModel) {
     return cliModel;
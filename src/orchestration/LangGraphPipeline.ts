@@ -1,6 +1,6 @@
 ﻿import type { Logger } from '../utils/logger.js';
 import { logger as baseLogger } from '../utils/logger.js';
-import type { CodeGraph } from '../graph/CodeGraph.js';
+import type { GraphView } from '../graph/CodeGraph.js';
 import type { InitializeResult } from '../graph/GraphManager.js';
 import type { TargetResolver, TargetResolution } from '../retrieval/TargetResolver.js';
 import type {
@@ -13,7 +13,7 @@ import type { EvaluationAgent } from './EvaluationAgent.js';
 import type { EvaluationDecision, GroundTruth } from './EvaluationAgent.js';
 
 export interface GraphManagerLike {
-  getGraph(): CodeGraph;
+  getGraph(): GraphView;
   initialize(forceRebuild?: boolean): Promise<InitializeResult>;
 }
 
@@ -27,7 +27,7 @@ export interface RetrievalComponents {
 }
 
 export type RetrievalComponentFactory = (
-  graph: CodeGraph,
+  graph: GraphView,
   options: RetrievalComponentOptions
 ) => Promise<RetrievalComponents>;
 
@@ -250,7 +250,7 @@ export class LangGraphPipeline {
     };
   }
 
-  private async ensureGraph(trace: LangGraphTrace): Promise<CodeGraph> {
+  private async ensureGraph(trace: LangGraphTrace): Promise<GraphView> {
     return trace.record(
       'graph.load',
       async () => {
@@ -0,0 +1,479 @@
+import type { SupportedLanguage } from './LanguageRegistry.js';
+
+export type DocumentEntryType = 'config_key' | 'doc_section' | 'sql_statement';
+
+export interface DocumentEntry {
+  type: DocumentEntryType;
+  /** Dotted key path, heading text, or the object a statement acts on. */
+  name: string;
+  /** Unique within the file: the key path, the heading anchor, or `name@line` for statements. */
+  key: string;
+  content: string;
+  startLine: number;
+  endLine: number;
+  /** `key` of the enclosing object or section. */
+  parentKey?: string;
+  metadata: Record<string, unknown>;
+}
+
+// Lock files and generated manifests can hold thousands of keys; the first ones are enough.
+const MAX_ENTRIES = 500;
+const MAX_CONFIG_DEPTH = 6;
+const MAX_VALUE_LENGTH = 120;
+
+const DOCUMENT_LANGUAGES = new Set<SupportedLanguage>(['json', 'yaml', 'markdown', 'sql']);
+
+/**
+ * Pulls lightweight entries out of files that have no tree-sitter grammar: keys of
+ * JSON (comments and trailing commas allowed) and YAML mappings, Markdown sections
+ * under ATX headings, and statements in SQL scripts. Arrays and YAML sequences are
+ * kept whole inside their key rather than indexed item by item.
+ */
+export class DocumentExtractor {
+  supports(language: SupportedLanguage): boolean {
+    return DOCUMENT_LANGUAGES.has(language);
+  }
+
+  extract(content: string, language: SupportedLanguage): DocumentEntry[] {
+    switch (language) {
+      case 'json':
+        return extractJsonKeys(content);
+      case 'yaml':
+        return extractYamlKeys(content);
+      case 'markdown':
+        return extractMarkdownSections(content);
+      case 'sql':
+        return extractSqlStatements(content);
+      default:
+        return [];
+    }
+  }
+}
+
+/** Slugs a heading the way GitHub builds its anchors. */
+export function headingAnchor(heading: string): string {
+  return heading
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .trim()
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s_-]/gu, '')
+    .replace(/\s/g, '-');
+}
+
+function lineOffsets(content: string): number[] {
+  const offsets = [0];
+  for (let index = 0; index < content.length; index++) {
+    if (content[index] === '\n') offsets.push(index + 1);
+  }
+  return offsets;
+}
+
+function lineAt(offsets: number[], index: number): number {
+  let low = 0;
+  let high = offsets.length - 1;
+  while (low < high) {
+    const mid = (low + high + 1) >> 1;
+    if (offsets[mid] <= index) low = mid;
+    else high = mid - 1;
+  }
+  return low + 1;
+}
+
+function summarizeValue(raw: string): string {
+  const flat = raw.replace(/\s+/g, ' ').trim();
+  return flat.length > MAX_VALUE_LENGTH ? `${flat.slice(0, MAX_VALUE_LENGTH)}...` : flat;
+}
+
+class JsonSyntaxError extends Error {}
+
+function extractJsonKeys(content: string): DocumentEntry[] {
+  const offsets = lineOffsets(content);
+  const entries: DocumentEntry[] = [];
+  let index = 0;
+
+  const fail = (): never => {
+    throw new JsonSyntaxError(`Unexpected input at line ${lineAt(offsets, index)}`);
+  };
+
+  const skipTrivia = () => {
+    while (index < content.length) {
+      const char = content[index];
+      if (/\s/.test(char)) {
+        index++;
+      } else if (content.startsWith('//', index)) {
+        const end = content.indexOf('\n', index);
+        index = end === -1 ? content.length : end + 1;
+      } else if (content.startsWith('/*', index)) {
+        const end = content.indexOf('*/', index + 2);
+        index = end === -1 ? content.length : end + 2;
+      } else {
+        return;
+      }
+    }
+  };
+
+  const readString = (): string => {
+    const start = index;
+    index++;
+    while (index < content.length && content[index] !== '"') {
+      index += content[index] === '\\' ? 2 : 1;
+    }
+    if (index >= content.length) fail();
+    index++;
+    return JSON.parse(content.slice(start, index)) as string;
+  };
+
+  const skipScalar = () => {
+    const match = /^(?:-?[\d.eE+-]+|true|false|null)/.exec(content.slice(index, index + 64));
+    if (!match) fail();
+    index += match![0].length;
+  };
+
+  const readValue = (keyPath: string[], depth: number) => {
+    skipTrivia();
+    const char = content[index];
+    if (char === '{') {
+      readObject(keyPath, depth);
+    } else if (char === '[') {
+      readArray(depth);
+    } else if (char === '"') {
+      readString();
+    } else {
+      skipScalar();
+    }
+  };
+
+  const readArray = (depth: number) => {
+    index++;
+    skipTrivia();
+    while (content[index] !== ']') {
+      // Keys inside array items have no stable path, so items are walked but not indexed.
+      readValue([], depth + MAX_CONFIG_DEPTH);
+      skipTrivia();
+      if (content[index] === ',') {
+        index++;
+        skipTrivia();
+      } else if (content[index] !== ']') {
+        fail();
+      }
+    }
+    index++;
+  };
+
+  const readObject = (keyPath: string[], depth: number) => {
+    index++;
+    skipTrivia();
+    while (content[index] !== '}') {
+      if (content[index] !== '"') fail();
+      const keyStart = index;
+      const key = readString();
+      skipTrivia();
+      if (content[index] !== ':') fail();
+      index++;
+      skipTrivia();
+
+      const valueStart = index;
+      const childPath = [...keyPath, key];
+      const record = depth < MAX_CONFIG_DEPTH && entries.length < MAX_ENTRIES;
+      const entry = record ? pushConfigEntry(entries, childPath, content[valueStart] === '{') : null;
+      readValue(record ? childPath : [], record ? depth + 1 : depth + MAX_CONFIG_DEPTH);
+      if (entry) {
+        entry.content = content.slice(keyStart, index);
+        entry.startLine = lineAt(offsets, keyStart);
+        entry.endLine = lineAt(offsets, index - 1);
+        if (content[valueStart] === '"') {
+          entry.metadata.value = summarizeValue(JSON.parse(content.slice(valueStart, index)) as string);
+        } else if (content[valueStart] !== '{') {
+          entry.metadata.value = summarizeValue(content.slice(valueStart, index));
+        }
+      }
+
+      skipTrivia();
+      if (content[index] === ',') {
+        index++;
+        skipTrivia();
+      } else if (content[index] !== '}') {
+        fail();
+      }
+    }
+    index++;
+  };
+
+  try {
+    skipTrivia();
+    if (content[index] !== '{') {
+      return [];
+    }
+    readObject([], 0);
+  } catch (error) {
+    if (error instanceof JsonSyntaxError || error instanceof SyntaxError) {
+      return [];
+    }
+    throw error;
+  }
+  return entries;
+}
+
+function pushConfigEntry(entries: DocumentEntry[], keyPath: string[], isObject: boolean): DocumentEntry {
+  const key = keyPath.join('.');
+  const entry: DocumentEntry = {
+    type: 'config_key',
+    name: key,
+    key,
+    content: '',
+    startLine: 0,
+    endLine: 0,
+    metadata: { object: isObject },
+  };
+  if (keyPath.length > 1) {
+    entry.parentKey = keyPath.slice(0, -1).join('.');
+  }
+  entries.push(entry);
+  return entry;
+}
+
+const YAML_KEY = /^(\s*)(?:"([^"]+)"|'([^']+)'|([^\s#'"\-?:][^:#]*?|-[^\s:#][^:#]*?))\s*:(?:\s+(.*))?$/;
+const YAML_SEQUENCE_ITEM = /^(\s*)-(?:\s|$)/;
+const YAML_BLOCK_SCALAR = /^[|>][+-]?\d*\s*(?:#.*)?$/;
+
+/** Line-based: mapping keys by indentation, skipping block scalars and sequences. */
+function extractYamlKeys(content: string): DocumentEntry[] {
+  const lines = content.split(/\r?\n/);
+  const entries: DocumentEntry[] = [];
+  let stack: Array<{ indent: number; path: string[]; entry: DocumentEntry | null }> = [];
+  let skipDeeperThan: number | null = null;
+  let lastContentLine = 0;
+
+  const close = (indent: number) => {
+    while (stack.length > 0 && stack[stack.length - 1].indent >= indent) {
+      const closed = stack.pop()!;
+      if (closed.entry) {
+        closed.entry.endLine = Math.max(closed.entry.startLine, lastContentLine);
+        closed.entry.content = lines.slice(closed.entry.startLine - 1, closed.entry.endLine).join('\n');
+      }
+    }
+  };
+
+  lines.forEach((line, lineIndex) => {
+    const lineNumber = lineIndex + 1;
+    const trimmed = line.trim();
+    if (!trimmed || trimmed.startsWith('#')) {
+      return;
+    }
+    if (/^(---|\.\.\.)(\s|$)/.test(line)) {
+      close(0);
+      stack = [];
+      skipDeeperThan = null;
+      lastContentLine = lineNumber;
+      return;
+    }
+
+    const indent = line.length - line.trimStart().length;
+    if (skipDeeperThan !== null && indent > skipDeeperThan) {
+      lastContentLine = lineNumber;
+      return;
+    }
+    skipDeeperThan = null;
+
+    // A sequence belongs to the key above it, which may sit at the same indent.
+    if (YAML_SEQUENCE_ITEM.test(line)) {
+      close(indent + 1);
+      skipDeeperThan = indent;
+      lastContentLine = lineNumber;
+      return;
+    }
+
+    const match = YAML_KEY.exec(line);
+    close(indent);
+    lastContentLine = lineNumber;
+    if (!match) {
+      return;
+    }
+
+    const key = (match[2] ?? match[3] ?? match[4]).trim();
+    const value = (match[5] ?? '').replace(/\s+#.*$/, '').trim();
+    const parent = stack[stack.length - 1];
+    const keyPath = [...(parent?.path ?? []), key];
+    const recordable =
+      keyPath.length <= MAX_CONFIG_DEPTH && entries.length < MAX_ENTRIES && (!parent || parent.entry !== null);
+
+    let entry: DocumentEntry | null = null;
+    if (recordable) {
+      entry = pushConfigEntry(entries, keyPath, value === '');
+      entry.startLine = lineNumber;
+      if (value && !YAML_BLOCK_SCALAR.test(value)) {
+        entry.metadata.value = summarizeValue(value.replace(/^(['"])(.*)\1$/, '$2'));
+      }
+    }
+    if (YAML_BLOCK_SCALAR.test(value)) {
+      skipDeeperThan = indent;
+    }
+    stack.push({ indent, path: keyPath, entry });
+  });
+
+  close(0);
+  return entries;
+}
+
+const ATX_HEADING = /^ {0,3}(#{1,6})[ \t]+(.*?)(?:[ \t]+#+)?[ \t]*$/;
+const FENCE = /^ {0,3}(`{3,}|~{3,})/;
+
+/** One entry per ATX heading, spanning up to the next heading of the same or a higher level. */
+function extractMarkdownSections(content: string): DocumentEntry[] {
+  const lines = content.split(/\r?\n/);
+  const entries: DocumentEntry[] = [];
+  const anchorCounts = new Map<string, number>();
+  const open: Array<{ level: number; entry: DocumentEntry }> = [];
+  let fence: string | null = null;
+  let start = 0;
+
+  // YAML front matter is metadata, not prose.
+  if (lines[0] === '---') {
+    const end = lines.indexOf('---', 1);
+    if (end !== -1) start = end + 1;
+  }
+
+  const close = (level: number, endLine: number) => {
+    while (open.length > 0 && open[open.length - 1].level >= level) {
+      const { entry } = open.pop()!;
+      entry.endLine = Math.max(entry.startLine, endLine);
+      entry.content = lines.slice(entry.startLine - 1, entry.endLine).join('\n').trimEnd();
+    }
+  };
+
+  for (let lineIndex = start; lineIndex < lines.length; lineIndex++) {
+    const line = lines[lineIndex];
+    const fenceMatch = FENCE.exec(line);
+    if (fenceMatch) {
+      const marker = fenceMatch[1];
+      if (fence === null) {
+        fence = marker;
+      } else if (marker[0] === fence[0] && marker.length >= fence.length) {
+        fence = null;
+      }
+      continue;
+    }
+    if (fence !== null) continue;
+
+    const heading = ATX_HEADING.exec(line);
+    if (!heading || !heading[2]) continue;
+
+    const level = heading[1].length;
+    close(level, lineIndex);
+    if (entries.length >= MAX_ENTRIES) continue;
+
+    const title = heading[2].trim();
+    const base = headingAnchor(title);
+    const seen = anchorCounts.get(base) ?? 0;
+    anchorCounts.set(base, seen + 1);
+    const anchor = seen === 0 ? base : `${base}-${seen}`;
+
+    const entry: DocumentEntry = {
+      type: 'doc_section',
+      name: title,
+      key: anchor,
+      content: '',
+      startLine: lineIndex + 1,
+      endLine: lineIndex + 1,
+      metadata: { level, anchor },
+    };
+    const parent = open[open.length - 1];
+    if (parent) {
+      entry.parentKey = parent.entry.key;
+    }
+    entries.push(entry);
+    open.push({ level, entry });
+  }
+
+  close(1, lines.length);
+  return entries;
+}
+
+const SQL_OBJECT_STATEMENT =
+  /^(create|alter|drop)\s+(?:or\s+replace\s+)?(?:(?:temp|temporary|unique|materialized|unlogged|global|local)\s+)*(table|view|index|function|procedure|trigger|sequence|type|schema|extension|policy)\s+(?:if\s+(?:not\s+)?exists\s+)?(?:concurrently\s+)?([\w."`[\]]+)/i;
+const SQL_TABLE_STATEMENT =
+  /^(insert\s+into|update|delete\s+from|select\b[\s\S]*?\bfrom|merge\s+into|truncate(?:\s+table)?)\s+([\w."`[\]]+)/i;
+
+/** Splits on `;` outside strings, quoted identifiers, comments and dollar-quoted bodies. */
+function extractSqlStatements(content: string): DocumentEntry[] {
+  const offsets = lineOffsets(content);
+  const entries: DocumentEntry[] = [];
+  let statementStart = 0;
+  let index = 0;
+
+  const flush = (end: number) => {
+    const raw = content.slice(statementStart, end);
+    const leading = /^(?:\s+|--[^\n]*\n?|\/\*[\s\S]*?\*\/)*/.exec(raw)?.[0].length ?? 0;
+    const text = raw.slice(leading).trim();
+    if (text && entries.length < MAX_ENTRIES) {
+      const begin = statementStart + leading;
+      entries.push(describeSqlStatement(text, lineAt(offsets, begin), lineAt(offsets, begin + text.length - 1)));
+    }
+    statementStart = end + 1;
+  };
+
+  while (index < content.length) {
+    const char = content[index];
+    if (char === '-' && content[index + 1] === '-') {
+      const end = content.indexOf('\n', index);
+      index = end === -1 ? content.length : end;
+    } else if (char === '/' && content[index + 1] === '*') {
+      const end = content.indexOf('*/', index + 2);
+      index = end === -1 ? content.length : end + 2;
+    } else if (char === "'" || char === '"' || char === '`') {
+      index++;
+      while (index < content.length && content[index] !== char) {
+        index += content[index] === '\\' ? 2 : 1;
+      }
+      index++;
+    } else if (char === '$') {
+      const tag = /^\$[A-Za-z_]*\$/.exec(content.slice(index, index + 64))?.[0];
+      if (tag) {
+        const end = content.indexOf(tag, index + tag.length);
+        index = end === -1 ? content.length : end + tag.length;
+      } else {
+        index++;
+      }
+    } else if (char === ';') {
+      flush(index);
+      index++;
+    } else {
+      index++;
+    }
+  }
+  flush(content.length);
+  return entries;
+}
+
+function describeSqlStatement(text: string, startLine: number, endLine: number): DocumentEntry {
+  const unquote = (name: string) => name.replace(/["`[\]]/g, '');
+  const objectMatch = SQL_OBJECT_STATEMENT.exec(text);
+  const tableMatch = objectMatch ? null : SQL_TABLE_STATEMENT.exec(text);
+
+  let statement: string;
+  let object: string | undefined;
+  if (objectMatch) {
+    statement = `${objectMatch[1]} ${objectMatch[2]}`.toUpperCase();
+    object = unquote(objectMatch[3]);
+  } else if (tableMatch) {
+    statement = tableMatch[1].split(/\s+/)[0].toUpperCase();
+    object = unquote(tableMatch[2]);
+  } else {
+    statement = (/^\w+/.exec(text)?.[0] ?? 'STATEMENT').toUpperCase();
+  }
+
+  const name = object ?? statement;
+  const metadata: Record<string, unknown> = { statement };
+  if (object) {
+    metadata.object = object;
+  }
+  return {
+    type: 'sql_statement',
+    name,
+    key: `${name}@${startLine}`,
+    content: text,
+    startLine,
+    endLine,
+    metadata,
+  };
+}
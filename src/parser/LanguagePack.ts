@@ -0,0 +1,69 @@
+import fs from 'fs';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+
+export type QueryKind =
+  | 'definitions'
+  | 'imports'
+  | 'calls'
+  | 'inheritance'
+  | 'references'
+  | 'locals'
+  | 'tests';
+
+export const QUERY_KINDS: QueryKind[] = [
+  'definitions',
+  'imports',
+  'calls',
+  'inheritance',
+  'references',
+  'locals',
+  'tests',
+];
+
+/**
+ * Tree-sitter query sources, one per kind. Capture names the extractor understands:
+ * - definitions: `@definition.<kind>[.<keyword>]` on the declaration, where kind is
+ *   function, method, constructor, class, interface, type_alias, enum, constant or variable;
+ *   `@name` on its identifier, `@parent` for an owning type declared elsewhere (Go
+ *   receivers), and `@exported` on declarations visible outside the file.
+ * - imports: `@import` on the import statement.
+ * - calls: `@call` on the call expression, `@name` on the callee identifier and `@receiver`
+ *   on the object of a member call (`this` in `this.save()`).
+ * - inheritance: `@class` on the declaring type and `@extends`/`@implements` on its supertypes.
+ * - references: `@reference` on identifiers that may name a symbol; those already seen as a
+ *   definition name, callee or supertype are skipped.
+ * - locals: `@local.scope` on function bodies and blocks, `@local.definition` on parameters and
+ *   variables bound inside them, so calls through local bindings are not linked to symbols.
+ * - tests: `@test` on a test case or suite (a `describe`/`it` call, a `test_*` function) and
+ *   `@name` on its title; only run for files classified as tests. A test replaces any
+ *   definition of the same node.
+ * Captures starting with `_` are free for predicates and ignored otherwise.
+ */
+export type LanguageQuerySources = Partial<Record<QueryKind, string>>;
+
+export interface LanguagePack {
+  id: string;
+  displayName: string;
+  extensions: string[];
+  /**
+   * tree-sitter Language object. Packs without a grammar are never parsed; the
+   * document extractor indexes json, yaml, markdown and sql files without one.
+   */
+  grammar?: unknown;
+  queries?: LanguageQuerySources;
+  /** Directory of `<kind>.scm` files, read on first use when `queries` is not given. */
+  queryDirectory?: string | URL;
+}
+
+export function loadQueryDirectory(directory: string | URL): LanguageQuerySources {
+  const root = directory instanceof URL ? fileURLToPath(directory) : directory;
+  const sources: LanguageQuerySources = {};
+  for (const kind of QUERY_KINDS) {
+    const file = path.join(root, `${kind}.scm`);
+    if (fs.existsSync(file)) {
+      sources[kind] = fs.readFileSync(file, 'utf8');
+    }
+  }
+  return sources;
+}
@@ -1,35 +1,31 @@
-export type SupportedLanguage =
+import { loadQueryDirectory, type LanguagePack, type LanguageQuerySources } from './LanguagePack.js';
+import { BUILTIN_LANGUAGE_PACKS } from './languages.js';
+
+export type BuiltinLanguage =
   | 'typescript'
   | 'tsx'
   | 'javascript'
   | 'jsx'
   | 'python'
+  | 'go'
+  | 'rust'
+  | 'java'
   | 'json'
-  | 'markdown';
-
-interface LanguageInfo {
-  id: SupportedLanguage;
-  displayName: string;
-  extensions: string[];
-}
+  | 'yaml'
+  | 'markdown'
+  | 'sql';
 
-const DEFAULT_LANGUAGES: LanguageInfo[] = [
-  { id: 'typescript', displayName: 'TypeScript', extensions: ['.ts'] },
-  { id: 'tsx', displayName: 'TypeScript JSX', extensions: ['.tsx'] },
-  { id: 'javascript', displayName: 'JavaScript', extensions: ['.js', '.mjs', '.cjs'] },
-  { id: 'jsx', displayName: 'JavaScript JSX', extensions: ['.jsx'] },
-  { id: 'python', displayName: 'Python', extensions: ['.py'] },
-  { id: 'json', displayName: 'JSON', extensions: ['.json'] },
-  { id: 'markdown', displayName: 'Markdown', extensions: ['.md', '.markdown'] },
-];
+// Packs registered at runtime add their own ids.
+export type SupportedLanguage = BuiltinLanguage | (string & {});
 
 export class LanguageRegistry {
   private static instance: LanguageRegistry | null = null;
-  private readonly languages = new Map<SupportedLanguage, LanguageInfo>();
+  private readonly languages = new Map<SupportedLanguage, LanguagePack>();
   private readonly extensions = new Map<string, SupportedLanguage>();
+  private readonly queryCache = new WeakMap<LanguagePack, LanguageQuerySources>();
 
   private constructor() {
-    DEFAULT_LANGUAGES.forEach(info => this.register(info));
+    BUILTIN_LANGUAGE_PACKS.forEach(pack => this.register(pack));
   }
 
   static getInstance(): LanguageRegistry {
@@ -39,10 +35,20 @@ export class LanguageRegistry {
     return this.instance;
   }
 
-  register(info: LanguageInfo): void {
-    this.languages.set(info.id, info);
-    for (const ext of info.extensions) {
-      this.extensions.set(ext.toLowerCase(), info.id);
+  /** Registers a pack, replacing any pack with the same id or extensions. */
+  register(pack: LanguagePack): void {
+    const previous = this.languages.get(pack.id);
+    if (previous) {
+      for (const ext of previous.extensions) {
+        if (this.extensions.get(ext.toLowerCase()) === pack.id) {
+          this.extensions.delete(ext.toLowerCase());
+        }
+      }
+    }
+
+    this.languages.set(pack.id, pack);
+    for (const ext of pack.extensions) {
+      this.extensions.set(ext.toLowerCase(), pack.id);
     }
   }
 
@@ -55,11 +61,29 @@ export class LanguageRegistry {
     return this.extensions.get(ext) ?? null;
   }
 
-  getLanguageInfo(id: SupportedLanguage): LanguageInfo | undefined {
+  getLanguageInfo(id: SupportedLanguage): LanguagePack | undefined {
     return this.languages.get(id);
   }
 
-  list(): LanguageInfo[] {
+  canParse(id: SupportedLanguage): boolean {
+    return Boolean(this.languages.get(id)?.grammar);
+  }
+
+  getQueries(id: SupportedLanguage): LanguageQuerySources {
+    const pack = this.languages.get(id);
+    if (!pack) {
+      return {};
+    }
+
+    let sources = this.queryCache.get(pack);
+    if (!sources) {
+      sources = pack.queries ?? (pack.queryDirectory ? loadQueryDirectory(pack.queryDirectory) : {});
+      this.queryCache.set(pack, sources);
+    }
+    return sources;
+  }
+
+  list(): LanguagePack[] {
     return Array.from(this.languages.values());
   }
 }
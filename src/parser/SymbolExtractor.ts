@@ -1,7 +1,18 @@
 import Parser from 'tree-sitter';
+import { QUERY_KINDS, type LanguagePack } from './LanguagePack.js';
+import { languageRegistry, type LanguageRegistry } from './LanguageRegistry.js';
 
 export interface ExtractedSymbol {
-  type: 'function' | 'class' | 'import';
+  type:
+    | 'function'
+    | 'class'
+    | 'interface'
+    | 'type_alias'
+    | 'enum'
+    | 'constant'
+    | 'variable'
+    | 'import'
+    | 'test';
   name: string;
   content: string;
   startLine: number;
@@ -19,7 +30,7 @@ export interface ExtractedSymbol {
   signature?: string;
 }
 
-export type ReferenceKind = 'call' | 'extends' | 'implements';
+export type ReferenceKind = 'call' | 'extends' | 'implements' | 'reference';
 
 export interface SymbolReference {
   kind: ReferenceKind;
@@ -27,6 +38,10 @@ export interface SymbolReference {
   sourceEndIndex: number;
   targetName: string;
   targetModule?: string;
+  /** Source text of the object a member call goes through, e.g. `this` or `this.graph`. */
+  receiver?: string;
+  /** The callee names a parameter or variable bound in an enclosing local scope. */
+  local?: boolean;
 }
 
 export interface SymbolGraphData {
@@ -34,155 +49,442 @@ export interface SymbolGraphData {
   references: SymbolReference[];
 }
 
+export interface ExtractionOptions {
+  /** Run the `tests` query, turning test cases and suites into `test` symbols. */
+  tests?: boolean;
+}
+
+// `@definition.<kind>` captures map onto graph symbol types.
+const DEFINITION_TYPES = new Map<string, ExtractedSymbol['type']>([
+  ['function', 'function'],
+  ['method', 'function'],
+  ['constructor', 'function'],
+  ['class', 'class'],
+  ['interface', 'interface'],
+  ['type_alias', 'type_alias'],
+  ['enum', 'enum'],
+  ['constant', 'constant'],
+  ['variable', 'variable'],
+  ['test', 'test'],
+]);
+
+const DECLARATION_KEYWORDS: Partial<Record<ExtractedSymbol['type'], string>> = {
+  class: 'class',
+  interface: 'interface',
+  enum: 'enum',
+};
+
+const MAX_SIGNATURE_LENGTH = 120;
+
+const COMMENT_TYPES = new Set(['comment', 'line_comment', 'block_comment']);
+
+interface CompiledQueries {
+  definitions?: Parser.Query;
+  imports?: Parser.Query;
+  calls?: Parser.Query;
+  inheritance?: Parser.Query;
+  references?: Parser.Query;
+  locals?: Parser.Query;
+  tests?: Parser.Query;
+}
+
+interface LocalBinding {
+  name: string;
+  scope: Parser.SyntaxNode;
+}
+
+interface DefinitionMatch {
+  node: Parser.SyntaxNode;
+  pattern: number;
+  kind: string;
+  keyword?: string;
+  nameNode?: Parser.SyntaxNode;
+  parentName?: string;
+}
+
 export class SymbolExtractor {
-  extractGraphData(tree: Parser.Tree, language: string): SymbolGraphData {
-    const symbols: ExtractedSymbol[] = [];
-    const references: SymbolReference[] = [];
-    const stack: ExtractedSymbol[] = [];
+  private readonly compiled = new WeakMap<LanguagePack, CompiledQueries>();
+
+  constructor(private readonly registry: LanguageRegistry = languageRegistry) {}
+
+  extractGraphData(tree: Parser.Tree, language: string, options: ExtractionOptions = {}): SymbolGraphData {
+    const queries = this.getQueries(language);
+    const root = tree.rootNode;
+
+    const exportedNodes = new Set<number>();
+    // Identifiers already accounted for as a definition name, callee or supertype.
+    const claimed = new Set<number>();
+    let definitions = this.collectDefinitions(root, queries.definitions, exportedNodes, claimed);
+    if (options.tests) {
+      const tests = this.collectTests(root, queries.tests, claimed);
+      const testNodes = new Set(tests.map(test => test.node.id));
+      // Anonymous callbacks handed to a test (`it('adds', () => ...)`) belong to the test.
+      const isTestBody = (definition: DefinitionMatch) =>
+        !definition.nameNode && testNodes.has(definition.node.parent?.parent?.id ?? -1);
+      definitions = [
+        ...definitions.filter(definition => !testNodes.has(definition.node.id) && !isTestBody(definition)),
+        ...tests,
+      ];
+    }
+    const symbols = this.buildSymbols(definitions, this.collectImports(root, queries.imports), exportedNodes);
 
-    const visit = (node: Parser.SyntaxNode) => {
-      let createdSymbol: ExtractedSymbol | null = null;
+    const references: SymbolReference[] = [
+      ...this.collectInheritance(root, queries.inheritance, claimed),
+      ...this.collectCalls(root, queries.calls, symbols, claimed, this.collectLocals(root, queries.locals)),
+    ];
+    references.push(...this.collectUsages(root, queries.references, symbols, claimed));
+    return { symbols, references };
+  }
 
-      if (this.isFunctionNode(node, language)) {
-        createdSymbol = this.extractFunction(node, stack.at(-1) ?? null);
-      } else if (this.isClassNode(node, language)) {
-        createdSymbol = this.extractClass(node, stack.at(-1) ?? null);
-        this.extractInheritanceReferences(node, language).forEach(ref => references.push(ref));
-      } else if (this.isImportNode(node, language)) {
-        createdSymbol = this.extractImport(node);
-      }
+  extractSymbols(tree: Parser.Tree, language: string): ExtractedSymbol[] {
+    return this.extractGraphData(tree, language).symbols;
+  }
 
-      if (createdSymbol) {
-        symbols.push(createdSymbol);
-        stack.push(createdSymbol);
+  private getQueries(language: string): CompiledQueries {
+    const pack = this.registry.getLanguageInfo(language);
+    if (!pack?.grammar) {
+      return {};
+    }
+
+    let compiled = this.compiled.get(pack);
+    if (!compiled) {
+      compiled = {};
+      const sources = this.registry.getQueries(language);
+      for (const kind of QUERY_KINDS) {
+        const source = sources[kind];
+        if (!source?.trim()) continue;
+        try {
+          compiled[kind] = new Parser.Query(pack.grammar, source);
+        } catch (error) {
+          const message = error instanceof Error ? error.message : String(error);
+          throw new Error(`Invalid ${kind} query for language ${pack.id}: ${message}`);
+        }
       }
+      this.compiled.set(pack, compiled);
+    }
+    return compiled;
+  }
 
-      if (stack.length > 0 && this.isCallExpression(node, language)) {
-        const targetName = this.extractCallTarget(node, language);
-        if (targetName) {
-          const current = stack[stack.length - 1];
-          references.push({
-            kind: 'call',
-            sourceStartIndex: current.startIndex,
-            sourceEndIndex: current.endIndex,
-            targetName,
-          });
+  private collectDefinitions(
+    root: Parser.SyntaxNode,
+    query: Parser.Query | undefined,
+    exportedNodes: Set<number>,
+    claimed: Set<number>
+  ): DefinitionMatch[] {
+    const byNode = new Map<number, DefinitionMatch>();
+
+    for (const match of query?.matches(root) ?? []) {
+      let definition: DefinitionMatch | null = null;
+      let nameNode: Parser.SyntaxNode | undefined;
+      let parentName: string | undefined;
+
+      for (const capture of match.captures) {
+        if (capture.name === 'exported') {
+          exportedNodes.add(capture.node.id);
+        } else if (capture.name === 'name') {
+          nameNode = capture.node;
+        } else if (capture.name === 'parent') {
+          parentName = capture.node.text;
+        } else if (capture.name.startsWith('definition.')) {
+          const [, kind, keyword] = capture.name.split('.');
+          definition = { node: capture.node, pattern: match.pattern, kind, keyword };
         }
       }
 
-      for (let i = 0; i < node.namedChildCount; i += 1) {
-        visit(node.namedChild(i)!);
+      if (!definition || !DEFINITION_TYPES.has(definition.kind)) continue;
+      definition.nameNode = nameNode;
+      definition.parentName = parentName;
+
+      // A node matched by several patterns keeps the earliest one.
+      const existing = byNode.get(definition.node.id);
+      if (!existing || definition.pattern < existing.pattern) {
+        byNode.set(definition.node.id, definition);
       }
+      if (nameNode) {
+        claimed.add(nameNode.id);
+      }
+    }
 
-      if (createdSymbol) {
-        stack.pop();
+    // Nodes sharing a name are one declaration seen twice (`const f = () => {}` is
+    // both a constant and a function); the earliest pattern wins again.
+    const byName = new Map<string, DefinitionMatch>();
+    for (const definition of byNode.values()) {
+      const key = definition.nameNode ? `name:${definition.nameNode.id}` : `node:${definition.node.id}`;
+      const existing = byName.get(key);
+      if (!existing || definition.pattern < existing.pattern) {
+        byName.set(key, definition);
       }
-    };
+    }
 
-    visit(tree.rootNode);
-    return { symbols, references };
+    return Array.from(byName.values());
   }
 
-  extractSymbols(tree: Parser.Tree, language: string): ExtractedSymbol[] {
-    return this.extractGraphData(tree, language).symbols;
+  private collectTests(
+    root: Parser.SyntaxNode,
+    query: Parser.Query | undefined,
+    claimed: Set<number>
+  ): DefinitionMatch[] {
+    const byNode = new Map<number, DefinitionMatch>();
+    for (const match of query?.matches(root) ?? []) {
+      const node = match.captures.find(capture => capture.name === 'test')?.node;
+      const nameNode = match.captures.find(capture => capture.name === 'name')?.node;
+      if (!node || byNode.has(node.id)) continue;
+
+      byNode.set(node.id, { node, pattern: match.pattern, kind: 'test', nameNode });
+      for (const capture of match.captures) {
+        if (capture.name !== 'test') {
+          claimed.add(capture.node.id);
+        }
+      }
+    }
+    return Array.from(byNode.values());
   }
 
-  private isFunctionNode(node: Parser.SyntaxNode, language: string): boolean {
-    const functionTypes = {
-      typescript: ['function_declaration', 'method_definition', 'arrow_function'],
-      javascript: ['function_declaration', 'function_expression', 'arrow_function'],
-      python: ['function_definition'],
-    };
+  private collectImports(root: Parser.SyntaxNode, query: Parser.Query | undefined): Parser.SyntaxNode[] {
+    const seen = new Set<number>();
+    const nodes: Parser.SyntaxNode[] = [];
+    for (const capture of query?.captures(root) ?? []) {
+      if (capture.name === 'import' && !seen.has(capture.node.id)) {
+        seen.add(capture.node.id);
+        nodes.push(capture.node);
+      }
+    }
+    return nodes;
+  }
+
+  /** Orders symbols as a pre-order walk and links each to its innermost enclosing symbol. */
+  private buildSymbols(
+    definitions: DefinitionMatch[],
+    imports: Parser.SyntaxNode[],
+    exportedNodes: Set<number>
+  ): ExtractedSymbol[] {
+    const entries = [
+      ...definitions.map(definition => ({ node: definition.node, definition })),
+      ...imports.map(node => ({ node, definition: null })),
+    ].sort((a, b) => a.node.startIndex - b.node.startIndex || b.node.endIndex - a.node.endIndex);
+
+    const symbols: ExtractedSymbol[] = [];
+    const stack: ExtractedSymbol[] = [];
+    for (const { node, definition } of entries) {
+      while (stack.length > 0 && stack[stack.length - 1].endIndex <= node.startIndex) {
+        stack.pop();
+      }
+      const parent = stack.at(-1) ?? null;
 
-    return functionTypes[language as keyof typeof functionTypes]?.includes(node.type) || false;
+      const symbol = definition
+        ? this.extractDefinition(definition, parent, exportedNodes.has(node.id))
+        : this.extractImport(node);
+      symbols.push(symbol);
+      stack.push(symbol);
+    }
+    return symbols;
   }
 
-  private isClassNode(node: Parser.SyntaxNode, language: string): boolean {
-    const classTypes = {
-      typescript: ['class_declaration'],
-      javascript: ['class_declaration'],
-      python: ['class_definition'],
-    };
+  private collectCalls(
+    root: Parser.SyntaxNode,
+    query: Parser.Query | undefined,
+    symbols: ExtractedSymbol[],
+    claimed: Set<number>,
+    locals: LocalBinding[]
+  ): SymbolReference[] {
+    const references = new Map<number, SymbolReference>();
+
+    for (const match of query?.matches(root) ?? []) {
+      const call = match.captures.find(capture => capture.name === 'call')?.node;
+      const nameNode = match.captures.find(capture => capture.name === 'name')?.node;
+      const receiver = match.captures.find(capture => capture.name === 'receiver')?.node.text;
+      const targetName = nameNode?.text;
+      if (!call || !nameNode || !targetName) continue;
+
+      // Several patterns may match one call; keep the first but take a receiver from any.
+      const existing = references.get(call.id);
+      if (existing) {
+        existing.receiver ??= receiver;
+        continue;
+      }
+      claimed.add(nameNode.id);
+
+      const source = this.findEnclosingSymbol(symbols, call);
+      if (!source) continue;
+
+      const reference: SymbolReference = {
+        kind: 'call',
+        sourceStartIndex: source.startIndex,
+        sourceEndIndex: source.endIndex,
+        targetName,
+      };
+      if (receiver) {
+        reference.receiver = receiver;
+      } else if (this.isLocallyBound(targetName, call, locals)) {
+        reference.local = true;
+      }
+      references.set(call.id, reference);
+    }
 
-    return classTypes[language as keyof typeof classTypes]?.includes(node.type) || false;
+    return Array.from(references.values());
   }
 
-  private isImportNode(node: Parser.SyntaxNode, language: string): boolean {
-    const importTypes = {
-      typescript: ['import_statement'],
-      javascript: ['import_statement'],
-      python: ['import_statement', 'import_from_statement'],
-    };
+  private collectLocals(root: Parser.SyntaxNode, query: Parser.Query | undefined): LocalBinding[] {
+    if (!query) {
+      return [];
+    }
 
-    return importTypes[language as keyof typeof importTypes]?.includes(node.type) || false;
+    const scopes = new Set<number>();
+    const definitions: Parser.SyntaxNode[] = [];
+    for (const capture of query.captures(root)) {
+      if (capture.name === 'local.scope') {
+        scopes.add(capture.node.id);
+      } else if (capture.name === 'local.definition') {
+        definitions.push(capture.node);
+      }
+    }
+
+    const bindings: LocalBinding[] = [];
+    for (const definition of definitions) {
+      let scope = definition.parent;
+      while (scope && !scopes.has(scope.id)) {
+        scope = scope.parent;
+      }
+      // Bindings outside every scope are module-level and already graph symbols.
+      if (scope) {
+        bindings.push({ name: definition.text, scope });
+      }
+    }
+    return bindings;
   }
 
-  private isCallExpression(node: Parser.SyntaxNode, language: string): boolean {
-    const callTypes = {
-      typescript: ['call_expression', 'new_expression'],
-      javascript: ['call_expression', 'new_expression'],
-      python: ['call'],
-    };
+  private isLocallyBound(name: string, node: Parser.SyntaxNode, locals: LocalBinding[]): boolean {
+    return locals.some(
+      binding =>
+        binding.name === name &&
+        binding.scope.startIndex <= node.startIndex &&
+        node.endIndex <= binding.scope.endIndex
+    );
+  }
+
+  private collectInheritance(
+    root: Parser.SyntaxNode,
+    query: Parser.Query | undefined,
+    claimed: Set<number>
+  ): SymbolReference[] {
+    const references: SymbolReference[] = [];
+
+    for (const match of query?.matches(root) ?? []) {
+      const declaration = match.captures.find(capture => capture.name === 'class')?.node;
+      if (!declaration) continue;
 
-    return callTypes[language as keyof typeof callTypes]?.includes(node.type) || false;
+      for (const capture of match.captures) {
+        if (capture.name === 'extends' || capture.name === 'implements') {
+          claimed.add(capture.node.id);
+          references.push({
+            kind: capture.name,
+            sourceStartIndex: declaration.startIndex,
+            sourceEndIndex: declaration.endIndex,
+            targetName: capture.node.text,
+          });
+        }
+      }
+    }
+
+    return references;
   }
 
-  private extractFunction(node: Parser.SyntaxNode, parent: ExtractedSymbol | null): ExtractedSymbol {
-    const nameNode = node.childForFieldName('name');
-    const name = nameNode?.text || 'anonymous';
+  /** Identifier usages not already covered by calls or inheritance, once per symbol. */
+  private collectUsages(
+    root: Parser.SyntaxNode,
+    query: Parser.Query | undefined,
+    symbols: ExtractedSymbol[],
+    claimed: Set<number>
+  ): SymbolReference[] {
+    const references: SymbolReference[] = [];
+    const seen = new Set<string>();
 
-    const kind =
-      node.type === 'method_definition'
-        ? 'method'
-        : node.type === 'arrow_function'
-        ? 'arrow_function'
-        : node.type;
+    for (const capture of query?.captures(root) ?? []) {
+      if (capture.name !== 'reference' || claimed.has(capture.node.id)) continue;
 
-    const parameters = this.extractParameters(node);
-    const signature =
-      kind === 'arrow_function' && !nameNode
-        ? `anonymous(${parameters.join(', ')})`
-        : `${name}(${parameters.join(', ')})`;
+      const source = this.findEnclosingSymbol(symbols, capture.node);
+      if (!source || source.type === 'import') continue;
 
-    return {
-      type: 'function',
-      name,
-      content: node.text,
-      startLine: node.startPosition.row + 1,
-      endLine: node.endPosition.row + 1,
-      startIndex: node.startIndex,
-      endIndex: node.endIndex,
-      exported: this.isExported(node),
-      kind,
-      astType: node.type,
-      parentName: parent?.name,
-      parentType: parent?.type,
-      documentation: this.extractDocumentation(node),
-      parameters,
-      signature,
-    };
+      const targetName = capture.node.text;
+      const key = `${source.startIndex}:${source.endIndex}:${targetName}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+
+      references.push({
+        kind: 'reference',
+        sourceStartIndex: source.startIndex,
+        sourceEndIndex: source.endIndex,
+        targetName,
+      });
+    }
+
+    return references;
   }
 
-  private extractClass(node: Parser.SyntaxNode, parent: ExtractedSymbol | null): ExtractedSymbol {
-    const nameNode = node.childForFieldName('name');
-    const name = nameNode?.text || 'Anonymous';
+  private findEnclosingSymbol(symbols: ExtractedSymbol[], node: Parser.SyntaxNode): ExtractedSymbol | null {
+    // Symbols are in pre-order, so the last one containing the node is the innermost.
+    let enclosing: ExtractedSymbol | null = null;
+    for (const symbol of symbols) {
+      if (symbol.startIndex > node.startIndex) break;
+      if (symbol.endIndex >= node.endIndex) {
+        enclosing = symbol;
+      }
+    }
+    return enclosing;
+  }
 
-    return {
-      type: 'class',
-      name,
+  private extractDefinition(
+    definition: DefinitionMatch,
+    parent: ExtractedSymbol | null,
+    exported: boolean
+  ): ExtractedSymbol {
+    const { node, nameNode } = definition;
+    const type = DEFINITION_TYPES.get(definition.kind)!;
+    const owner = definition.parentName ? { name: definition.parentName, type: 'class' as const } : parent;
+
+    const base = {
+      type,
       content: node.text,
       startLine: node.startPosition.row + 1,
       endLine: node.endPosition.row + 1,
       startIndex: node.startIndex,
       endIndex: node.endIndex,
-      exported: this.isExported(node),
-      kind: node.type,
+      exported,
       astType: node.type,
-      parentName: parent?.name,
-      parentType: parent?.type,
+      parentName: owner?.name,
+      parentType: owner?.type,
       documentation: this.extractDocumentation(node),
-      signature: `class ${name}`,
     };
+
+    if (type === 'test') {
+      // Titles may be captured with their template-string backticks.
+      const name = nameNode?.text.replace(/^`|`$/g, '') || 'anonymous test';
+      return { ...base, name, kind: node.type, signature: this.firstLine(node.text) };
+    }
+
+    if (type !== 'function') {
+      const name = nameNode?.text || 'Anonymous';
+      // Type declarations read as `struct Foo`; bindings keep their declaration line.
+      const signature = DECLARATION_KEYWORDS[type]
+        ? `${definition.keyword ?? DECLARATION_KEYWORDS[type]} ${name}`
+        : [definition.keyword, this.firstLine(node.text)].filter(Boolean).join(' ');
+      return { ...base, name, kind: node.type, signature };
+    }
+
+    const name = nameNode?.text || 'anonymous';
+    const kind = definition.kind === 'function' ? node.type : definition.kind;
+    const parameters = this.extractParameters(node);
+    const signature =
+      kind === 'arrow_function' && !nameNode
+        ? `anonymous(${parameters.join(', ')})`
+        : `${name}(${parameters.join(', ')})`;
+
+    return { ...base, name, kind, parameters, signature };
+  }
+
+  private firstLine(text: string): string {
+    const line = text.split(/\r?\n/, 1)[0].trim();
+    return line.length > MAX_SIGNATURE_LENGTH ? `${line.slice(0, MAX_SIGNATURE_LENGTH)}…` : line;
   }
 
   private extractImport(node: Parser.SyntaxNode): ExtractedSymbol {
@@ -201,20 +503,6 @@ export class SymbolExtractor {
     };
   }
 
-  private isExported(node: Parser.SyntaxNode): boolean {
-    let current: Parser.SyntaxNode | null = node;
-    while (current) {
-      if (current.type === 'export_statement' || current.type === 'export_clause') {
-        return true;
-      }
-      if (current.type === 'program' || current.type === 'module') {
-        break;
-      }
-      current = current.parent;
-    }
-    return false;
-  }
-
   private extractParameters(node: Parser.SyntaxNode): string[] {
     const paramsNode =
       node.childForFieldName('parameters') ?? node.childForFieldName('parameter_list');
@@ -234,126 +522,23 @@ export class SymbolExtractor {
       .map(param => param.split(':')[0]?.trim() ?? param);
   }
 
-  private getPrevSibling(node: Parser.SyntaxNode | null): Parser.SyntaxNode | null {
-    if (!node) {
-      return null;
+  private extractDocumentation(node: Parser.SyntaxNode): string | undefined {
+    // Comments sit before the outermost wrapper that starts with the declaration
+    // (`export function`, Go's `type` block).
+    let anchor = node;
+    while (!anchor.previousNamedSibling && anchor.parent?.parent) {
+      anchor = anchor.parent;
     }
-    const candidate = (node as unknown as { prevSibling?: Parser.SyntaxNode | null }).prevSibling;
-    return candidate ?? null;
-  }
 
-  private extractDocumentation(node: Parser.SyntaxNode): string | undefined {
-    let current: Parser.SyntaxNode | null = this.getPrevSibling(node);
+    let current: Parser.SyntaxNode | null = anchor.previousNamedSibling;
     const docs: string[] = [];
 
-    while (current && current.type === 'comment') {
-      docs.unshift(current.text.replace(/^\/\*\*?|\*\/$/g, '').trim());
-      current = this.getPrevSibling(current);
+    while (current && COMMENT_TYPES.has(current.type)) {
+      docs.unshift(current.text.replace(/^\/\*\*?|\*\/$|^\/\/\/?/g, '').trim());
+      current = current.previousNamedSibling;
     }
 
     const documentation = docs.join('\n').trim();
     return documentation.length > 0 ? documentation : undefined;
   }
-
-  private extractCallTarget(node: Parser.SyntaxNode, language: string): string | null {
-    if (node.type === 'call_expression' || node.type === 'new_expression') {
-      const callee =
-        node.childForFieldName('function') ??
-        node.child(0);
-      return this.resolveIdentifier(callee);
-    }
-
-    if (language === 'python' && node.type === 'call') {
-      const callee = node.childForFieldName('function') ?? node.child(0);
-      return this.resolveIdentifier(callee);
-    }
-
-    return null;
-  }
-
-  private resolveIdentifier(node: Parser.SyntaxNode | null): string | null {
-    if (!node) {
-      return null;
-    }
-
-    if (node.type === 'identifier') {
-      return node.text;
-    }
-
-    if (node.type === 'member_expression' || node.type === 'attribute') {
-      const property =
-        node.childForFieldName('property') ??
-        node.child(node.namedChildCount - 1) ??
-        node.lastChild;
-      return property ? property.text : null;
-    }
-
-    if (node.type === 'scoped_identifier') {
-      return node.child(node.namedChildCount - 1)?.text ?? null;
-    }
-
-    if (node.type === 'call_expression') {
-      return this.resolveIdentifier(
-        node.childForFieldName('function') ?? node.child(0)
-      );
-    }
-
-    return null;
-  }
-
-  private extractInheritanceReferences(
-    node: Parser.SyntaxNode,
-    language: string
-  ): SymbolReference[] {
-    const references: SymbolReference[] = [];
-    const text = node.text;
-
-    if (language === 'typescript' || language === 'javascript') {
-      const extendsMatch = text.match(/extends\s+([A-Za-z0-9_]+)/);
-      if (extendsMatch) {
-        references.push({
-          kind: 'extends',
-          sourceStartIndex: node.startIndex,
-          sourceEndIndex: node.endIndex,
-          targetName: extendsMatch[1],
-        });
-      }
-
-      const implementsMatch = text.match(/implements\s+([A-Za-z0-9_,\s]+)/);
-      if (implementsMatch) {
-        implementsMatch[1]
-          .split(',')
-          .map(name => name.trim())
-          .filter(Boolean)
-          .forEach(name => {
-            references.push({
-              kind: 'implements',
-              sourceStartIndex: node.startIndex,
-              sourceEndIndex: node.endIndex,
-              targetName: name,
-            });
-          });
-      }
-    }
-
-    if (language === 'python') {
-      const extendsMatch = text.match(/\(([^)]+)\)/);
-      if (extendsMatch) {
-        extendsMatch[1]
-          .split(',')
-          .map(name => name.trim())
-          .filter(Boolean)
-          .forEach(name => {
-            references.push({
-              kind: 'extends',
-              sourceStartIndex: node.startIndex,
-              sourceEndIndex: node.endIndex,
-              targetName: name,
-            });
-          });
-      }
-    }
-
-    return references;
-  }
 }
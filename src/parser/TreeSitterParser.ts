@@ -1,45 +1,14 @@
 import Parser from 'tree-sitter';
-import TypeScript from 'tree-sitter-typescript';
-import JavaScript from 'tree-sitter-javascript';
-import Python from 'tree-sitter-python';
+import { languageRegistry, type LanguageRegistry } from './LanguageRegistry.js';
 
 export class TreeSitterParser {
-  private parsers: Map<string, Parser> = new Map();
+  // Keyed by grammar so dialects sharing one (js/jsx) share a parser.
+  private parsers: Map<unknown, Parser> = new Map();
 
-  constructor() {
-    this.initializeParsers();
-  }
-
-  private initializeParsers(): void {
-    // TypeScript
-    const tsParser = new Parser();
-    tsParser.setLanguage(TypeScript.typescript);
-    this.parsers.set('typescript', tsParser);
-
-    // TSX
-    const tsxParser = new Parser();
-    tsxParser.setLanguage(TypeScript.tsx);
-    this.parsers.set('tsx', tsxParser);
-
-    // JavaScript
-    const jsParser = new Parser();
-    jsParser.setLanguage(JavaScript);
-    this.parsers.set('javascript', jsParser);
-    this.parsers.set('jsx', jsParser);
-
-    // Python
-    const pyParser = new Parser();
-    pyParser.setLanguage(Python);
-    this.parsers.set('python', pyParser);
-  }
+  constructor(private readonly registry: LanguageRegistry = languageRegistry) {}
 
   async parse(content: string, language: string): Promise<Parser.Tree> {
-    const parser = this.parsers.get(language);
-    
-    if (!parser) {
-      throw new Error(`Unsupported language: ${language}`);
-    }
-
+    const parser = this.getParser(language);
     return parser.parse(content);
   }
 
@@ -49,13 +18,25 @@ export class TreeSitterParser {
     oldTree: Parser.Tree,
     edit: Parser.Edit
   ): Promise<Parser.Tree> {
-    const parser = this.parsers.get(language);
-    
-    if (!parser) {
-      throw new Error(`Unsupported language: ${language}`);
-    }
+    const parser = this.getParser(language);
 
     oldTree.edit(edit);
     return parser.parse(content, oldTree);
   }
+
+  private getParser(language: string): Parser {
+    const grammar = this.registry.getLanguageInfo(language)?.grammar;
+
+    if (!grammar) {
+      throw new Error(`Unsupported language: ${language}`);
+    }
+
+    let parser = this.parsers.get(grammar);
+    if (!parser) {
+      parser = new Parser();
+      parser.setLanguage(grammar);
+      this.parsers.set(grammar, parser);
+    }
+    return parser;
+  }
 }
@@ -0,0 +1,49 @@
+import TypeScript from 'tree-sitter-typescript';
+import JavaScript from 'tree-sitter-javascript';
+import Python from 'tree-sitter-python';
+import Go from 'tree-sitter-go';
+import Rust from 'tree-sitter-rust';
+import Java from 'tree-sitter-java';
+import type { LanguagePack } from './LanguagePack.js';
+
+// Resolved next to this module, so the build copies `queries/` beside the bundle.
+const queries = (name: string) => new URL(`./queries/${name}/`, import.meta.url);
+
+export const BUILTIN_LANGUAGE_PACKS: LanguagePack[] = [
+  {
+    id: 'typescript',
+    displayName: 'TypeScript',
+    extensions: ['.ts'],
+    grammar: TypeScript.typescript,
+    queryDirectory: queries('typescript'),
+  },
+  {
+    id: 'tsx',
+    displayName: 'TypeScript JSX',
+    extensions: ['.tsx'],
+    grammar: TypeScript.tsx,
+    queryDirectory: queries('typescript'),
+  },
+  {
+    id: 'javascript',
+    displayName: 'JavaScript',
+    extensions: ['.js', '.mjs', '.cjs'],
+    grammar: JavaScript,
+    queryDirectory: queries('javascript'),
+  },
+  {
+    id: 'jsx',
+    displayName: 'JavaScript JSX',
+    extensions: ['.jsx'],
+    grammar: JavaScript,
+    queryDirectory: queries('javascript'),
+  },
+  { id: 'python', displayName: 'Python', extensions: ['.py'], grammar: Python, queryDirectory: queries('python') },
+  { id: 'go', displayName: 'Go', extensions: ['.go'], grammar: Go, queryDirectory: queries('go') },
+  { id: 'rust', displayName: 'Rust', extensions: ['.rs'], grammar: Rust, queryDirectory: queries('rust') },
+  { id: 'java', displayName: 'Java', extensions: ['.java'], grammar: Java, queryDirectory: queries('java') },
+  { id: 'json', displayName: 'JSON', extensions: ['.json'] },
+  { id: 'yaml', displayName: 'YAML', extensions: ['.yaml', '.yml'] },
+  { id: 'markdown', displayName: 'Markdown', extensions: ['.md', '.markdown'] },
+  { id: 'sql', displayName: 'SQL', extensions: ['.sql'] },
+];
@@ -0,0 +1,34 @@
+; Methods are declared at the top level and name their type in the receiver.
+(method_declaration
+  receiver: (parameter_list
+    (parameter_declaration
+      type: [
+        (type_identifier) @parent
+        (pointer_type
+          (type_identifier) @parent)
+      ]))
+  name: (field_identifier) @name) @definition.method
+
+(function_declaration
+  name: (identifier) @name) @definition.function
+
+(type_spec
+  name: (type_identifier) @name
+  type: (struct_type)) @definition.class.struct
+
+(type_spec
+  name: (type_identifier) @name
+  type: (interface_type)) @definition.interface
+
+; Go exports every identifier that starts with an upper-case letter.
+((function_declaration
+  name: (identifier) @_name) @exported
+  (#match? @_name "^[A-Z]"))
+
+((method_declaration
+  name: (field_identifier) @_name) @exported
+  (#match? @_name "^[A-Z]"))
+
+((type_spec
+  name: (type_identifier) @_name) @exported
+  (#match? @_name "^[A-Z]"))
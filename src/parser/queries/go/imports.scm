@@ -0,0 +1 @@
+(import_spec) @import
@@ -0,0 +1,14 @@
+(method_invocation
+  object: (_) @receiver
+  name: (identifier) @name) @call
+
+(method_invocation
+  !object
+  name: (identifier) @name) @call
+
+(object_creation_expression
+  type: [
+    (type_identifier) @name
+    (generic_type
+      (type_identifier) @name)
+  ]) @call
@@ -0,0 +1,26 @@
+(method_declaration
+  name: (identifier) @name) @definition.method
+
+(constructor_declaration
+  name: (identifier) @name) @definition.constructor
+
+(class_declaration
+  name: (identifier) @name) @definition.class
+
+(interface_declaration
+  name: (identifier) @name) @definition.interface
+
+(enum_declaration
+  name: (identifier) @name) @definition.enum
+
+(record_declaration
+  name: (identifier) @name) @definition.class.record
+
+[
+  (method_declaration (modifiers "public"))
+  (constructor_declaration (modifiers "public"))
+  (class_declaration (modifiers "public"))
+  (interface_declaration (modifiers "public"))
+  (enum_declaration (modifiers "public"))
+  (record_declaration (modifiers "public"))
+] @exported
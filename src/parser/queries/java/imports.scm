@@ -0,0 +1 @@
+(import_declaration) @import
@@ -0,0 +1,25 @@
+(class_declaration
+  superclass: (superclass
+    [
+      (type_identifier) @extends
+      (generic_type
+        (type_identifier) @extends)
+    ])) @class
+
+(class_declaration
+  interfaces: (super_interfaces
+    (type_list
+      [
+        (type_identifier) @implements
+        (generic_type
+          (type_identifier) @implements)
+      ]))) @class
+
+(interface_declaration
+  (extends_interfaces
+    (type_list
+      [
+        (type_identifier) @extends
+        (generic_type
+          (type_identifier) @extends)
+      ]))) @class
@@ -0,0 +1,11 @@
+[
+  (method_declaration)
+  (constructor_declaration)
+  (lambda_expression)
+  (block)
+] @local.scope
+
+(formal_parameter name: (identifier) @local.definition)
+(inferred_parameters (identifier) @local.definition)
+(variable_declarator name: (identifier) @local.definition)
+(catch_formal_parameter name: (identifier) @local.definition)
@@ -0,0 +1,9 @@
+; JUnit and TestNG test methods.
+(method_declaration
+  (modifiers
+    [
+      (marker_annotation name: (identifier) @_annotation)
+      (annotation name: (identifier) @_annotation)
+    ])
+  name: (identifier) @name
+  (#match? @_annotation "^(Test|ParameterizedTest|RepeatedTest|TestFactory)$")) @test
@@ -0,0 +1,78 @@
+; Methods and named function values come first: when a node matches several
+; patterns the earliest one wins.
+(method_definition
+  name: (_) @name) @definition.method
+
+(variable_declarator
+  name: (identifier) @name
+  value: [(arrow_function) (function_expression)] @definition.function)
+
+(function_declaration
+  name: (identifier) @name) @definition.function
+
+(function_expression
+  name: (identifier)? @name) @definition.function
+
+(arrow_function) @definition.function
+
+(class_declaration
+  name: (identifier) @name) @definition.class
+
+; Only module-level bindings; locals stay out of the graph.
+(program
+  (lexical_declaration
+    "const"
+    (variable_declarator
+      name: (identifier) @name) @definition.constant.const))
+
+(program
+  (export_statement
+    (lexical_declaration
+      "const"
+      (variable_declarator
+        name: (identifier) @name) @definition.constant.const)))
+
+(program
+  (lexical_declaration
+    "let"
+    (variable_declarator
+      name: (identifier) @name) @definition.variable.let))
+
+(program
+  (export_statement
+    (lexical_declaration
+      "let"
+      (variable_declarator
+        name: (identifier) @name) @definition.variable.let)))
+
+(program
+  (variable_declaration
+    (variable_declarator
+      name: (identifier) @name) @definition.variable.var))
+
+(program
+  (export_statement
+    (variable_declaration
+      (variable_declarator
+        name: (identifier) @name) @definition.variable.var)))
+
+(export_statement
+  (_) @exported)
+
+(export_statement
+  (class_declaration
+    body: (class_body
+      (method_definition) @exported)))
+
+(export_statement
+  (lexical_declaration
+    (variable_declarator
+      value: [(arrow_function) (function_expression)] @exported)))
+
+(export_statement
+  [
+    (lexical_declaration
+      (variable_declarator) @exported)
+    (variable_declaration
+      (variable_declarator) @exported)
+  ])
@@ -0,0 +1,3 @@
+(class_declaration
+  (class_heritage
+    [(identifier) (member_expression)] @extends)) @class
@@ -0,0 +1,15 @@
+[
+  (function_declaration)
+  (function_expression)
+  (arrow_function)
+  (method_definition)
+  (statement_block)
+  (catch_clause)
+] @local.scope
+
+(formal_parameters (identifier) @local.definition)
+(formal_parameters (assignment_pattern left: (identifier) @local.definition))
+(arrow_function parameter: (identifier) @local.definition)
+(variable_declarator name: (identifier) @local.definition)
+(for_in_statement left: (identifier) @local.definition)
+(catch_clause parameter: (identifier) @local.definition)
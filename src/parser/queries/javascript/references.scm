@@ -0,0 +1,3 @@
+(identifier) @reference
+
+(shorthand_property_identifier) @reference
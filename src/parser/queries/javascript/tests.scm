@@ -0,0 +1,13 @@
+; describe/it/test blocks, including modifiers such as `it.only` and `describe.skip`.
+(call_expression
+  function: [
+    (identifier) @_fn
+    (member_expression object: (identifier) @_fn)
+  ]
+  arguments: (arguments
+    .
+    [
+      (string (string_fragment) @name)
+      (template_string) @name
+    ])
+  (#match? @_fn "^(describe|context|suite|it|test|specify)$")) @test
@@ -0,0 +1,44 @@
+; Enums and protocols are classes in Python; they are told apart by their base
+; and must come before the plain class pattern.
+((class_definition
+  name: (identifier) @name
+  superclasses: (argument_list
+    (identifier) @_base)) @definition.enum
+  (#match? @_base "^(Enum|IntEnum|StrEnum|Flag|IntFlag)$"))
+
+((class_definition
+  name: (identifier) @name
+  superclasses: (argument_list
+    (identifier) @_base)) @definition.interface
+  (#match? @_base "^(Protocol|ABC)$"))
+
+(function_definition
+  name: (identifier) @name) @definition.function
+
+(class_definition
+  name: (identifier) @name) @definition.class
+
+(type_alias_statement
+  .
+  (type
+    (identifier) @name)) @definition.type_alias
+
+; Module-level assignments; upper-case names are constants by convention.
+((module
+  (expression_statement
+    (assignment
+      left: (identifier) @name
+      type: (type
+        (identifier) @_type)) @definition.type_alias))
+  (#eq? @_type "TypeAlias"))
+
+((module
+  (expression_statement
+    (assignment
+      left: (identifier) @name) @definition.constant))
+  (#match? @name "^[A-Z][A-Z0-9_]*$"))
+
+(module
+  (expression_statement
+    (assignment
+      left: (identifier) @name) @definition.variable))
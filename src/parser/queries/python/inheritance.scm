@@ -0,0 +1,3 @@
+(class_definition
+  superclasses: (argument_list
+    [(identifier) (attribute)] @extends)) @class
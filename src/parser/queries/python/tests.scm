@@ -0,0 +1,8 @@
+; pytest and unittest discovery conventions.
+(function_definition
+  name: (identifier) @name
+  (#match? @name "^test")) @test
+
+(class_definition
+  name: (identifier) @name
+  (#match? @name "^Test")) @test
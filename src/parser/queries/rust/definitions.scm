@@ -0,0 +1,37 @@
+; Functions inside impl and trait blocks are methods; they come first so the
+; plain function pattern below does not win.
+(impl_item
+  body: (declaration_list
+    (function_item
+      name: (identifier) @name) @definition.method))
+
+(trait_item
+  body: (declaration_list
+    (function_item
+      name: (identifier) @name) @definition.method))
+
+(function_item
+  name: (identifier) @name) @definition.function
+
+(struct_item
+  name: (type_identifier) @name) @definition.class.struct
+
+(enum_item
+  name: (type_identifier) @name) @definition.enum
+
+(trait_item
+  name: (type_identifier) @name) @definition.interface.trait
+
+(impl_item
+  type: [
+    (type_identifier) @name
+    (generic_type
+      type: (type_identifier) @name)
+  ]) @definition.class.impl
+
+[
+  (function_item (visibility_modifier))
+  (struct_item (visibility_modifier))
+  (enum_item (visibility_modifier))
+  (trait_item (visibility_modifier))
+] @exported
@@ -0,0 +1 @@
+(use_declaration) @import
@@ -0,0 +1,6 @@
+(impl_item
+  trait: [
+    (type_identifier) @implements
+    (generic_type
+      type: (type_identifier) @implements)
+  ]) @class
@@ -0,0 +1,10 @@
+[
+  (function_item)
+  (closure_expression)
+  (block)
+] @local.scope
+
+(parameter pattern: (identifier) @local.definition)
+(closure_parameters (identifier) @local.definition)
+(let_declaration pattern: (identifier) @local.definition)
+(for_expression pattern: (identifier) @local.definition)
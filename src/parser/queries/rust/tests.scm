@@ -0,0 +1,5 @@
+; Functions annotated with #[test].
+((attribute_item (attribute (identifier) @_attribute))
+  .
+  (function_item name: (identifier) @name) @test
+  (#eq? @_attribute "test"))
@@ -0,0 +1,84 @@
+; Methods and named arrow functions come first: when a node matches several
+; patterns the earliest one wins.
+(method_definition
+  name: (_) @name) @definition.method
+
+(variable_declarator
+  name: (identifier) @name
+  value: (arrow_function) @definition.function)
+
+(function_declaration
+  name: (identifier) @name) @definition.function
+
+(arrow_function) @definition.function
+
+(class_declaration
+  name: (type_identifier) @name) @definition.class
+
+(interface_declaration
+  name: (type_identifier) @name) @definition.interface
+
+(type_alias_declaration
+  name: (type_identifier) @name) @definition.type_alias
+
+(enum_declaration
+  name: (identifier) @name) @definition.enum
+
+; Only module-level bindings; locals stay out of the graph.
+(program
+  (lexical_declaration
+    "const"
+    (variable_declarator
+      name: (identifier) @name) @definition.constant.const))
+
+(program
+  (export_statement
+    (lexical_declaration
+      "const"
+      (variable_declarator
+        name: (identifier) @name) @definition.constant.const)))
+
+(program
+  (lexical_declaration
+    "let"
+    (variable_declarator
+      name: (identifier) @name) @definition.variable.let))
+
+(program
+  (export_statement
+    (lexical_declaration
+      "let"
+      (variable_declarator
+        name: (identifier) @name) @definition.variable.let)))
+
+(program
+  (variable_declaration
+    (variable_declarator
+      name: (identifier) @name) @definition.variable.var))
+
+(program
+  (export_statement
+    (variable_declaration
+      (variable_declarator
+        name: (identifier) @name) @definition.variable.var)))
+
+(export_statement
+  (_) @exported)
+
+(export_statement
+  (class_declaration
+    body: (class_body
+      (method_definition) @exported)))
+
+(export_statement
+  (lexical_declaration
+    (variable_declarator
+      value: (arrow_function) @exported)))
+
+(export_statement
+  [
+    (lexical_declaration
+      (variable_declarator) @exported)
+    (variable_declaration
+      (variable_declarator) @exported)
+  ])
@@ -0,0 +1,5 @@
+(import_statement) @import
+
+; Re-exports such as `export { x } from "./x"` resolve like imports.
+(export_statement
+  source: (string)) @import
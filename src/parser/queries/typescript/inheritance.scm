@@ -0,0 +1,21 @@
+(class_declaration
+  (class_heritage
+    (extends_clause
+      value: [(identifier) (member_expression)] @extends))) @class
+
+(interface_declaration
+  (extends_type_clause
+    type: [
+      (type_identifier) @extends
+      (generic_type
+        name: (type_identifier) @extends)
+    ])) @class
+
+(class_declaration
+  (class_heritage
+    (implements_clause
+      [
+        (type_identifier) @implements
+        (generic_type
+          name: (type_identifier) @implements)
+      ]))) @class
@@ -0,0 +1,5 @@
+(identifier) @reference
+
+(type_identifier) @reference
+
+(shorthand_property_identifier) @reference
@@ -1,4 +1,4 @@
-import { CodeGraph, GraphNode } from '../graph/CodeGraph.js';
+import { GraphNode, GraphView } from '../graph/CodeGraph.js';
 import { GraphWalker } from '../graph/GraphWalker.js';
 import { createEmbedder } from '../embeddings/TransformersEmbedder.js';
 import type { Embedder } from '../embeddings/types.js';
@@ -39,7 +39,7 @@ export class AdaptiveRetriever {
   private tokenCounter: TokenCounter;
 
   constructor(
-    private graph: CodeGraph,
+    private graph: GraphView,
     private tiers: RetrievalTier[] = DEFAULT_TIERS
   ) {
     this.walker = new GraphWalker(graph);
@@ -66,7 +66,7 @@ export class AdaptiveRetriever {
     const reachableNodes = this.walker.bfs(
       fileNodes[0].id,
       tier.graphDepth,
-      ['imports', 'calls', 'references']
+      { edgeTypes: ['imports', 'calls', 'references'] }
     );
     
     // Embed query and rank nodes
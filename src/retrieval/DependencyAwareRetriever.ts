@@ -1,15 +1,21 @@
-import { CodeGraph, GraphNode } from '../graph/CodeGraph.js';
-import { GraphWalker } from '../graph/GraphWalker.js';
+import { GraphEdge, GraphNode, GraphView } from '../graph/CodeGraph.js';
 import { createEmbedder } from '../embeddings/TransformersEmbedder.js';
 import type { Embedder } from '../embeddings/types.js';
 import { TextSearchEngine } from './TextSearchEngine.js';
 import { TokenCounter } from './TokenCounter.js';
 import { TargetResolver } from './TargetResolver.js';
 import type { CandidateSourceScores, TargetCandidate } from './TargetResolver.js';
+import { PackageScope } from './PackageScope.js';
 
 const NODE_SNIPPET_MAX_LINES = 80;
 const NODE_SNIPPET_MAX_CHARS = 1200;
 
+const DEPENDENCY_EDGE_TYPES = ['imports', 'calls', 'references', 'extends', 'implements'];
+
+// Edges carry `metadata.confidence` when they were resolved heuristically; paths
+// scoring below this are treated as noise.
+const MIN_DEPENDENCY_CONFIDENCE = 0.2;
+
 export interface ContextTelemetry {
   targetResolution: {
     primaryPath?: string;
@@ -30,6 +36,8 @@ export interface BuildContextOptions {
   walkDepth?: number;
   relatedLimit?: number;
   breadthLimit?: number;
+  /** Workspace package names or directories to keep the context within. */
+  packages?: string[];
 }
 
 
@@ -37,6 +45,8 @@ export interface DependencyContext {
   targetNodes: GraphNode[];
   forwardDeps: GraphNode[];
   backwardDeps: GraphNode[];
+  /** Test cases linked to the targets by `tests` edges. */
+  tests: GraphNode[];
   relatedByQuery: GraphNode[];
   totalTokens: number;
   tokensUsed: number;
@@ -65,23 +75,24 @@ class NoopEmbedder implements Embedder {
 }
 
 export class DependencyAwareRetriever {
-  private walker: GraphWalker;
   private embedder: Embedder;
   private textSearch: TextSearchEngine;
   private tokenCounter: TokenCounter;
   private embeddingsEnabled = true;
   private targetResolver: TargetResolver;
+  // Best path confidence per dependency found for the current request.
+  private dependencyConfidence = new Map<string, number>();
+  // Package scope of the current request, if any.
+  private scope?: PackageScope;
 
   constructor(
-    private graph: CodeGraph,
+    private graph: GraphView,
     deps?: {
-      walker?: GraphWalker;
       embedder?: Embedder;
       textSearch?: TextSearchEngine;
       tokenCounter?: TokenCounter;
     }
   ) {
-    this.walker = deps?.walker ?? new GraphWalker(graph);
     this.embedder = deps?.embedder ?? createEmbedder();
     this.textSearch = deps?.textSearch ?? new TextSearchEngine();
     this.tokenCounter = deps?.tokenCounter ?? new TokenCounter();
@@ -119,6 +130,7 @@ export class DependencyAwareRetriever {
     options?: BuildContextOptions
   ): Promise<DependencyContext> {
     const tokenBudget = this.clampTokenBudget(maxTokens);
+    this.dependencyConfidence.clear();
     const fallbackPaths = [
       ...(options?.candidateFilePaths ?? []),
       ...(targetFilePath ? [targetFilePath] : []),
@@ -127,10 +139,14 @@ export class DependencyAwareRetriever {
     const walkDepth = options?.walkDepth ?? 2;
     const relatedLimit = options?.relatedLimit ?? 5;
     const breadthLimit = options?.breadthLimit ?? 3;
+    this.scope = options?.packages?.length
+      ? PackageScope.fromGraph(this.graph, options.packages)
+      : undefined;
 
     const resolution = await this.targetResolver.resolve(query, {
       recentPaths: fallbackPaths,
       limit: 5,
+      scope: this.scope,
     });
 
     const primaryFilePath = resolution.primary?.path ?? fallbackPaths[0];
@@ -173,11 +189,15 @@ export class DependencyAwareRetriever {
     // 3. Get backward dependencies (who depends on target)
     const backwardDeps = this.getBackwardDependencies(targetNodes, walkDepth, breadthLimit);
 
-    // 4. Get semantic context from query and seeded candidates
+    // 4. Get the tests that exercise the targets
+    const tests = this.getCoveringTests(targetNodes, breadthLimit);
+
+    // 5. Get semantic context from query and seeded candidates
     const allExistingNodes = [
       ...targetNodes,
       ...forwardDeps,
       ...backwardDeps,
+      ...tests,
     ];
     const semanticRelated = await this.getSemanticContext(
       query,
@@ -189,31 +209,33 @@ export class DependencyAwareRetriever {
       .flatMap(candidate => candidate.nodes)
       .map(node => this.graph.getNode(node.id))
       .filter((node): node is GraphNode => Boolean(node));
-    const relatedByQuery = [...semanticRelated, ...seededRelated];
+    const relatedByQuery = [...semanticRelated, ...seededRelated].filter(node => this.inScope(node));
     
-    // 5. Deduplicate and tag nodes with categories
+    // 6. Deduplicate and tag nodes with categories
     const deduped = this.deduplicateAndTag(
       targetNodes,
       forwardDeps,
       backwardDeps,
+      tests,
       relatedByQuery,
       breadthLimit
     );
     
-    // 6. Prioritize and build within token budget
+    // 7. Prioritize and build within token budget
     const finalContext = this.buildWithinBudget(
       deduped.target,
       deduped.forward,
       deduped.backward,
+      deduped.tests,
       deduped.related,
       tokenBudget
     );
     
-    // 7. Format context for model
+    // 8. Format context for model
     const formattedContext = this.formatContext(finalContext);
     const totalTokens = this.tokenCounter.count(formattedContext);
     
-    // 8. Calculate savings
+    // 9. Calculate savings
     const fullContextTokens = this.estimateFullContext(primaryFilePath);
     const tokensSaved = Math.max(0, fullContextTokens - totalTokens);
     const savingsPercent = fullContextTokens > 0
@@ -239,6 +261,7 @@ export class DependencyAwareRetriever {
       targetNodes: finalContext.target,
       forwardDeps: finalContext.forward,
       backwardDeps: finalContext.backward,
+      tests: finalContext.tests,
       relatedByQuery: finalContext.related,
       totalTokens,
       tokensUsed: totalTokens,
@@ -283,7 +306,7 @@ export class DependencyAwareRetriever {
     // Return top matches or all if none scored
     const targets = scored.length > 0
       ? scored.slice(0, 3).map(s => s.node)
-      : fileNodes.filter(n => n.type === 'function' || n.type === 'class');
+      : fileNodes.filter(n => n.type !== 'file' && n.type !== 'import' && n.type !== 'package');
     
     return targets;
   }
@@ -334,25 +357,11 @@ export class DependencyAwareRetriever {
     maxDepth: number,
     breadthLimit: number
   ): GraphNode[] {
-    const allDeps: GraphNode[] = [];
-    
-    for (const node of nodes) {
-      const deps = this.walker.bfs(node.id, maxDepth, [
-        'imports',
-        'calls',
-        'references',
-      ]);
-      allDeps.push(
-        ...deps.filter(dep => dep.id !== node.id && dep.type !== 'file')
-      );
-    }
-
-    const unique = this.dedupeNodes(allDeps);
-    return this.limitByBreadth(unique, Math.max(1, breadthLimit));
+    return this.collectDependencies(nodes, maxDepth, breadthLimit, 'forward');
   }
 
   /**
-   * Get backward dependencies: who imports/calls this code?
+   * Get backward dependencies: who imports/calls/implements this code?
    * CRITICAL for preventing breaking changes
    */
   private getBackwardDependencies(
@@ -360,68 +369,105 @@ export class DependencyAwareRetriever {
     maxDepth: number,
     breadthLimit: number
   ): GraphNode[] {
-    const allDependents: GraphNode[] = [];
-    
+    return this.collectDependencies(nodes, maxDepth, breadthLimit, 'backward');
+  }
+
+  /**
+   * Test cases with a `tests` edge to a target or to a symbol the target contains
+   * (methods of a target class, symbols of a target file).
+   */
+  private getCoveringTests(nodes: GraphNode[], breadthLimit: number): GraphNode[] {
+    const subjects = nodes.flatMap(node => [
+      node,
+      ...this.graph.getNeighbors(node.id, 'contains'),
+    ]);
+
+    const tests: GraphNode[] = [];
+    for (const subject of subjects) {
+      for (const edge of this.graph.getIncomingEdges(subject.id)) {
+        if (edge.type !== 'tests') continue;
+        const test = this.graph.getNode(edge.from);
+        if (test && this.inScope(test)) {
+          tests.push(test);
+        }
+      }
+    }
+
+    return this.limitByBreadth(this.dedupeNodes(tests), Math.max(1, breadthLimit));
+  }
+
+  private collectDependencies(
+    nodes: GraphNode[],
+    maxDepth: number,
+    breadthLimit: number,
+    direction: 'forward' | 'backward'
+  ): GraphNode[] {
+    const allDeps: GraphNode[] = [];
+
     for (const node of nodes) {
-      const dependents = this.walkBackward(node.id, maxDepth, [
-        'imports',
-        'calls',
-        'references',
-      ]);
-      allDependents.push(
-        ...dependents.filter(dep => dep.id !== node.id && dep.type !== 'file')
-      );
+      const deps = this.walkDependencies(node.id, maxDepth, DEPENDENCY_EDGE_TYPES, direction);
+      for (const { node: dep, score } of deps) {
+        if (dep.id === node.id || dep.type === 'file' || !this.inScope(dep)) continue;
+        allDeps.push(dep);
+        this.dependencyConfidence.set(dep.id, Math.max(score, this.dependencyConfidence.get(dep.id) ?? 0));
+      }
     }
-    
-    const unique = this.dedupeNodes(allDependents);
+
+    const unique = this.dedupeNodes(allDeps);
     return this.limitByBreadth(unique, Math.max(1, breadthLimit));
   }
 
   /**
-   * Walk graph in reverse to find all dependents
+   * Walk the graph in either direction, scoring each node by the product of edge
+   * confidences along its best path. Paths that drop below MIN_DEPENDENCY_CONFIDENCE
+   * (ambiguous calls, mostly) are not followed.
    */
-  private walkBackward(
+  private walkDependencies(
     nodeId: string,
     maxDepth: number,
-    edgeTypes: string[]
-  ): GraphNode[] {
-    const visited = new Set<string>();
-    const queue: Array<{ nodeId: string; depth: number }> = [
-      { nodeId, depth: 0 }
-    ];
-    const result: GraphNode[] = [];
-    
-    while (queue.length > 0) {
-      const { nodeId: currentId, depth } = queue.shift()!;
-      
-      if (visited.has(currentId) || depth > maxDepth) {
-        continue;
-      }
-      
-      visited.add(currentId);
-      const node = this.graph.getNode(currentId);
-      if (node) result.push(node);
-      
-      if (depth < maxDepth) {
-        // Find all edges pointing TO this node (reverse direction)
-        const incomingEdges = this.graph
-          .getAllEdges()
-          .filter(edge => 
-            edge.to === currentId && 
-            edgeTypes.includes(edge.type)
-          );
-        
-        for (const edge of incomingEdges) {
-          if (!visited.has(edge.from)) {
-            queue.push({ nodeId: edge.from, depth: depth + 1 });
-          }
+    edgeTypes: string[],
+    direction: 'forward' | 'backward'
+  ): ScoredNode[] {
+    const best = new Map<string, number>([[nodeId, 1]]);
+    let frontier = [nodeId];
+
+    for (let depth = 0; depth < maxDepth && frontier.length > 0; depth++) {
+      const next: string[] = [];
+      for (const currentId of frontier) {
+        const current = best.get(currentId)!;
+        const edges = direction === 'forward'
+          ? this.graph.getOutgoingEdges(currentId)
+          : this.graph.getIncomingEdges(currentId);
+
+        for (const edge of edges) {
+          if (!edgeTypes.includes(edge.type)) continue;
+          const neighborId = direction === 'forward' ? edge.to : edge.from;
+          const score = current * this.edgeConfidence(edge);
+          if (score < MIN_DEPENDENCY_CONFIDENCE || score <= (best.get(neighborId) ?? 0)) continue;
+          best.set(neighborId, score);
+          next.push(neighborId);
         }
       }
+      frontier = next;
+    }
+
+    const result: ScoredNode[] = [];
+    for (const [id, score] of best) {
+      const node = this.graph.getNode(id);
+      if (node) result.push({ node, score });
     }
-    
     return result;
   }
 
+  private inScope(node: GraphNode): boolean {
+    return !this.scope || this.scope.includes(node.path);
+  }
+
+  private edgeConfidence(edge: GraphEdge): number {
+    const confidence = edge.metadata?.confidence;
+    return typeof confidence === 'number' ? confidence : 1;
+  }
+
   /**
    * Get additional semantic context using embeddings + text search
    */
@@ -437,7 +483,7 @@ export class DependencyAwareRetriever {
     const excludeIds = new Set(excludeNodes.map(n => n.id));
     const allNodes = this.graph
       .getAllNodes()
-      .filter(n => !excludeIds.has(n.id) && n.type !== 'file');
+      .filter(n => !excludeIds.has(n.id) && n.type !== 'file' && this.inScope(n));
     
     if (allNodes.length === 0) {
       return [];
@@ -574,7 +620,7 @@ export class DependencyAwareRetriever {
     const visited = new Set<string>(baseNodes.map(node => node.id));
 
     const tryAdd = (candidate: GraphNode | undefined) => {
-      if (!candidate) return;
+      if (!candidate || candidate.type === 'package') return;
       if (visited.has(candidate.id)) return;
       visited.add(candidate.id);
       additions.push(candidate);
@@ -600,8 +646,8 @@ export class DependencyAwareRetriever {
         if (additions.length >= maxAdditional) break;
       }
 
-      const dependents = this.walkBackward(node.id, 1, ['calls', 'imports', 'references', 'contains']);
-      for (const dependent of dependents) {
+      const dependents = this.walkDependencies(node.id, 1, ['calls', 'imports', 'references', 'contains'], 'backward');
+      for (const { node: dependent } of dependents) {
         if (dependent.id === node.id) continue;
         tryAdd(dependent);
         if (additions.length >= maxAdditional) break;
@@ -618,17 +664,20 @@ export class DependencyAwareRetriever {
     target: GraphNode[],
     forward: GraphNode[],
     backward: GraphNode[],
+    tests: GraphNode[],
     related: GraphNode[],
     breadthLimit: number
   ): {
     target: GraphNode[];
     forward: GraphNode[];
     backward: GraphNode[];
+    tests: GraphNode[];
     related: GraphNode[];
   } {
     const uniqueTarget = this.dedupeNodes(target);
     const uniqueForward = this.dedupeNodes(forward);
     const uniqueBackward = this.dedupeNodes(backward);
+    const uniqueTests = this.dedupeNodes(tests);
     const uniqueRelated = this.dedupeNodes(related);
 
     const targetIds = new Set(uniqueTarget.map(n => n.id));
@@ -651,9 +700,16 @@ export class DependencyAwareRetriever {
     });
     const cleanBackwardIds = new Set(cleanBackward.map(n => n.id));
 
+    const cleanTests = uniqueTests.filter(n => {
+      if (targetIds.has(n.id) || cleanForwardIds.has(n.id) || cleanBackwardIds.has(n.id)) return false;
+      n.metadata.category = 'test';
+      return true;
+    });
+    const cleanTestIds = new Set(cleanTests.map(n => n.id));
+
     const relatedSet = new Map<string, GraphNode>();
     const cleanRelated = uniqueRelated.filter(n => {
-      if (targetIds.has(n.id) || cleanForwardIds.has(n.id) || cleanBackwardIds.has(n.id)) {
+      if (targetIds.has(n.id) || cleanForwardIds.has(n.id) || cleanBackwardIds.has(n.id) || cleanTestIds.has(n.id)) {
         return false;
       }
       n.metadata.category = 'related';
@@ -666,7 +722,12 @@ export class DependencyAwareRetriever {
         .getNodesByPath(node.path)
         .filter(sibling => {
           if (sibling.id === node.id) return false;
-          if (targetIds.has(sibling.id) || cleanForwardIds.has(sibling.id) || cleanBackwardIds.has(sibling.id)) {
+          if (
+            targetIds.has(sibling.id) ||
+            cleanForwardIds.has(sibling.id) ||
+            cleanBackwardIds.has(sibling.id) ||
+            cleanTestIds.has(sibling.id)
+          ) {
             return false;
           }
           return sibling.type !== 'file';
@@ -689,6 +750,7 @@ export class DependencyAwareRetriever {
       target: uniqueTarget,
       forward: limitedForward,
       backward: limitedBackward,
+      tests: cleanTests,
       related: limitedRelated,
     };
   }
@@ -700,18 +762,21 @@ export class DependencyAwareRetriever {
     target: GraphNode[],
     forward: GraphNode[],
     backward: GraphNode[],
+    tests: GraphNode[],
     related: GraphNode[],
     maxTokens: number
   ): {
     target: GraphNode[];
     forward: GraphNode[];
     backward: GraphNode[];
+    tests: GraphNode[];
     related: GraphNode[];
   } {
     const result = {
       target: [...target],
       forward: [] as GraphNode[],
       backward: [] as GraphNode[],
+      tests: [] as GraphNode[],
       related: [] as GraphNode[],
     };
     
@@ -727,7 +792,16 @@ export class DependencyAwareRetriever {
       }
     }
     
-    // Priority 2: Forward deps (important - maintains functionality)
+    // Priority 2: Tests covering the target (show what must keep passing)
+    for (const node of tests) {
+      const nodeTokens = this.estimateTokens([node]);
+      if (currentTokens + nodeTokens <= maxTokens * 0.9) { // Reserve 10% for forward/related
+        result.tests.push(node);
+        currentTokens += nodeTokens;
+      }
+    }
+    
+    // Priority 3: Forward deps (important - maintains functionality)
     for (const node of forward) {
       const nodeTokens = this.estimateTokens([node]);
       if (currentTokens + nodeTokens <= maxTokens * 0.95) { // Reserve 5% for related
@@ -736,7 +810,7 @@ export class DependencyAwareRetriever {
       }
     }
     
-    // Priority 3: Related context (nice-to-have)
+    // Priority 4: Related context (nice-to-have)
     for (const node of related) {
       const nodeTokens = this.estimateTokens([node]);
       if (currentTokens + nodeTokens <= maxTokens) {
@@ -793,7 +867,7 @@ export class DependencyAwareRetriever {
     const exported = node.metadata?.exported === true ? 1 : 0;
     const length = Math.max(node.endLine - node.startLine + 1, 1);
     const locality = 1 / Math.log(length + 1);
-    return exported * 2 + locality;
+    return (exported * 2 + locality) * (this.dependencyConfidence.get(node.id) ?? 1);
   }
 
   /**
@@ -803,6 +877,7 @@ export class DependencyAwareRetriever {
     target: GraphNode[];
     forward: GraphNode[];
     backward: GraphNode[];
+    tests: GraphNode[];
     related: GraphNode[];
   }): string {
     const sections: string[] = [];
@@ -817,6 +892,11 @@ export class DependencyAwareRetriever {
       sections.push(context.backward.map(this.formatNode).join('\n\n'));
     }
     
+    if (context.tests.length > 0) {
+      sections.push('\n# TESTS (cases exercising the target - keep them passing or update them with the change)\n');
+      sections.push(context.tests.map(this.formatNode).join('\n\n'));
+    }
+    
     if (context.forward.length > 0) {
       sections.push('\n# DEPENDENCIES (code that target calls/imports)\n');
       sections.push(context.forward.map(this.formatNode).join('\n\n'));
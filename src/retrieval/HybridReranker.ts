@@ -125,6 +125,10 @@ export class HybridReranker {
     }
     const metadata = node.metadata ?? {};
     const exported = metadata.exported === true ? 1 : 0;
+    // Graphs built since GraphAnalytics ran carry PageRank centrality; older ones fall back to shape.
+    if (typeof metadata.centrality === 'number') {
+      return metadata.centrality * 0.8 + exported * 0.2;
+    }
     const length = Math.max(node.endLine - node.startLine + 1, 1);
     const localityScore = 1 / Math.log(length + 1);
     return exported * 0.7 + localityScore * 0.3;
@@ -1,4 +1,4 @@
-import { CodeGraph, GraphNode } from '../graph/CodeGraph.js';
+import { GraphNode, GraphView } from '../graph/CodeGraph.js';
 import { GraphWalker } from '../graph/GraphWalker.js';
 import { createEmbedder } from '../embeddings/TransformersEmbedder.js';
 import type { Embedder } from '../embeddings/types.js';
@@ -42,7 +42,7 @@ export class HybridRetriever {
   private tokenCounter: TokenCounter;
 
   constructor(
-    private graph: CodeGraph,
+    private graph: GraphView,
     private tiers: RetrievalTier[] = DEFAULT_TIERS
   ) {
     this.walker = new GraphWalker(graph);
@@ -69,7 +69,7 @@ export class HybridRetriever {
     const reachableNodes = this.walker.bfs(
       fileNodes[0].id,
       tier.graphDepth,
-      ['imports', 'calls', 'references', 'contains']
+      { edgeTypes: ['imports', 'calls', 'references', 'contains'] }
     );
 
     // Try embedding search first
@@ -0,0 +1,46 @@
+import type { GraphNode, GraphView } from '../graph/CodeGraph.js';
+import { UserFacingError } from '../utils/errors.js';
+
+/**
+ * Restricts retrieval to the files of one or more workspace packages, named by
+ * package name (`@acme/core`) or directory (`packages/core`).
+ */
+export class PackageScope {
+  private constructor(
+    readonly packages: GraphNode[],
+    private readonly directories: string[]
+  ) {}
+
+  static fromGraph(graph: GraphView, selectors: string[]): PackageScope {
+    const workspaces = listWorkspacePackages(graph);
+    const selected: GraphNode[] = [];
+    const unknown: string[] = [];
+
+    for (const selector of selectors) {
+      const normalized = selector.replace(/^\.\//, '').replace(/\/+$/, '');
+      const match = workspaces.find(node => node.name === normalized || node.path === normalized);
+      if (match) {
+        selected.push(match);
+      } else {
+        unknown.push(selector);
+      }
+    }
+
+    if (unknown.length > 0) {
+      const known = workspaces.map(node => node.name).join(', ') || 'none';
+      throw new UserFacingError(`Unknown workspace package: ${unknown.join(', ')} (known: ${known})`);
+    }
+    return new PackageScope(selected, selected.map(node => node.path));
+  }
+
+  includes(filePath: string): boolean {
+    const normalized = filePath.replace(/\\/g, '/').replace(/^\.\//, '');
+    return this.directories.some(directory => normalized.startsWith(`${directory}/`));
+  }
+}
+
+export function listWorkspacePackages(graph: GraphView): GraphNode[] {
+  return graph
+    .getAllNodes()
+    .filter(node => node.type === 'package' && node.metadata?.workspace === true);
+}
@@ -1,5 +1,5 @@
 import path from 'node:path';
-import { CodeGraph, type GraphNode } from '../graph/CodeGraph.js';
+import type { GraphNode, GraphView } from '../graph/CodeGraph.js';
 import { logger } from '../utils/logger.js';
 import { HnswAnnIndex, type AnnResult } from './AnnIndex.js';
 import { Bm25Index, type Bm25Hit } from './Bm25Index.js';
@@ -7,11 +7,14 @@ import { reciprocalRankFusion, type CandidateSource } from './CandidateFusion.js
 import { HybridReranker, type RerankResult } from './HybridReranker.js';
 import type { CrossEncoder } from './CrossEncoder.js';
 import { TransformersCrossEncoder } from './CrossEncoder.js';
+import type { PackageScope } from './PackageScope.js';
 
 type FusedSeed = ReturnType<typeof reciprocalRankFusion>[number];
 
 type ExtendedCandidateSource = CandidateSource | 'SEED';
 
+const SCOPED_SEARCH_FACTOR = 4;
+
 export type CandidateSourceScores = Partial<Record<ExtendedCandidateSource, number>>;
 
 export interface CandidateScoreBreakdown {
@@ -42,6 +45,8 @@ export interface TargetResolverOptions {
   recentPaths?: string[];
   limit?: number;
   seedCount?: number;
+  /** Only consider files inside these workspace packages. */
+  scope?: PackageScope;
 }
 
 export interface TargetResolverConfig {
@@ -62,7 +67,7 @@ export class TargetResolver {
   private readonly reranker: HybridReranker;
 
   constructor(
-    private readonly graph: CodeGraph,
+    private readonly graph: GraphView,
     private readonly embedder: EmbeddingProvider,
     config: TargetResolverConfig = {}
   ) {
@@ -78,22 +83,27 @@ export class TargetResolver {
     const limit = options?.limit ?? 3;
     const seedCount = Math.max(options?.seedCount ?? limit * 3, limit);
 
-    const annResults = await this.searchAnn(query, seedCount);
-    const lexicalResults = this.searchBm25(query, seedCount);
+    const scope = options?.scope;
+    // Most hits may fall outside a package scope, so search deeper before filtering.
+    const searchCount = scope ? seedCount * SCOPED_SEARCH_FACTOR : seedCount;
+
+    const annResults = await this.searchAnn(query, searchCount);
+    const lexicalResults = this.searchBm25(query, searchCount);
 
     if (annResults.length === 0 && lexicalResults.length === 0) {
       return { candidates: [] };
     }
 
-    const fusedSeeds = reciprocalRankFusion(annResults, lexicalResults, seedCount);
+    const fusedSeeds = reciprocalRankFusion(annResults, lexicalResults, searchCount);
     const fusedMap = new Map(fusedSeeds.map(seed => [seed.id, seed]));
 
     const rerankInputs = fusedSeeds
       .map(seed => ({ candidate: seed, node: this.nodeIndex.get(seed.id) }))
       .filter(
         (entry): entry is { candidate: (typeof fusedSeeds)[number]; node: GraphNode } =>
-          Boolean(entry.node)
-      );
+          Boolean(entry.node && (!scope || scope.includes(entry.node.path)))
+      )
+      .slice(0, seedCount);
 
     if (rerankInputs.length === 0) {
       return { candidates: [] };
@@ -105,7 +115,9 @@ export class TargetResolver {
       grouped.map(candidate => [this.normalizePath(candidate.path), { ...candidate, path: this.normalizePath(candidate.path) }])
     );
     this.injectSeedPaths(candidateMap, options?.recentPaths ?? [], query);
-    const finalCandidates = Array.from(candidateMap.values());
+    const finalCandidates = Array.from(candidateMap.values()).filter(
+      candidate => !scope || scope.includes(candidate.path)
+    );
 
     this.applyRecentBoost(finalCandidates, options?.recentPaths ?? []);
     this.applyIntentBoost(query, finalCandidates);
@@ -12,6 +12,7 @@ import {
   type DependencyContext,
 } from '../retrieval/DependencyAwareRetriever.js';
 import { TargetResolver } from '../retrieval/TargetResolver.js';
+import { PackageScope, listWorkspacePackages } from '../retrieval/PackageScope.js';
 import { createEmbedder } from '../embeddings/TransformersEmbedder.js';
 import { OpenRouterClient } from '../llm/OpenRouterClient.js';
 import type { ChatRequest, ChatChunk } from '../llm/OpenRouterClient.js';
@@ -21,9 +22,15 @@ import { StreamHandler } from '../llm/StreamHandler.js';
 import { FileApplier, type FileEdit } from '../files/FileApplier.js';
 import { parseFileEdits } from '../files/EditParser.js';
 import { RulesLoader } from '../rules/RulesLoader.js';
-import { CodeGraph, type GraphNode } from '../graph/CodeGraph.js';
-import { GraphManager } from '../graph/GraphManager.js';
+import type { GraphNode, GraphView } from '../graph/CodeGraph.js';
+import { DEFAULT_OVERLAY_NAME, GraphManager } from '../graph/GraphManager.js';
+import type { OverlayConflictResolution } from '../graph/types.js';
+import { GraphQueryEngine, type GraphQueryResult } from '../graph/query/GraphQueryEngine.js';
+import { formatQueryTable } from '../graph/query/formatQueryResult.js';
+import { ImpactAnalyzer, formatImpactReport, type ImpactReport } from '../graph/ImpactAnalyzer.js';
+import { GitIntegration } from '../files/GitIntegration.js';
 import { UsageTracker } from '../analytics/UsageTracker.js';
+import { OverlayConflictError } from '../utils/errors.js';
 
 type ConversationRole = 'user' | 'assistant' | 'system';
 
@@ -35,7 +42,7 @@ export interface Message {
 }
 
 export interface AppProps {
-  graph: CodeGraph;
+  graph: GraphView;
   graphManager: GraphManager;
   apiKey: string;
   accountLabel?: string;
@@ -45,6 +52,10 @@ export interface AppProps {
 }
 
 const TOKEN_BUDGET = 6000;
+// Pinned query rows beyond this are listed without their code.
+const PINNED_NODE_LIMIT = 10;
+const IMPACT_FILE_LIMIT = 20;
+const CONFLICT_RESOLUTIONS: OverlayConflictResolution[] = ['keep-overlay', 'take-disk', 're-record'];
 
 interface ChatClient {
   chat(request: ChatRequest): Promise<AsyncIterable<ChatChunk>>;
@@ -86,11 +97,16 @@ export function App({ graph, graphManager, apiKey, accountLabel, model, workingD
   const [pendingEdits, setPendingEdits] = useState<FileEdit[]>([]);
   const [activeFilePath, setActiveFilePath] = useState<string>('');
   const [recentFiles, setRecentFiles] = useState<string[]>([]);
+  const [activePackages, setActivePackages] = useState<string[]>([]);
   const [tokensSaved, setTokensSaved] = useState(0);
   const [tokensUsed, setTokensUsed] = useState(0);
   const [status, setStatus] = useState('Ready');
   const [interruptMode, setInterruptMode] = useState(false);
-  const [graphState, setGraphState] = useState<CodeGraph>(graph);
+  const [graphState, setGraphState] = useState<GraphView>(graph);
+  const [lastQueryResult, setLastQueryResult] = useState<GraphQueryResult | null>(null);
+  const [pinnedQuery, setPinnedQuery] = useState<GraphQueryResult | null>(null);
+  // Ref the working tree is compared against for impact context; null while /impact is off.
+  const [impactSince, setImpactSince] = useState<string | null>(null);
   const accountLabelState = accountLabel ?? '';
 
   useEffect(() => {
@@ -108,6 +124,7 @@ export function App({ graph, graphManager, apiKey, accountLabel, model, workingD
     [offline, apiKey]
   );
   const fileApplier = useMemo(() => new FileApplier(workingDir), [workingDir]);
+  const git = useMemo(() => new GitIntegration(workingDir), [workingDir]);
   const rulesLoader = useMemo(() => new RulesLoader(workingDir), [workingDir]);
   const tracker = useMemo(() => new UsageTracker(), []);
   const promptBuilder = useMemo(() => new PromptBuilder(), []);
@@ -152,11 +169,29 @@ export function App({ graph, graphManager, apiKey, accountLabel, model, workingD
         setStatus(`Focusing on ${arg}`);
         break;
       }
+      case 'package':
+      case 'packages': {
+        runPackageCommand(arg);
+        break;
+      }
+      case 'overlay': {
+        void runOverlayCommand(arg);
+        break;
+      }
+      case 'graph': {
+        runGraphCommand(arg);
+        break;
+      }
+      case 'impact': {
+        void runImpactCommand(arg);
+        break;
+      }
       case 'where': {
+        const packageNote = activePackages.length > 0 ? ` (packages: ${activePackages.join(', ')})` : '';
         if (activeFilePath) {
-          setStatus(`Current focus: ${activeFilePath}`);
+          setStatus(`Current focus: ${activeFilePath}${packageNote}`);
         } else {
-          setStatus('No active file selected yet.');
+          setStatus(`No active file selected yet.${packageNote}`);
         }
         break;
       }
@@ -168,12 +203,207 @@ export function App({ graph, graphManager, apiKey, accountLabel, model, workingD
     return true;
   };
 
+  const runPackageCommand = (arg: string) => {
+    const selectors = arg.split(/\s+/).filter(Boolean);
+    if (selectors.length === 0) {
+      const known = listWorkspacePackages(graphState).map(node => node.name);
+      setStatus(
+        known.length === 0
+          ? 'No workspace packages in this graph.'
+          : `Packages: ${known.join(', ')}. Scope: ${activePackages.join(', ') || 'all'}`
+      );
+      return;
+    }
+    if (selectors.length === 1 && ['all', 'clear'].includes(selectors[0])) {
+      setActivePackages([]);
+      setStatus('Retrieval scope cleared');
+      return;
+    }
+
+    try {
+      const scope = PackageScope.fromGraph(graphState, selectors);
+      const names = scope.packages.map(node => node.name);
+      setActivePackages(names);
+      setStatus(`Limiting retrieval to ${names.join(', ')}`);
+    } catch (error) {
+      setStatus(error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  const runGraphCommand = (arg: string) => {
+    const [action = ''] = arg.split(/\s+/);
+    const rest = arg.slice(action.length).trim();
+
+    if (action.toLowerCase() === 'unpin') {
+      setPinnedQuery(null);
+      setStatus('Graph query unpinned');
+      return;
+    }
+    const pinning = action.toLowerCase() === 'pin';
+    const queryText = pinning ? rest : arg;
+    if (!queryText) {
+      if (pinning && lastQueryResult) {
+        setPinnedQuery(lastQueryResult);
+        setStatus(`Pinned ${lastQueryResult.rows.length} nodes for the next prompt`);
+      } else {
+        setStatus(pinning ? 'No graph query to pin yet. Use /graph pin <query>' : 'Usage: /graph <query> | pin [query] | unpin');
+      }
+      return;
+    }
+
+    let result: GraphQueryResult;
+    try {
+      result = new GraphQueryEngine(graphState).run(queryText);
+    } catch (error) {
+      setStatus(`Graph query failed: ${error instanceof Error ? error.message : String(error)}`);
+      return;
+    }
+
+    setLastQueryResult(result);
+    setMessages(prev => [
+      ...prev,
+      {
+        id: Date.now().toString(),
+        role: 'system',
+        content: `/graph ${result.query.source}\n\n${formatQueryTable(result)}`,
+        timestamp: Date.now(),
+      },
+    ]);
+    if (pinning) {
+      setPinnedQuery(result);
+      setStatus(`Pinned ${result.rows.length} nodes for the next prompt`);
+    } else {
+      setStatus(`${result.rows.length} nodes; /graph pin adds them to the next prompt`);
+    }
+  };
+
+  const runImpactCommand = async (arg: string) => {
+    if (arg.toLowerCase() === 'off') {
+      setImpactSince(null);
+      setStatus('Impact context off');
+      return;
+    }
+
+    const since = arg || 'HEAD';
+    try {
+      const report = await new ImpactAnalyzer(graphState, git).analyzeSince(since);
+      setImpactSince(since);
+      setMessages(prev => [
+        ...prev,
+        {
+          id: Date.now().toString(),
+          role: 'system',
+          content: `/impact ${since}\n\n${formatImpactReport(report)}`,
+          timestamp: Date.now(),
+        },
+      ]);
+      setStatus(
+        `Impact since ${since}: ${report.dependents.length} dependents in ${report.byFile.length} files, ` +
+          `${report.tests.length} tests; included with each prompt until /impact off`
+      );
+    } catch (error) {
+      setStatus(`Impact analysis failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  };
+
+  const runOverlayCommand = async (arg: string) => {
+    const [action = 'list', ...rest] = arg.split(/\s+/).filter(Boolean);
+    const [name, other] = rest;
+
+    try {
+      switch (action.toLowerCase()) {
+        case 'list': {
+          const overlays = graphManager.listOverlays();
+          setStatus(
+            overlays.length === 0
+              ? 'No overlays yet. Use /overlay new <name> to start one.'
+              : 'Overlays: ' +
+                  overlays
+                    .map(
+                      overlay =>
+                        `${overlay.active ? '*' : ''}${overlay.name} (${overlay.modifiedPaths.length} files)`
+                    )
+                    .join(', ')
+          );
+          break;
+        }
+        case 'new': {
+          if (!name) {
+            setStatus('Usage: /overlay new <name>');
+            return;
+          }
+          setGraphState(graphManager.createOverlay(name));
+          setStatus(`Recording edits in overlay ${name}`);
+          break;
+        }
+        case 'switch': {
+          if (!name) {
+            setStatus('Usage: /overlay switch <name>');
+            return;
+          }
+          setGraphState(graphManager.switchOverlay(name));
+          setStatus(`Switched to overlay ${name}`);
+          break;
+        }
+        case 'compare': {
+          if (!name || !other) {
+            setStatus('Usage: /overlay compare <name> <other>');
+            return;
+          }
+          const comparison = graphManager.compareOverlays(name, other);
+          setStatus(
+            `${name} vs ${other}: ` +
+              `${comparison.sharedPaths.length} shared files, ` +
+              `${comparison.onlyInLeft.length} only in ${name}, ` +
+              `${comparison.onlyInRight.length} only in ${other}; ` +
+              `${comparison.diff.changedNodes.length} nodes differ`
+          );
+          break;
+        }
+        case 'merge': {
+          const resolution = CONFLICT_RESOLUTIONS.find(option => rest.includes(option));
+          const target = rest.find(token => token !== resolution);
+          setStatus('Merging overlay into graph...');
+          setGraphState(
+            await graphManager.mergeOverlay(
+              target,
+              resolution ? { resolveConflict: () => resolution } : undefined
+            )
+          );
+          setStatus('Graph updated; other overlays discarded');
+          break;
+        }
+        case 'discard': {
+          const target = name ?? graphManager.getActiveOverlayName();
+          setGraphState(await graphManager.discardOverlay(target));
+          setStatus(`Discarded overlay ${target}`);
+          break;
+        }
+        default:
+          setStatus('Usage: /overlay [list|new|switch|compare|merge|discard] ...');
+      }
+    } catch (error) {
+      if (error instanceof OverlayConflictError) {
+        setStatus(describeConflicts(error));
+        return;
+      }
+      setStatus(`Overlay command failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  };
+
   const finalizeOverlay = useCallback(
     async (reason?: string) => {
       if (!graphManager.hasPendingOverlay()) {
         return;
       }
 
+      // Named overlays hold alternative approaches; those are merged explicitly.
+      const activeOverlay = graphManager.getActiveOverlayName();
+      if (activeOverlay !== DEFAULT_OVERLAY_NAME || graphManager.listOverlays().length > 1) {
+        setStatus(`Edits recorded in overlay ${activeOverlay}; use /overlay merge to apply them`);
+        return;
+      }
+
       if (reason) {
         setStatus(reason);
       }
@@ -183,6 +413,10 @@ export function App({ graph, graphManager, apiKey, accountLabel, model, workingD
         setGraphState(updatedGraph);
         setStatus('Graph updated with latest edits');
       } catch (error) {
+        if (error instanceof OverlayConflictError) {
+          setStatus(describeConflicts(error));
+          return;
+        }
         setStatus(
           `Failed to update graph: ${error instanceof Error ? error.message : String(error)}`
         );
@@ -218,6 +452,7 @@ export function App({ graph, graphManager, apiKey, accountLabel, model, workingD
       const resolution = await resolver.resolve(trimmed, {
         recentPaths: [activeFilePath, ...recentFiles].filter(Boolean),
         limit: 3,
+        scope: activePackages.length > 0 ? PackageScope.fromGraph(graphState, activePackages) : undefined,
       });
 
       if (!resolution.primary) {
@@ -245,14 +480,39 @@ export function App({ graph, graphManager, apiKey, accountLabel, model, workingD
         trimmed,
         targetPath,
         TOKEN_BUDGET,
-        { candidateFilePaths: resolution.candidates.map(candidate => candidate.path) }
+        {
+          candidateFilePaths: resolution.candidates.map(candidate => candidate.path),
+          packages: activePackages,
+        }
       );
 
+      // Recomputed per prompt: the model's own edits change the diff between prompts.
+      // A failure only drops the impact context; the prompt still goes out.
+      let impact: ImpactReport | null = null;
+      if (impactSince) {
+        try {
+          impact = await new ImpactAnalyzer(graphState, git).analyzeSince(impactSince);
+        } catch (error) {
+          setMessages(prev => [
+            ...prev,
+            {
+              id: Date.now().toString(),
+              role: 'system',
+              content:
+                `Impact analysis since ${impactSince} failed; sending this prompt without impact context: ` +
+                (error instanceof Error ? error.message : String(error)),
+              timestamp: Date.now(),
+            },
+          ]);
+        }
+      }
+
       const inferredReason = resolution.primary.reasons[0] ?? 'Heuristic match';
       setStatus(
         `Context (${targetPath} • ${inferredReason}): ` +
           `${retrievalResult.targetNodes.length} targets, ` +
           `${retrievalResult.backwardDeps.length} dependents, ` +
+          `${retrievalResult.tests.length} tests, ` +
           `${retrievalResult.forwardDeps.length} dependencies`
       );
       setTokensSaved(prev => prev + retrievalResult.tokensSaved);
@@ -265,7 +525,7 @@ export function App({ graph, graphManager, apiKey, accountLabel, model, workingD
 
       const llmMessages = promptBuilder.build({
         userMessage: trimmed,
-        dependencyContext: formatDependencyContext(retrievalResult),
+        dependencyContext: formatDependencyContext(retrievalResult, { pinned: pinnedQuery, impact }),
         rules,
         conversation: priorMessagesForModel,
         metadata: {
@@ -274,6 +534,9 @@ export function App({ graph, graphManager, apiKey, accountLabel, model, workingD
         },
       });
 
+      // A pinned query result rides along with one prompt only.
+      setPinnedQuery(null);
+
       const stream = await client.chat({
         model,
         messages: llmMessages,
@@ -426,8 +689,20 @@ export function App({ graph, graphManager, apiKey, accountLabel, model, workingD
   );
 }
 
-function formatDependencyContext(ctx: DependencyContext): string {
-  return [
+function describeConflicts(error: OverlayConflictError): string {
+  return (
+    `${error.message}. Run /overlay merge [name] <${CONFLICT_RESOLUTIONS.join('|')}> ` +
+    'to keep the overlay, take the disk version, or re-record from disk.'
+  );
+}
+
+interface ExtraContext {
+  pinned: GraphQueryResult | null;
+  impact: ImpactReport | null;
+}
+
+function formatDependencyContext(ctx: DependencyContext, { pinned, impact }: ExtraContext): string {
+  const sections = [
     '# Code Context',
     '',
     '## Target (being modified):',
@@ -439,9 +714,33 @@ function formatDependencyContext(ctx: DependencyContext): string {
     '## Dependents (who imports/calls this code - MUST update these too):',
     ctx.backwardDeps.map(formatNode).join('\n\n') || 'None',
     '',
+    '## Tests (cases exercising this code):',
+    ctx.tests.map(formatNode).join('\n\n') || 'None',
+    '',
     '## Related context:',
     ctx.relatedByQuery.map(formatNode).join('\n\n') || 'None',
-  ].join('\n');
+  ];
+  if (impact) {
+    sections.push(
+      '',
+      '## Impact of the current changes (dependents that MUST be updated too):',
+      formatImpactReport(impact, IMPACT_FILE_LIMIT)
+    );
+  }
+  if (pinned) {
+    sections.push('', ...formatPinnedQuery(pinned));
+  }
+  return sections.join('\n');
+}
+
+function formatPinnedQuery(result: GraphQueryResult): string[] {
+  const nodes = result.rows.slice(0, PINNED_NODE_LIMIT).map(row => row.node);
+  return [
+    `## Pinned graph query (${result.query.source}):`,
+    formatQueryTable(result),
+    '',
+    nodes.map(formatNode).join('\n\n') || 'None',
+  ];
 }
 
 function formatNode(node: GraphNode): string {
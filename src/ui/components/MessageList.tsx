@@ -24,8 +24,9 @@ export function MessageList({
     <Box flexDirection="column" gap={0}>
       {visibleMessages.map((msg) => {
         const isUser = msg.role === 'user';
-        const borderColor = isUser ? 'blue' : 'green';
-        const labelColor = isUser ? 'blue' : 'green';
+        const isSystem = msg.role === 'system';
+        const borderColor = isUser ? 'blue' : isSystem ? 'gray' : 'green';
+        const labelColor = borderColor;
 
         return (
           <Box
@@ -37,7 +38,7 @@ export function MessageList({
             <Box flexDirection="column" alignItems={isUser ? 'flex-end' : 'flex-start'}>
               <Text dimColor>
                 <Text color={labelColor} bold>
-                  {isUser ? 'You' : assistantLabel}
+                  {isUser ? 'You' : isSystem ? 'CodeFlow' : assistantLabel}
                 </Text>
               </Text>
               <Box borderStyle="round" borderColor={borderColor} paddingX={1} paddingY={0} marginTop={0}>
@@ -52,6 +52,15 @@ export function WelcomeHero({ model, accountLabel, offline }: WelcomeHeroProps)
         <Text>
           {'  '}• Use <Text bold color="white">/file path/to/file.ts</Text> to set the focus file.
         </Text>
+        <Text>
+          {'  '}• In a monorepo, <Text bold color="white">/package @scope/name</Text> keeps context within workspace packages.
+        </Text>
+        <Text>
+          {'  '}• Explore the graph with <Text bold color="white">/graph callers(fn:name) depth 2</Text>, then <Text bold color="white">/graph pin</Text> to send the result with your next prompt.
+        </Text>
+        <Text>
+          {'  '}• <Text bold color="white">/impact [ref]</Text> tells the model which dependents of your changes must be updated too.
+        </Text>
         <Text>
           {'  '}• Ask for a plan, refactor, or new feature — CodeFlow pulls only the relevant context.
         </Text>
@@ -1,3 +1,5 @@
+import type { OverlayConflict } from '../graph/types.js';
+
 export class UserFacingError extends Error {
   constructor(message: string, options?: ErrorOptions) {
     super(message, options);
@@ -37,3 +39,21 @@ export function wrapWithUserMessage(error: unknown, fallback: string): UserFacin
     cause: error instanceof Error ? error : undefined,
   });
 }
+
+export class OverlayConflictError extends UserFacingError {
+  constructor(public readonly conflicts: OverlayConflict[]) {
+    super(
+      `Files changed on disk since they were recorded in the overlay: ${conflicts
+        .map(conflict => conflict.path)
+        .join(', ')}`
+    );
+    this.name = 'OverlayConflictError';
+  }
+}
+
+export class GraphQueryError extends UserFacingError {
+  constructor(message: string, public readonly column?: number) {
+    super(column === undefined ? message : `${message} (column ${column})`);
+    this.name = 'GraphQueryError';
+  }
+}
@@ -1,6 +1,10 @@
 // tests/integration/dependency-retrieval.test.ts (NEW FILE)
-import { describe, it, expect, beforeAll } from 'vitest';
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
 import { CodeGraph } from '../../src/graph/CodeGraph.js';
+import { GraphBuilder } from '../../src/graph/GraphBuilder.js';
 import { DependencyAwareRetriever } from '../../src/retrieval/DependencyAwareRetriever.js';
 
 class StubEmbedder {
@@ -255,3 +259,183 @@ describe('Dependency-Aware Retrieval', () => {
     `);
   });
 });
+
+describe('Dependency-Aware Retrieval for declarations', () => {
+  let tempDir: string;
+  let retriever: DependencyAwareRetriever;
+
+  beforeAll(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'dependency-declarations-'));
+    await fs.writeFile(
+      path.join(tempDir, 'shape.ts'),
+      'export interface Shape {\n  area(): number;\n}\n',
+      'utf-8'
+    );
+    await fs.writeFile(
+      path.join(tempDir, 'square.ts'),
+      "import { Shape } from './shape';\n\nexport class Square implements Shape {\n  area() {\n    return 4;\n  }\n}\n",
+      'utf-8'
+    );
+    await fs.writeFile(
+      path.join(tempDir, 'report.ts'),
+      "import { Shape } from './shape';\n\nexport function describeShape(shape: Shape) {\n  return String(shape.area());\n}\n",
+      'utf-8'
+    );
+
+    const graph = await new GraphBuilder(tempDir).build();
+    retriever = new DependencyAwareRetriever(graph, { embedder: new StubEmbedder() });
+    await retriever.initialize();
+  });
+
+  afterAll(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('pulls in implementers and consumers of a changed interface', async () => {
+    const context = await retriever.buildContextForChange('change the Shape interface', 'shape.ts', 10000);
+
+    expect(context.targetNodes[0].name).toBe('Shape');
+    expect(context.backwardDeps.map(node => node.name)).toEqual(
+      expect.arrayContaining(['Square', 'describeShape'])
+    );
+  });
+});
+
+describe('Dependency-Aware Retrieval tests section', () => {
+  let tempDir: string;
+  let retriever: DependencyAwareRetriever;
+
+  beforeAll(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'dependency-tests-'));
+    await fs.writeFile(
+      path.join(tempDir, 'pricing.ts'),
+      'export function applyDiscount(total: number, rate: number) {\n  return total * (1 - rate);\n}\n',
+      'utf-8'
+    );
+    await fs.writeFile(
+      path.join(tempDir, 'pricing.spec.ts'),
+      "import { applyDiscount } from './pricing';\n\n" +
+        "describe('applyDiscount', () => {\n" +
+        "  it('takes the rate off the total', () => {\n" +
+        '    expect(applyDiscount(100, 0.1)).toBe(90);\n' +
+        '  });\n' +
+        '});\n',
+      'utf-8'
+    );
+
+    const graph = await new GraphBuilder(tempDir).build();
+    retriever = new DependencyAwareRetriever(graph, { embedder: new StubEmbedder() });
+    await retriever.initialize();
+  });
+
+  afterAll(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('includes the tests that exercise the target in their own section', async () => {
+    const context = await retriever.buildContextForChange('change applyDiscount', 'pricing.ts', 10000);
+
+    expect(context.targetNodes.map(node => node.name)).toContain('applyDiscount');
+    expect(context.tests.map(node => node.name)).toEqual(['takes the rate off the total']);
+    expect(context.backwardDeps.map(node => node.type)).not.toContain('test');
+    expect(context.formattedContext).toContain('# TESTS');
+  });
+});
+
+describe('Dependency-Aware Retrieval edge confidence', () => {
+  let retriever: DependencyAwareRetriever;
+
+  beforeAll(async () => {
+    const graph = new CodeGraph();
+    const addFunction = (name: string, path: string) =>
+      graph.addNode({
+        type: 'function',
+        name,
+        path,
+        content: `function ${name}() {}`,
+        startLine: 1,
+        endLine: 3,
+        metadata: { exported: true },
+      });
+
+    const save = addFunction('saveRecord', 'src/store.ts');
+    const direct = addFunction('persistUser', 'src/users.ts');
+    const guessed = addFunction('syncAll', 'src/sync.ts');
+    const noise = addFunction('flushQueue', 'src/queue.ts');
+
+    graph.addEdge({ from: direct.id, to: save.id, type: 'calls', metadata: { confidence: 0.95 } });
+    graph.addEdge({ from: guessed.id, to: save.id, type: 'calls', metadata: { confidence: 0.4 } });
+    graph.addEdge({ from: noise.id, to: save.id, type: 'calls', metadata: { confidence: 0.1 } });
+
+    retriever = new DependencyAwareRetriever(graph, { embedder: new StubEmbedder() });
+    await retriever.initialize();
+  });
+
+  it('drops low-confidence callers and ranks the rest by confidence', async () => {
+    const wide = await retriever.buildContextForChange('change saveRecord', 'src/store.ts', 10000, {
+      breadthLimit: 3,
+    });
+    expect(wide.backwardDeps.map(node => node.name).sort()).toEqual(['persistUser', 'syncAll']);
+
+    const narrow = await retriever.buildContextForChange('change saveRecord', 'src/store.ts', 10000, {
+      breadthLimit: 1,
+    });
+    expect(narrow.backwardDeps.map(node => node.name)).toEqual(['persistUser']);
+  });
+});
+
+describe('Dependency-Aware Retrieval package scope', () => {
+  let retriever: DependencyAwareRetriever;
+
+  beforeAll(async () => {
+    const graph = new CodeGraph();
+    for (const [name, directory] of [['@acme/core', 'packages/core'], ['@acme/web', 'apps/web']]) {
+      graph.addNode({
+        type: 'package',
+        name,
+        path: directory,
+        content: '',
+        startLine: 0,
+        endLine: 0,
+        metadata: { workspace: true, directory },
+      });
+    }
+    const addFunction = (name: string, path: string) =>
+      graph.addNode({
+        type: 'function',
+        name,
+        path,
+        content: `function ${name}() {}`,
+        startLine: 1,
+        endLine: 3,
+        metadata: { exported: true },
+      });
+
+    const format = addFunction('formatTitle', 'packages/core/src/format.ts');
+    const heading = addFunction('renderHeading', 'packages/core/src/heading.ts');
+    const page = addFunction('renderPage', 'apps/web/src/page.ts');
+    graph.addEdge({ from: heading.id, to: format.id, type: 'calls', metadata: {} });
+    graph.addEdge({ from: page.id, to: format.id, type: 'calls', metadata: {} });
+
+    retriever = new DependencyAwareRetriever(graph, { embedder: new StubEmbedder() });
+    await retriever.initialize();
+  });
+
+  it('keeps dependencies inside the selected packages', async () => {
+    const unscoped = await retriever.buildContextForChange('change formatTitle', 'packages/core/src/format.ts', 10000);
+    expect(unscoped.backwardDeps.map(node => node.name).sort()).toEqual(['renderHeading', 'renderPage']);
+
+    const scoped = await retriever.buildContextForChange('change formatTitle', 'packages/core/src/format.ts', 10000, {
+      packages: ['@acme/core'],
+    });
+    expect(scoped.backwardDeps.map(node => node.name)).toEqual(['renderHeading']);
+  });
+
+  it('rejects packages the graph does not know', async () => {
+    await expect(
+      retriever.buildContextForChange('change formatTitle', 'packages/core/src/format.ts', 10000, {
+        packages: ['@acme/missing'],
+      })
+    ).rejects.toThrow(/Unknown workspace package: @acme\/missing/);
+  });
+});
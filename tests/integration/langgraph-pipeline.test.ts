@@ -6,7 +6,7 @@ import { EvaluationAgent } from '../../src/orchestration/EvaluationAgent.js';
 import type { InitializeResult } from '../../src/graph/GraphManager.js';
 import { InMemoryGraphStore } from '../../src/graph/store/InMemoryGraphStore.js';
 import { GraphManager } from '../../src/graph/GraphManager.js';
-import type { GraphEdge, GraphNode } from '../../src/graph/CodeGraph.js';
+import type { GraphEdge, GraphNode, GraphView } from '../../src/graph/CodeGraph.js';
 import type { RetrievalComponents } from '../../src/orchestration/LangGraphPipeline.js';
 import { DependencyAwareRetriever } from '../../src/retrieval/DependencyAwareRetriever.js';
 import { TargetResolver } from '../../src/retrieval/TargetResolver.js';
@@ -113,7 +113,7 @@ class StubGraphManager implements GraphManagerLike {
     return this.delegate.initialize(forceRebuild);
   }
 
-  getGraph(): CodeGraph {
+  getGraph(): GraphView {
     return this.delegate.getGraph();
   }
 }
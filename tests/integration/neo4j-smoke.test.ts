@@ -57,5 +57,30 @@ if (!shouldRun) {
       expect(loaded).not.toBeNull();
       expect(loaded!.getNodesByPath(fileNode.path).length).toBeGreaterThan(0);
     });
+
+    it('keeps snapshot history for time-travel loads', async () => {
+      const [previous] = await store.listSnapshots();
+      const graph = (await store.load())!;
+      graph.addNode({
+        type: 'function',
+        name: 'helper',
+        path: 'src/index.ts',
+        content: 'export function helper() {}',
+        startLine: 5,
+        endLine: 5,
+        metadata: {},
+      });
+      await store.save(graph);
+
+      const snapshots = await store.listSnapshots();
+      expect(snapshots[0].id).not.toBe(previous.id);
+      expect(snapshots[1].supersededAt).not.toBeNull();
+
+      const historical = await store.load(previous.id);
+      expect(historical!.getAllNodes().some(node => node.name === 'helper')).toBe(false);
+
+      const diff = await store.diffSnapshots(previous.id, snapshots[0].id);
+      expect(diff.addedNodes.map(node => node.name)).toEqual(['helper']);
+    });
   });
 }
@@ -0,0 +1,131 @@
+import { describe, it, expect } from 'vitest';
+import { DocumentExtractor, headingAnchor } from '../../src/parser/DocumentExtractor.js';
+
+const extractor = new DocumentExtractor();
+
+describe('DocumentExtractor', () => {
+  it('indexes JSON keys by path, tolerating comments and trailing commas', () => {
+    const entries = extractor.extract(
+      `{
+  // feature flags
+  "features": {
+    "newCheckout": true,
+    "banner": "Summer sale",
+  },
+  "plugins": [{ "name": "ignored" }],
+}
+`,
+      'json'
+    );
+
+    expect(entries.map(entry => entry.key)).toEqual([
+      'features',
+      'features.newCheckout',
+      'features.banner',
+      'plugins',
+    ]);
+    const flag = entries.find(entry => entry.key === 'features.newCheckout')!;
+    expect(flag).toMatchObject({ type: 'config_key', parentKey: 'features', startLine: 4, endLine: 4 });
+    expect(flag.metadata.value).toBe('true');
+    expect(entries.find(entry => entry.key === 'features.banner')?.metadata.value).toBe('Summer sale');
+    expect(entries.find(entry => entry.key === 'features')).toMatchObject({ startLine: 3, endLine: 6 });
+  });
+
+  it('returns no entries for malformed JSON', () => {
+    expect(extractor.extract('{ "a": ', 'json')).toEqual([]);
+  });
+
+  it('indexes YAML mapping keys, keeping sequences and block scalars whole', () => {
+    const entries = extractor.extract(
+      `server:
+  port: 8080 # default
+  motd: |
+    welcome: friends
+  hosts:
+    - name: a
+      weight: 1
+  timeout: "30s"
+flags:
+  beta_search: false
+`,
+      'yaml'
+    );
+
+    expect(entries.map(entry => entry.key)).toEqual([
+      'server',
+      'server.port',
+      'server.motd',
+      'server.hosts',
+      'server.timeout',
+      'flags',
+      'flags.beta_search',
+    ]);
+    expect(entries.find(entry => entry.key === 'server.port')?.metadata.value).toBe('8080');
+    expect(entries.find(entry => entry.key === 'server.timeout')?.metadata.value).toBe('30s');
+    expect(entries.find(entry => entry.key === 'server.hosts')).toMatchObject({ startLine: 5, endLine: 7 });
+    expect(entries.find(entry => entry.key === 'server')).toMatchObject({ startLine: 1, endLine: 8 });
+  });
+
+  it('splits Markdown into nested sections with GitHub anchors', () => {
+    const entries = extractor.extract(
+      `---
+title: Auth
+---
+# Auth flow
+Intro.
+
+\`\`\`bash
+# not a heading
+\`\`\`
+
+## Login & tokens
+Tokens expire.
+
+## Login & tokens
+Again.
+
+# FAQ
+`,
+      'markdown'
+    );
+
+    expect(entries.map(entry => [entry.key, entry.parentKey, entry.startLine, entry.endLine])).toEqual([
+      ['auth-flow', undefined, 4, 16],
+      ['login--tokens', 'auth-flow', 11, 13],
+      ['login--tokens-1', 'auth-flow', 14, 16],
+      ['faq', undefined, 17, 18],
+    ]);
+    expect(entries[1].content).toBe('## Login & tokens\nTokens expire.');
+    expect(headingAnchor('Use [the API](api.md) `v2`')).toBe('use-the-api-v2');
+  });
+
+  it('splits SQL scripts into statements named by the object they touch', () => {
+    const entries = extractor.extract(
+      `-- accounts
+CREATE TABLE IF NOT EXISTS "users" (
+  id serial primary key,
+  note text default 'a;b'
+);
+
+CREATE FUNCTION touch() RETURNS trigger AS $$
+BEGIN
+  NEW.updated = now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+insert into users (note) values ('hi');
+VACUUM;
+`,
+      'sql'
+    );
+
+    expect(entries.map(entry => [entry.name, entry.metadata.statement, entry.startLine, entry.endLine])).toEqual([
+      ['users', 'CREATE TABLE', 2, 5],
+      ['touch', 'CREATE FUNCTION', 7, 12],
+      ['users', 'INSERT', 14, 14],
+      ['VACUUM', 'VACUUM', 15, 15],
+    ]);
+    expect(new Set(entries.map(entry => entry.key)).size).toBe(entries.length);
+  });
+});
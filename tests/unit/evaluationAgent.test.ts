@@ -41,6 +41,7 @@ function createContext(primaryPath: string, candidatePaths: string[], tokens: {
     targetNodes: [node],
     forwardDeps: [],
     backwardDeps: [],
+    tests: [],
     relatedByQuery: [],
     totalTokens: tokens.used,
     tokensUsed: tokens.used,
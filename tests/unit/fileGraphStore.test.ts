@@ -0,0 +1,162 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import os from 'os';
+import { CodeGraph } from '../../src/graph/CodeGraph.js';
+import { FileGraphStore, FILE_STORE_SCHEMA_VERSION } from '../../src/graph/store/FileGraphStore.js';
+import { createGraphStore } from '../../src/graph/store/factory.js';
+
+function createGraph(): CodeGraph {
+  const graph = new CodeGraph();
+  graph.upsertNode({
+    id: 'file-auth',
+    type: 'file',
+    name: 'auth.ts',
+    path: 'src/auth.ts',
+    content: 'export function login() {}',
+    startLine: 1,
+    endLine: 1,
+    embedding: [0.25, 0.5, 0.75],
+    metadata: { language: 'typescript', digest: 'digest-auth' },
+  });
+  graph.upsertNode({
+    id: 'fn-login',
+    type: 'function',
+    name: 'login',
+    path: 'src/auth.ts',
+    content: 'export function login() {}',
+    startLine: 1,
+    endLine: 1,
+    metadata: { exported: true },
+  });
+  graph.upsertEdge({
+    id: 'edge-contains',
+    from: 'file-auth',
+    to: 'fn-login',
+    type: 'contains',
+    metadata: { source: 'ast' },
+  });
+  return graph;
+}
+
+describe('FileGraphStore', () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'codeflow-file-store-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('returns null before anything has been saved', async () => {
+    const store = new FileGraphStore({ kind: 'file', namespace: tempDir });
+    await expect(store.load()).resolves.toBeNull();
+  });
+
+  it('round-trips nodes, edges, digests and embeddings through disk', async () => {
+    await new FileGraphStore({ kind: 'file', namespace: tempDir }).save(createGraph());
+
+    const reopened = new FileGraphStore({ kind: 'file', namespace: tempDir });
+    const loaded = await reopened.load();
+
+    expect(loaded?.getAllNodes()).toHaveLength(2);
+    expect(loaded?.getAllEdges()).toHaveLength(1);
+    expect(loaded?.getNode('file-auth')?.embedding).toEqual([0.25, 0.5, 0.75]);
+    expect(loaded?.getNode('fn-login')?.embedding).toBeUndefined();
+    expect(loaded?.getNode('fn-login')?.metadata.exported).toBe(true);
+
+    const manifest = await reopened.readManifest();
+    expect(manifest?.version).toBe(FILE_STORE_SCHEMA_VERSION);
+    expect(manifest?.digests).toEqual({ 'src/auth.ts': 'digest-auth' });
+  });
+
+  it('decodes node content only when it is first read', async () => {
+    const graph = createGraph();
+    graph.upsertNode({ ...graph.getNode('fn-login')!, content: 'export function login() { return "café ✓"; }' });
+    await new FileGraphStore({ kind: 'file', namespace: tempDir }).save(graph);
+
+    const loaded = await new FileGraphStore({ kind: 'file', namespace: tempDir }).load();
+    const node = loaded?.getNode('fn-login');
+    expect(Object.getOwnPropertyDescriptor(node, 'content')?.get).toBeTypeOf('function');
+    expect(node?.content).toBe('export function login() { return "café ✓"; }');
+    expect(loaded?.getNode('file-auth')?.content).toBe('export function login() {}');
+  });
+
+  it('keeps earlier snapshots loadable and diffable across sessions', async () => {
+    const store = new FileGraphStore({ kind: 'file', namespace: tempDir });
+    await store.save(createGraph());
+    const refactored = createGraph();
+    refactored.removeNode('fn-login');
+    await store.save(refactored);
+
+    const reopened = new FileGraphStore({ kind: 'file', namespace: tempDir });
+    const [latest, earlier] = await reopened.listSnapshots();
+    expect(latest).toMatchObject({ nodeCount: 1, supersededAt: null });
+    expect(earlier).toMatchObject({ nodeCount: 2, supersededAt: latest.createdAt });
+
+    expect((await reopened.load(earlier.id))?.getNode('fn-login')?.content).toBe('export function login() {}');
+    expect((await reopened.load())?.getNode('fn-login')).toBeUndefined();
+    await expect(reopened.load('unknown')).resolves.toBeNull();
+    const diff = await reopened.diffSnapshots(earlier.id, latest.id);
+    expect(diff.removedNodes.map(node => node.id)).toEqual(['fn-login']);
+  });
+
+  it('writes under .codeflow/graph by default, deleting snapshots past maxSnapshots', async () => {
+    const store = new FileGraphStore({ kind: 'file', namespace: tempDir, maxSnapshots: 2 });
+    for (let save = 0; save < 3; save++) {
+      await store.save(createGraph());
+    }
+
+    const directory = path.join(tempDir, '.codeflow', 'graph');
+    expect((await fs.readdir(directory)).sort()).toEqual(['manifest.json', 'snapshots']);
+    const retained = (await store.listSnapshots()).map(snapshot => snapshot.id);
+    expect(retained).toHaveLength(2);
+    expect((await fs.readdir(path.join(directory, 'snapshots'))).sort()).toEqual([...retained].sort());
+    expect((await fs.readdir(path.join(directory, 'snapshots', retained[0]))).sort()).toEqual([
+      'content.bin',
+      'embeddings.bin',
+      'graph.json',
+    ]);
+  });
+
+  it('keeps loading the previous snapshot when a save fails before its manifest is written', async () => {
+    const store = new FileGraphStore({ kind: 'file', namespace: tempDir });
+    await store.save(createGraph());
+
+    const updated = createGraph();
+    updated.upsertNode({ ...updated.getNode('file-auth')!, embedding: [9, 9, 9, 9] });
+    // A directory where the manifest's temporary file goes makes the save fail after the data files are written.
+    await fs.mkdir(path.join(tempDir, '.codeflow', 'graph', 'manifest.json.tmp'));
+    await expect(store.save(updated)).rejects.toThrow();
+
+    const loaded = await new FileGraphStore({ kind: 'file', namespace: tempDir }).load();
+    expect(loaded?.getNode('file-auth')?.embedding).toEqual([0.25, 0.5, 0.75]);
+  });
+
+  it('ignores stores written by a newer schema version', async () => {
+    const store = new FileGraphStore({ kind: 'file', namespace: tempDir });
+    await store.save(createGraph());
+    const manifestPath = path.join(tempDir, '.codeflow', 'graph', 'manifest.json');
+    const manifest = JSON.parse(await fs.readFile(manifestPath, 'utf-8'));
+    await fs.writeFile(
+      manifestPath,
+      JSON.stringify({ ...manifest, version: FILE_STORE_SCHEMA_VERSION + 1 }),
+      'utf-8'
+    );
+
+    const reopened = new FileGraphStore({ kind: 'file', namespace: tempDir });
+    await expect(reopened.load()).resolves.toBeNull();
+  });
+
+  it('clears persisted state', async () => {
+    const store = await createGraphStore({ kind: 'file', namespace: tempDir });
+    await store.save(createGraph());
+    await store.clear();
+
+    await expect(store.load()).resolves.toBeNull();
+    const reopened = new FileGraphStore({ kind: 'file', namespace: tempDir });
+    await expect(reopened.load()).resolves.toBeNull();
+  });
+});
@@ -2,6 +2,7 @@ import { describe, it, expect } from 'vitest';
 import os from 'os';
 import path from 'path';
 import * as fs from 'fs/promises';
+import { simpleGit } from 'simple-git';
 import { SyntaxValidator } from '../../src/files/SyntaxValidator.js';
 import { GitIntegration } from '../../src/files/GitIntegration.js';
 
@@ -27,4 +28,25 @@ describe('GitIntegration', () => {
     const git = new GitIntegration(tmpDir);
     expect(await git.isRepository()).toBe(false);
   });
+
+  it('lists changed line ranges and untracked files since a ref', async () => {
+    const tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'codeflow-git-'));
+    const repo = simpleGit(tmpDir);
+    await repo.init();
+    await repo.addConfig('user.email', 'dev@example.com').addConfig('user.name', 'Dev');
+    await fs.writeFile(path.join(tmpDir, 'a.ts'), ['one', 'two', 'three', 'four'].join('\n') + '\n');
+    await fs.writeFile(path.join(tmpDir, 'b.ts'), 'gone\n');
+    await repo.add(['-A']).commit('initial');
+
+    await fs.writeFile(path.join(tmpDir, 'a.ts'), ['one', 'TWO', 'three', 'four', 'five'].join('\n') + '\n');
+    await fs.rm(path.join(tmpDir, 'b.ts'));
+    await fs.writeFile(path.join(tmpDir, 'c.ts'), 'new\n');
+
+    const changes = await new GitIntegration(tmpDir).changedFiles();
+    expect(changes).toEqual([
+      { path: 'a.ts', status: 'modified', ranges: [{ start: 2, end: 2 }, { start: 5, end: 5 }] },
+      { path: 'b.ts', status: 'deleted', ranges: [] },
+      { path: 'c.ts', status: 'added', ranges: [] },
+    ]);
+  });
 });
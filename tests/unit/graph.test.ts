@@ -1,5 +1,6 @@
 import { describe, it, expect } from 'vitest';
 import { CodeGraph } from '../../src/graph/CodeGraph.js';
+import { GraphWalker, type GraphPath } from '../../src/graph/GraphWalker.js';
 
 describe('CodeGraph', () => {
   it('adds and retrieves nodes', () => {
@@ -68,4 +69,159 @@ describe('CodeGraph', () => {
     expect(clone.getAllNodes()).toHaveLength(1);
     expect(clone).not.toBe(graph);
   });
+
+  describe('incoming edge index', () => {
+    function createCallGraph(): CodeGraph {
+      const graph = new CodeGraph();
+      for (const id of ['caller', 'other', 'callee']) {
+        graph.upsertNode({
+          id,
+          type: 'function',
+          name: id,
+          path: `src/${id}.ts`,
+          content: '',
+          startLine: 1,
+          endLine: 1,
+          metadata: {},
+        });
+      }
+      graph.upsertEdge({ id: 'e1', from: 'caller', to: 'callee', type: 'calls', metadata: {} });
+      graph.upsertEdge({ id: 'e2', from: 'other', to: 'callee', type: 'references', metadata: {} });
+      return graph;
+    }
+
+    it('returns incoming edges and predecessors by edge type', () => {
+      const graph = createCallGraph();
+
+      expect(graph.getIncomingEdges('callee').map(edge => edge.id).sort()).toEqual(['e1', 'e2']);
+      expect(graph.getPredecessors('callee', 'calls').map(node => node.id)).toEqual(['caller']);
+      expect(graph.getIncomingEdges('caller')).toEqual([]);
+    });
+
+    it('stays consistent when edges are re-pointed and nodes removed', () => {
+      const graph = createCallGraph();
+      graph.upsertEdge({ id: 'e1', from: 'caller', to: 'other', type: 'calls', metadata: {} });
+
+      expect(graph.getPredecessors('callee').map(node => node.id)).toEqual(['other']);
+      expect(graph.getPredecessors('other').map(node => node.id)).toEqual(['caller']);
+
+      graph.removeNode('other');
+      expect(graph.getIncomingEdges('callee')).toEqual([]);
+      expect(graph.getOutgoingEdges('caller')).toEqual([]);
+      expect(graph.getAllEdges()).toEqual([]);
+    });
+
+    it('survives clone and JSON round trips', () => {
+      const graph = createCallGraph();
+      const clone = graph.clone();
+      clone.removeNode('caller');
+
+      expect(graph.getIncomingEdges('callee')).toHaveLength(2);
+      expect(clone.getIncomingEdges('callee').map(edge => edge.id)).toEqual(['e2']);
+      expect(CodeGraph.fromJSON(graph.toJSON()).getPredecessors('callee')).toHaveLength(2);
+    });
+  });
+});
+
+describe('GraphWalker', () => {
+  function createModuleGraph(): CodeGraph {
+    const graph = new CodeGraph();
+    for (const id of ['cli', 'app', 'manager', 'factory', 'neo4j', 'scratch', 'notes']) {
+      graph.upsertNode({
+        id,
+        type: 'file',
+        name: id,
+        path: `src/${id}.ts`,
+        content: '',
+        startLine: 1,
+        endLine: 1,
+        metadata: {},
+      });
+    }
+    const edges: Array<[string, string, 'imports' | 'calls' | 'references', number?]> = [
+      ['cli', 'app', 'imports'],
+      ['app', 'manager', 'imports'],
+      ['app', 'factory', 'imports'],
+      ['manager', 'factory', 'imports'],
+      ['factory', 'neo4j', 'imports'],
+      ['cli', 'manager', 'calls', 0.4],
+      ['scratch', 'notes', 'references'],
+    ];
+    for (const [from, to, type, confidence] of edges) {
+      graph.upsertEdge({
+        id: `${from}->${to}`,
+        from,
+        to,
+        type,
+        metadata: confidence === undefined ? {} : { confidence },
+      });
+    }
+    return graph;
+  }
+
+  const route = (path: GraphPath | null) => path?.nodes.map(node => node.id);
+
+  it('walks outgoing, incoming or both directions', () => {
+    const walker = new GraphWalker(createModuleGraph());
+
+    expect(walker.bfs('factory', 1).map(node => node.id)).toEqual(['factory', 'neo4j']);
+    expect(walker.bfs('factory', 1, { direction: 'in' }).map(node => node.id)).toEqual([
+      'factory',
+      'app',
+      'manager',
+    ]);
+    expect(walker.dfs('manager', 1, { direction: 'both', edgeTypes: ['imports'] }).map(node => node.id)).toEqual([
+      'manager',
+      'factory',
+      'app',
+    ]);
+  });
+
+  it('finds the cheapest path, weighting edges by type cost and confidence', () => {
+    const walker = new GraphWalker(createModuleGraph());
+
+    const path = walker.shortestPath('cli', 'neo4j');
+    expect(route(path)).toEqual(['cli', 'app', 'factory', 'neo4j']);
+    expect(path?.cost).toBe(3);
+
+    const cheapCalls = walker.shortestPath('cli', 'neo4j', { edgeCosts: { calls: 0.1 } });
+    expect(route(cheapCalls)).toEqual(['cli', 'manager', 'factory', 'neo4j']);
+    expect(cheapCalls?.cost).toBeCloseTo(2.25);
+
+    const backwards = walker.shortestPath('neo4j', 'cli', { direction: 'in' });
+    expect(route(backwards)).toEqual(['neo4j', 'factory', 'app', 'cli']);
+    expect(backwards?.steps.every(step => !step.forward)).toBe(true);
+
+    expect(walker.shortestPath('cli', 'notes')).toBeNull();
+  });
+
+  it('ranks alternative routes with k shortest paths', () => {
+    const walker = new GraphWalker(createModuleGraph());
+
+    const paths = walker.kShortestPaths('cli', 'neo4j', 5);
+    expect(paths.map(route)).toEqual([
+      ['cli', 'app', 'factory', 'neo4j'],
+      ['cli', 'app', 'manager', 'factory', 'neo4j'],
+      ['cli', 'manager', 'factory', 'neo4j'],
+    ]);
+    expect(paths.map(path => path.cost)).toEqual([3, 4, 4.5]);
+
+    expect(walker.kShortestPaths('cli', 'neo4j', 5, { edgeTypes: ['imports'] })).toHaveLength(2);
+  });
+
+  it('computes undirected connected components', () => {
+    const walker = new GraphWalker(createModuleGraph());
+
+    expect(walker.findConnectedComponent('neo4j').map(node => node.id).sort()).toEqual([
+      'app',
+      'cli',
+      'factory',
+      'manager',
+      'neo4j',
+    ]);
+    expect(walker.connectedComponents().map(component => component.length)).toEqual([5, 2]);
+    expect(walker.connectedComponents({ edgeTypes: ['calls'] }).map(component => component.length)).toEqual([
+      2, 1, 1, 1, 1, 1,
+    ]);
+  });
 });
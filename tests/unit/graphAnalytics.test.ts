@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest';
+import { CodeGraph, type GraphEdge, type GraphNode } from '../../src/graph/CodeGraph.js';
+import { GraphAnalytics } from '../../src/graph/GraphAnalytics.js';
+import { HybridReranker } from '../../src/retrieval/HybridReranker.js';
+import type { FusedCandidate } from '../../src/retrieval/CandidateFusion.js';
+
+function createProjectGraph(): CodeGraph {
+  const graph = new CodeGraph();
+  const node = (id: string, type: GraphNode['type'], path: string, metadata: Record<string, unknown> = {}) =>
+    graph.upsertNode({ id, type, name: id, path, content: '', startLine: 1, endLine: 3, metadata });
+  const edge = (from: string, to: string, type: GraphEdge['type'], metadata: Record<string, unknown> = {}) =>
+    graph.upsertEdge({ id: `${from}-${type}-${to}`, from, to, type, metadata });
+
+  for (const name of ['a', 'b', 'c', 'main', 'util', 'unused']) {
+    node(`${name}.ts`, 'file', `src/${name}.ts`, { language: 'typescript' });
+  }
+  node('main.test.ts', 'file', 'tests/main.test.ts', { language: 'typescript', test: true });
+  node('README.md', 'file', 'README.md', { language: 'markdown' });
+  node('format', 'function', 'src/util.ts');
+  node('run', 'function', 'src/main.ts');
+  node('helper', 'function', 'src/unused.ts');
+  node('parse', 'function', 'src/a.ts');
+
+  edge('a.ts', 'b.ts', 'imports');
+  edge('b.ts', 'c.ts', 'imports');
+  edge('c.ts', 'a.ts', 'imports');
+  edge('main.ts', 'util.ts', 'imports');
+  edge('main.ts', 'a.ts', 'imports');
+  edge('util.ts', 'format', 'contains');
+  edge('main.ts', 'run', 'contains');
+  edge('unused.ts', 'helper', 'contains');
+  edge('a.ts', 'parse', 'contains');
+  edge('run', 'format', 'calls');
+  edge('parse', 'format', 'calls', { confidence: 0.4 });
+  edge('helper', 'format', 'calls');
+  edge('run', 'parse', 'calls');
+  edge('main.test.ts', 'run', 'tests');
+  return graph;
+}
+
+describe('GraphAnalytics', () => {
+  it('finds import cycles as strongly connected components', () => {
+    const analytics = new GraphAnalytics(createProjectGraph());
+
+    expect(analytics.importCycles().map(cycle => cycle.map(node => node.id).sort())).toEqual([
+      ['a.ts', 'b.ts', 'c.ts'],
+    ]);
+  });
+
+  it('ranks nodes by PageRank and reports fan-in/fan-out hotspots', () => {
+    const analysis = new GraphAnalytics(createProjectGraph()).analyze();
+
+    // The import cycle keeps passing rank around, so its files outrank everything else.
+    const ranked = Array.from(analysis.centrality).sort((a, b) => b[1] - a[1]);
+    expect(ranked[0]).toEqual(['a.ts', 1]);
+    const functions = ['format', 'parse', 'run', 'helper'].sort(
+      (a, b) => analysis.centrality.get(b)! - analysis.centrality.get(a)!
+    );
+    expect(functions[0]).toBe('format');
+    expect(analysis.centrality.get('run')).toBeLessThan(analysis.centrality.get('parse')!);
+
+    expect(analysis.hotspots.map(({ node, fanIn, fanOut }) => [node.id, fanIn, fanOut])).toEqual([
+      ['format', 3, 0],
+      ['parse', 1, 1],
+      ['run', 0, 2],
+      ['helper', 0, 1],
+    ]);
+  });
+
+  it('lists source files nothing else depends on, skipping tests and documents', () => {
+    const analysis = new GraphAnalytics(createProjectGraph()).analyze();
+
+    expect(analysis.orphans.map(node => node.id)).toEqual(['main.ts', 'unused.ts']);
+  });
+
+  it('stores the results in node metadata and feeds the reranker', async () => {
+    const graph = createProjectGraph();
+    new GraphAnalytics(graph).annotate();
+
+    expect(graph.getNode('a.ts')?.metadata.centrality).toBe(1);
+    expect(graph.getNode('format')?.metadata).toMatchObject({ fanIn: 3, fanOut: 0, inDegree: 3 });
+    expect(graph.getNode('b.ts')?.metadata.importCycle).toBe(1);
+    expect(graph.getNode('main.ts')?.metadata.orphan).toBe(true);
+
+    graph.upsertEdge({ id: 'util-imports-main', from: 'util.ts', to: 'main.ts', type: 'imports', metadata: {} });
+    new GraphAnalytics(graph).annotate();
+    expect(graph.getNode('main.ts')?.metadata.orphan).toBeUndefined();
+
+    const candidate = (id: string): FusedCandidate => ({ id, fusedScore: 1, rank: 1, sources: new Map([['ANN', 0.5]]) });
+    const results = await new HybridReranker().rerank(
+      'query',
+      ['helper', 'format'].map(id => ({ candidate: candidate(id), node: graph.getNode(id) })),
+      2
+    );
+    expect(results.map(result => result.id)).toEqual(['format', 'helper']);
+  });
+});
@@ -4,6 +4,7 @@ import * as path from 'path';
 import * as os from 'os';
 import { GraphBuilder } from '../../src/graph/GraphBuilder.js';
 import { CodeGraph } from '../../src/graph/CodeGraph.js';
+import { ParsePool } from '../../src/graph/ParsePool.js';
 
 describe('GraphBuilder AST enrichment', () => {
   let tempDir: string;
@@ -73,3 +74,656 @@ export function validateToken() {
   });
 });
 
+
+describe('GraphBuilder cross-file edges', () => {
+  let tempDir: string;
+  let graph: CodeGraph;
+
+  const countEdges = (type: string) =>
+    graph.getAllEdges().filter(edge => edge.type === type).length;
+
+  const findNode = (name: string) => graph.getAllNodes().find(node => node.name === name);
+
+  beforeAll(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'graph-builder-repo-'));
+    await fs.mkdir(path.join(tempDir, 'src'), { recursive: true });
+
+    await fs.writeFile(
+      path.join(tempDir, 'src', 'base.ts'),
+      `
+export class Repository {
+  find() {}
+}
+
+export class Auditable {
+  audit() {}
+}
+`,
+      'utf-8'
+    );
+
+    await fs.writeFile(
+      path.join(tempDir, 'src', 'users.ts'),
+      `
+import { Repository, Auditable } from './base';
+
+export class UserRepository extends Repository implements Auditable {
+  audit() {}
+}
+
+export function loadUser() {
+  return new UserRepository();
+}
+`,
+      'utf-8'
+    );
+
+    await fs.writeFile(
+      path.join(tempDir, 'src', 'api.ts'),
+      `
+import { loadUser } from './users';
+
+export function getUser() {
+  return loadUser();
+}
+`,
+      'utf-8'
+    );
+
+    const builder = new GraphBuilder(tempDir);
+    graph = await builder.build();
+  });
+
+  afterAll(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('creates file and symbol nodes for every source file', () => {
+    expect(graph.getAllNodes().filter(node => node.type === 'file')).toHaveLength(3);
+    expect(graph.getAllNodes().filter(node => node.type === 'class')).toHaveLength(3);
+    expect(graph.getAllNodes().filter(node => node.type === 'function')).toHaveLength(5);
+  });
+
+  it('resolves edges across files', () => {
+    expect(countEdges('imports')).toBe(2);
+    expect(countEdges('extends')).toBe(1);
+    expect(countEdges('implements')).toBe(1);
+    expect(countEdges('calls')).toBe(2);
+  });
+
+  it('links callers to symbols defined in imported files', () => {
+    const getUser = findNode('getUser');
+    const loadUser = findNode('loadUser');
+    const callEdge = graph
+      .getAllEdges()
+      .find(edge => edge.type === 'calls' && edge.from === getUser?.id);
+
+    expect(callEdge?.to).toBe(loadUser?.id);
+  });
+
+  it('links subclasses to base classes in other files', () => {
+    const userRepository = findNode('UserRepository');
+    const repository = findNode('Repository');
+    const extendsEdge = graph
+      .getAllEdges()
+      .find(edge => edge.type === 'extends' && edge.from === userRepository?.id);
+
+    expect(extendsEdge?.to).toBe(repository?.id);
+    expect(extendsEdge?.metadata.targetFilePath).toBe(path.join('src', 'base.ts'));
+  });
+});
+
+describe('GraphBuilder incremental builds', () => {
+  let tempDir: string;
+  let builder: GraphBuilder;
+  let baseGraph: CodeGraph;
+  let baseMetadata: Map<string, Record<string, unknown>>;
+
+  const write = (relative: string, content: string) =>
+    fs.writeFile(path.join(tempDir, relative), content, 'utf-8');
+
+  beforeAll(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'graph-builder-incremental-'));
+    await write('math.ts', 'export function add(a: number, b: number) {\n  return a + b;\n}\n');
+    await write(
+      'calc.ts',
+      "import { add } from './math';\n\nexport function total() {\n  return add(1, 2);\n}\n"
+    );
+    await write('legacy.ts', 'export function old() {\n  return 0;\n}\n');
+
+    builder = new GraphBuilder(tempDir);
+    baseGraph = await builder.build();
+    baseMetadata = new Map(baseGraph.getAllNodes().map(node => [node.id, structuredClone(node.metadata)]));
+
+    await write(
+      'math.ts',
+      '// adds numbers\nexport function add(a: number, b: number) {\n  return a + b;\n}\n'
+    );
+    await write(
+      'fresh.ts',
+      "import { total } from './calc';\n\nexport function fresh() {\n  return total();\n}\n"
+    );
+    await fs.rm(path.join(tempDir, 'legacy.ts'));
+  });
+
+  afterAll(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('reports added, changed and removed files by digest', async () => {
+    const result = await builder.buildIncremental(baseGraph);
+
+    expect(result.added).toEqual(['fresh.ts']);
+    expect(result.changed).toEqual(['math.ts']);
+    expect(result.removed).toEqual(['legacy.ts']);
+    expect(result.graph.getNodesByPath('legacy.ts')).toHaveLength(0);
+    expect(result.graph.getNodesByPath('fresh.ts').length).toBeGreaterThan(0);
+  });
+
+  it('keeps unchanged file nodes without re-parsing them', async () => {
+    const { graph } = await builder.buildIncremental(baseGraph);
+
+    const before = baseGraph.getNodesByPath('calc.ts').find(node => node.name === 'total');
+    const after = graph.getNodesByPath('calc.ts').find(node => node.name === 'total');
+    expect(after?.id).toBe(before?.id);
+    expect(after?.content).toBe(before?.content);
+  });
+
+  it('re-resolves edges from untouched files into changed files', async () => {
+    const { graph } = await builder.buildIncremental(baseGraph);
+
+    const total = graph.getAllNodes().find(node => node.name === 'total');
+    const add = graph.getAllNodes().find(node => node.name === 'add');
+    expect(add?.startLine).toBe(2);
+
+    const callEdge = graph
+      .getAllEdges()
+      .find(edge => edge.type === 'calls' && edge.from === total?.id);
+    expect(callEdge?.to).toBe(add?.id);
+  });
+
+  it('links untouched importers to a file added where their import already pointed', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'graph-builder-added-target-'));
+    try {
+      await fs.writeFile(
+        path.join(dir, 'app.ts'),
+        "import { later } from './later';\n\nexport function run() {\n  return later();\n}\n",
+        'utf-8'
+      );
+      const addedBuilder = new GraphBuilder(dir);
+      const before = await addedBuilder.build();
+      await fs.writeFile(path.join(dir, 'later.ts'), 'export function later() {\n  return 1;\n}\n', 'utf-8');
+
+      const result = await addedBuilder.buildIncremental(before);
+      const fileId = (filePath: string) => result.graph.getNodesByPath(filePath).find(node => node.type === 'file')?.id;
+      const importEdge = result.graph
+        .getAllEdges()
+        .find(edge => edge.type === 'imports' && edge.from === fileId('app.ts'));
+
+      expect(result.added).toEqual(['later.ts']);
+      expect(result.changed).toEqual([]);
+      expect(importEdge?.to).toBe(fileId('later.ts'));
+      const full = await addedBuilder.build();
+      expect(result.graph.getAllEdges().map(edge => edge.id).sort()).toEqual(
+        full.getAllEdges().map(edge => edge.id).sort()
+      );
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('leaves the previous graph untouched', async () => {
+    await builder.buildIncremental(baseGraph);
+
+    expect(baseGraph.getNodesByPath('legacy.ts').length).toBeGreaterThan(0);
+    // fresh.ts now calls into calc.ts, so the refreshed fan-in and centrality must land on copies.
+    for (const node of baseGraph.getAllNodes()) {
+      expect(node.metadata).toEqual(baseMetadata.get(node.id));
+    }
+  });
+});
+
+describe('GraphBuilder declarations', () => {
+  let tempDir: string;
+  let graph: CodeGraph;
+
+  const findNode = (name: string) => graph.getAllNodes().find(node => node.name === name);
+
+  beforeAll(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'graph-builder-declarations-'));
+    await fs.writeFile(
+      path.join(tempDir, 'types.ts'),
+      `
+export interface Shape {
+  area(): number;
+}
+
+export type ShapeId = string;
+
+export enum Color {
+  Red,
+  Blue,
+}
+
+export const DEFAULT_COLOR = Color.Red;
+
+let counter = 0;
+`,
+      'utf-8'
+    );
+    await fs.writeFile(
+      path.join(tempDir, 'circle.ts'),
+      `
+import { Shape, ShapeId, DEFAULT_COLOR } from './types';
+
+export class Circle implements Shape {
+  id: ShapeId = 'circle';
+  color = DEFAULT_COLOR;
+
+  area() {
+    return 1;
+  }
+}
+`,
+      'utf-8'
+    );
+
+    graph = await new GraphBuilder(tempDir).build();
+  });
+
+  afterAll(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('creates nodes for interfaces, type aliases, enums and module-level bindings', () => {
+    expect(findNode('Shape')).toMatchObject({ type: 'interface', metadata: { exported: true } });
+    expect(findNode('ShapeId')?.type).toBe('type_alias');
+    expect(findNode('Color')?.type).toBe('enum');
+    expect(findNode('DEFAULT_COLOR')).toMatchObject({
+      type: 'constant',
+      metadata: { exported: true, signature: 'const DEFAULT_COLOR = Color.Red' },
+    });
+    expect(findNode('counter')).toMatchObject({ type: 'variable', metadata: { exported: false } });
+  });
+
+  it('links usages to the declarations they reference', () => {
+    const targetsOf = (name: string, type: string) =>
+      graph
+        .getOutgoingEdges(findNode(name)!.id)
+        .filter(edge => edge.type === type)
+        .map(edge => graph.getNode(edge.to)?.name);
+
+    expect(targetsOf('Circle', 'implements')).toEqual(['Shape']);
+    expect(targetsOf('Circle', 'references')).toEqual(expect.arrayContaining(['ShapeId', 'DEFAULT_COLOR']));
+    expect(targetsOf('DEFAULT_COLOR', 'references')).toEqual(['Color']);
+  });
+});
+
+describe('GraphBuilder call resolution', () => {
+  let tempDir: string;
+  let graph: CodeGraph;
+
+  const findNode = (name: string, parentName?: string) =>
+    graph
+      .getAllNodes()
+      .find(node => node.name === name && (parentName === undefined || node.metadata?.parentName === parentName));
+
+  const callsFrom = (node: { id: string } | undefined) =>
+    graph
+      .getOutgoingEdges(node!.id)
+      .filter(edge => edge.type === 'calls')
+      .map(edge => ({
+        target: graph.getNode(edge.to),
+        resolution: edge.metadata.resolution,
+        confidence: edge.metadata.confidence,
+      }));
+
+  beforeAll(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'graph-builder-calls-'));
+    const files: Record<string, string> = {
+      'src/store.ts': `
+export class GraphStore {
+  getNode() {}
+  refresh() {
+    return this.getNode();
+  }
+}
+
+export class CacheStore {
+  getNode() {}
+  save() {}
+}
+
+export class DiskStore {
+  save() {}
+}
+
+export function sync(store: unknown, callback: () => void) {
+  callback();
+  store.save();
+}
+
+export function callback() {}
+`,
+      'src/utils/impl.ts': 'export function formatName(name: string) {\n  return name;\n}\n',
+      'src/utils/index.ts': "export { formatName } from './impl.js';\n",
+      'src/main.ts': `
+import { formatName } from './utils/index.js';
+
+export function greet() {
+  return formatName('ada');
+}
+`,
+      'app/models.py': `
+class User:
+    def persist(self):
+        self.validate()
+
+    def validate(self):
+        pass
+`,
+    };
+    for (const [relativePath, content] of Object.entries(files)) {
+      await fs.mkdir(path.dirname(path.join(tempDir, relativePath)), { recursive: true });
+      await fs.writeFile(path.join(tempDir, relativePath), content, 'utf-8');
+    }
+
+    graph = await new GraphBuilder(tempDir).build();
+  });
+
+  afterAll(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('resolves this-calls to the method of the enclosing class', () => {
+    expect(callsFrom(findNode('refresh'))).toEqual([
+      { target: findNode('getNode', 'GraphStore'), resolution: 'member', confidence: 0.95 },
+    ]);
+    expect(callsFrom(findNode('persist'))).toEqual([
+      expect.objectContaining({ target: findNode('validate'), resolution: 'member' }),
+    ]);
+  });
+
+  it('does not link calls through local bindings to same-named symbols', () => {
+    const targets = callsFrom(findNode('sync')).map(call => call.target?.name);
+    expect(targets).not.toContain('callback');
+  });
+
+  it('spreads calls on objects of unknown type at low confidence', () => {
+    const calls = callsFrom(findNode('sync'));
+    expect(calls).toHaveLength(2);
+    expect(calls.map(call => call.target?.metadata.parentName).sort()).toEqual(['CacheStore', 'DiskStore']);
+    for (const call of calls) {
+      expect(call).toMatchObject({ resolution: 'ambiguous', confidence: 0.2 });
+    }
+  });
+
+  it('follows re-exports to the declaring file', () => {
+    const [call] = callsFrom(findNode('greet'));
+    expect(call).toMatchObject({ resolution: 'imported', confidence: 0.9 });
+    expect(call.target?.path).toBe(path.join('src', 'utils', 'impl.ts'));
+  });
+});
+
+describe('GraphBuilder parallel builds', () => {
+  let tempDir: string;
+
+  const summarize = (graph: CodeGraph) => ({
+    nodes: graph.getAllNodes().map(node => node.id).sort(),
+    edges: graph.getAllEdges().map(edge => edge.id).sort(),
+  });
+
+  beforeAll(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'graph-builder-parallel-'));
+    for (let i = 0; i < 40; i++) {
+      const next = (i + 1) % 40;
+      await fs.writeFile(
+        path.join(tempDir, `module${i}.ts`),
+        `import { run${next} } from './module${next}.js';\n\nexport function run${i}() {\n  return run${next};\n}\n`,
+        'utf-8'
+      );
+    }
+  });
+
+  afterAll(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('extracts symbols on worker threads', async () => {
+    const pool = new ParsePool(1);
+    try {
+      const { symbols, references } = await pool.parse('export function run() {\n  return load();\n}\n', 'typescript');
+      expect(symbols.map(symbol => symbol.name)).toEqual(['run']);
+      expect(references).toEqual([expect.objectContaining({ kind: 'call', targetName: 'load' })]);
+    } finally {
+      await pool.close();
+    }
+  }, 60000);
+
+  it('builds the same graph on worker threads and reports progress', async () => {
+    const progress: number[] = [];
+    const parallel = await new GraphBuilder(tempDir, {
+      workers: 2,
+      onProgress: event => {
+        if (event.phase === 'parse') progress.push(event.completed);
+      },
+    }).build();
+    const sequential = await new GraphBuilder(tempDir, { workers: 0 }).build();
+
+    expect(summarize(parallel)).toEqual(summarize(sequential));
+    expect(parallel.getAllNodes().filter(node => node.type === 'file')).toHaveLength(40);
+    expect(progress).toHaveLength(40);
+    expect(progress.at(-1)).toBe(40);
+  }, 60000);
+
+  it('embeds distinct texts in batches', async () => {
+    const batches: number[] = [];
+    const embedder = {
+      initialize: async () => {},
+      embed: async () => [0],
+      embedBatch: async (texts: string[]) => {
+        batches.push(texts.length);
+        return texts.map(() => [1]);
+      },
+    };
+
+    const previous = process.env.CODEFLOW_DISABLE_EMBEDDINGS;
+    process.env.CODEFLOW_DISABLE_EMBEDDINGS = '0';
+    try {
+      const graph = await new GraphBuilder(tempDir, { workers: 0, embedder, cache: null }).build();
+      expect(graph.getAllNodes().every(node => node.type === 'package' || node.embedding?.[0] === 1)).toBe(true);
+    } finally {
+      process.env.CODEFLOW_DISABLE_EMBEDDINGS = previous;
+    }
+
+    expect(batches.length).toBeGreaterThan(1);
+    expect(Math.max(...batches)).toBeLessThanOrEqual(32);
+    expect(batches.reduce((sum, size) => sum + size, 0)).toBe(80);
+  });
+});
+
+describe('GraphBuilder test linking', () => {
+  let tempDir: string;
+  let graph: CodeGraph;
+
+  beforeAll(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'graph-builder-tests-'));
+    await fs.mkdir(path.join(tempDir, 'src'));
+    await fs.mkdir(path.join(tempDir, 'tests'));
+    await fs.writeFile(
+      path.join(tempDir, 'src/math.ts'),
+      `export function add(a: number, b: number) {
+  return a + b;
+}
+
+export class Calculator {
+  total = 0;
+  push(value: number) {
+    this.total = add(this.total, value);
+  }
+}
+
+export function test(name: string) {
+  return name;
+}
+`,
+      'utf-8'
+    );
+    await fs.writeFile(
+      path.join(tempDir, 'tests/math.test.ts'),
+      `import { describe, it, expect } from 'vitest';
+import { add, Calculator } from '../src/math.js';
+
+describe('math', () => {
+  it('adds numbers', () => {
+    expect(add(1, 2)).toBe(3);
+  });
+
+  it(\`accumulates\`, () => {
+    const calculator = new Calculator();
+    calculator.push(2);
+    expect(calculator.total).toBe(2);
+  });
+});
+`,
+      'utf-8'
+    );
+    await fs.writeFile(
+      path.join(tempDir, 'src/checks.py'),
+      `import unittest
+from .utils import slugify
+
+class TestSlugify(unittest.TestCase):
+    def test_lowercases(self):
+        self.assertEqual(slugify("A"), "a")
+`,
+      'utf-8'
+    );
+    await fs.writeFile(path.join(tempDir, 'src/utils.py'), 'def slugify(value):\n    return value.lower()\n', 'utf-8');
+
+    graph = await new GraphBuilder(tempDir).build();
+  });
+
+  afterAll(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  const named = (name: string) => graph.getAllNodes().find(node => node.name === name)!;
+  const testedBy = (name: string) =>
+    graph
+      .getIncomingEdges(named(name).id)
+      .filter(edge => edge.type === 'tests')
+      .map(edge => graph.getNode(edge.from)!.name)
+      .sort();
+
+  it('classifies test files by path and framework import', () => {
+    const files = graph.getAllNodes().filter(node => node.type === 'file');
+    const metadataOf = (filePath: string) => files.find(node => node.path === filePath)?.metadata;
+
+    expect(metadataOf('tests/math.test.ts')).toMatchObject({ test: true, testFramework: 'vitest' });
+    expect(metadataOf('src/checks.py')).toMatchObject({ test: true, testFramework: 'unittest' });
+    expect(metadataOf('src/math.ts')?.test).toBeUndefined();
+  });
+
+  it('turns describe/it blocks and test functions into nested test nodes', () => {
+    const tests = graph.getAllNodes().filter(node => node.type === 'test');
+    expect(tests.map(node => node.name).sort()).toEqual([
+      'TestSlugify',
+      'accumulates',
+      'adds numbers',
+      'math',
+      'test_lowercases',
+    ]);
+    expect(named('adds numbers').metadata.parentName).toBe('math');
+    expect(named('test_lowercases').metadata.parentName).toBe('TestSlugify');
+    // Only test files are searched for test cases.
+    expect(named('test').type).toBe('function');
+  });
+
+  it('links test cases to the symbols they call and use', () => {
+    expect(testedBy('add')).toEqual(['adds numbers']);
+    expect(testedBy('Calculator')).toEqual(['accumulates']);
+    expect(testedBy('slugify')).toEqual(['test_lowercases']);
+
+    const callsFromTests = graph
+      .getAllEdges()
+      .filter(edge => edge.type === 'calls' && graph.getNode(edge.from)?.type === 'test');
+    expect(callsFromTests).toEqual([]);
+  });
+});
+
+describe('GraphBuilder documents', () => {
+  let tempDir: string;
+  let graph: CodeGraph;
+
+  beforeAll(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'graph-builder-documents-'));
+    await fs.mkdir(path.join(tempDir, 'config'));
+    await fs.mkdir(path.join(tempDir, 'docs'));
+    await fs.mkdir(path.join(tempDir, 'src'));
+    await fs.writeFile(
+      path.join(tempDir, 'config/flags.json'),
+      '{\n  "features": {\n    "newCheckout": true\n  },\n  "name": "shop"\n}\n',
+      'utf-8'
+    );
+    await fs.writeFile(path.join(tempDir, 'config/app.yaml'), 'server:\n  port: 8080\n', 'utf-8');
+    await fs.writeFile(
+      path.join(tempDir, 'docs/auth.md'),
+      '# Auth\n\n## Login flow\nUsers sign in with a magic link.\n',
+      'utf-8'
+    );
+    await fs.writeFile(path.join(tempDir, 'schema.sql'), 'CREATE TABLE orders (id int);\n', 'utf-8');
+    await fs.writeFile(
+      path.join(tempDir, 'src/checkout.ts'),
+      `import { flags } from './flags.js';
+
+// See docs/auth.md#login-flow before changing this.
+export function checkout() {
+  return flags.enabled('features.newCheckout') && flags.get('name');
+}
+`,
+      'utf-8'
+    );
+    await fs.writeFile(path.join(tempDir, 'src/flags.ts'), 'export const flags = { enabled: (_: string) => true, get: (_: string) => "" };\n', 'utf-8');
+
+    graph = await new GraphBuilder(tempDir).build();
+  });
+
+  afterAll(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('creates nodes for config keys, doc sections and SQL statements', () => {
+    const byType = (type: string) => graph.getAllNodes().filter(node => node.type === type);
+
+    expect(byType('config_key').map(node => `${node.path}:${node.name}`).sort()).toEqual([
+      path.join('config', 'app.yaml') + ':server',
+      path.join('config', 'app.yaml') + ':server.port',
+      path.join('config', 'flags.json') + ':features',
+      path.join('config', 'flags.json') + ':features.newCheckout',
+      path.join('config', 'flags.json') + ':name',
+    ]);
+    expect(byType('doc_section').map(node => node.name)).toEqual(['Auth', 'Login flow']);
+    expect(byType('sql_statement').map(node => node.name)).toEqual(['orders']);
+
+    const login = byType('doc_section').find(node => node.name === 'Login flow')!;
+    expect(login.metadata.embeddingText).toContain('Auth > Login flow');
+    expect(graph.getPredecessors(login.id, 'contains').map(node => node.name).sort()).toEqual(['Auth', 'auth.md']);
+  });
+
+  it('links code to the config keys and doc sections it mentions', () => {
+    const checkout = graph.getAllNodes().find(node => node.type === 'function' && node.name === 'checkout')!;
+    const file = graph.getAllNodes().find(node => node.type === 'file' && node.name === 'checkout.ts')!;
+
+    const fromCheckout = graph
+      .getOutgoingEdges(checkout.id)
+      .filter(edge => edge.metadata.source === 'mention')
+      .map(edge => graph.getNode(edge.to)?.name);
+    expect(fromCheckout).toEqual(['features.newCheckout']);
+
+    const fromFile = graph
+      .getOutgoingEdges(file.id)
+      .filter(edge => edge.type === 'references' && edge.metadata.source === 'mention');
+    expect(fromFile.map(edge => [graph.getNode(edge.to)?.name, edge.metadata.kind])).toEqual([['Login flow', 'doc']]);
+  });
+});
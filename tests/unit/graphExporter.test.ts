@@ -0,0 +1,108 @@
+import { describe, it, expect } from 'vitest';
+import { CodeGraph, type GraphEdge, type GraphNode } from '../../src/graph/CodeGraph.js';
+import { GraphExporter } from '../../src/graph/GraphExporter.js';
+
+function createProjectGraph(): CodeGraph {
+  const graph = new CodeGraph();
+  const node = (id: string, type: GraphNode['type'], path: string) =>
+    graph.upsertNode({
+      id,
+      type,
+      name: id,
+      path,
+      content: `export function ${id}() {}`,
+      startLine: 1,
+      endLine: 3,
+      embedding: [0.1, 0.2],
+      metadata: { embeddingText: `# ${path}`, centrality: 0.5 },
+    });
+  const edge = (from: string, to: string, type: GraphEdge['type']) =>
+    graph.upsertEdge({ id: `${from}-${type}-${to}`, from, to, type, metadata: type === 'calls' ? { confidence: 0.8 } : {} });
+
+  node('cli.ts', 'file', 'src/cli.ts');
+  node('app.tsx', 'file', 'src/ui/app.tsx');
+  node('legacy.tsx', 'file', 'src/ui/legacy/legacy.tsx');
+  node('app.test.ts', 'file', 'tests/app.test.ts');
+  node('main', 'function', 'src/cli.ts');
+  node('App', 'function', 'src/ui/app.tsx');
+  node('render<"x">', 'function', 'src/ui/app.tsx');
+  node('Old', 'class', 'src/ui/legacy/legacy.tsx');
+
+  edge('cli.ts', 'app.tsx', 'imports');
+  edge('app.tsx', 'legacy.tsx', 'imports');
+  edge('cli.ts', 'main', 'contains');
+  edge('app.tsx', 'App', 'contains');
+  edge('app.tsx', 'render<"x">', 'contains');
+  edge('legacy.tsx', 'Old', 'contains');
+  edge('main', 'App', 'calls');
+  edge('App', 'render<"x">', 'calls');
+  edge('render<"x">', 'Old', 'calls');
+  return graph;
+}
+
+describe('GraphExporter', () => {
+  it('filters by path globs, node types and edge types', () => {
+    const exporter = new GraphExporter(createProjectGraph());
+
+    const ui = exporter.select({ paths: ['src/ui', '!src/ui/legacy'] });
+    expect(ui.nodes.map(node => node.id)).toEqual(['app.tsx', 'App', 'render<"x">']);
+    expect(ui.edges.map(edge => edge.id)).toEqual([
+      'App-calls-render<"x">',
+      'app.tsx-contains-App',
+      'app.tsx-contains-render<"x">',
+    ]);
+
+    const files = exporter.select({ nodeTypes: ['file'], paths: ['*.tsx', '*.ts', '!tests/'] });
+    expect(files.nodes.map(node => node.id)).toEqual(['cli.ts', 'app.tsx', 'legacy.tsx']);
+    expect(files.edges.map(edge => edge.type)).toEqual(['imports', 'imports']);
+
+    const calls = exporter.select({ edgeTypes: ['calls'] });
+    expect(calls.edges.every(edge => edge.type === 'calls')).toBe(true);
+    expect(calls.nodes).toHaveLength(8);
+  });
+
+  it('keeps only the neighbourhood of the nodes it is centred on', () => {
+    const exporter = new GraphExporter(createProjectGraph());
+
+    const near = exporter.select({ around: ['App'], depth: 1, edgeTypes: ['calls'] });
+    expect(near.nodes.map(node => node.id).sort()).toEqual(['App', 'main', 'render<"x">']);
+
+    const wider = exporter.select({ around: ['App'], depth: 2, edgeTypes: ['calls'] });
+    expect(wider.nodes.map(node => node.id).sort()).toEqual(['App', 'Old', 'main', 'render<"x">']);
+  });
+
+  it('writes DOT clustered by file with escaped labels', () => {
+    const dot = new GraphExporter(createProjectGraph()).export('dot', { paths: ['src/ui/app.tsx'] });
+
+    expect(dot.startsWith('digraph codeflow {')).toBe(true);
+    expect(dot).toContain('label="src/ui/app.tsx";');
+    expect(dot).toContain('"render<\\"x\\">" [label="render<\\"x\\">\\nfunction"];');
+    expect(dot).toContain('"app.tsx" -> "App" [label="contains", style=dashed, color=gray];');
+    expect(dot).not.toContain('export function');
+  });
+
+  it('writes GraphML with escaped attributes', () => {
+    const graphml = new GraphExporter(createProjectGraph()).export('graphml', { paths: ['src/ui/app.tsx'] });
+
+    expect(graphml).toContain('<graph id="codeflow" edgedefault="directed">');
+    expect(graphml).toContain('<node id="render&lt;&quot;x&quot;&gt;">');
+    expect(graphml).toContain('<edge id="App-calls-render&lt;&quot;x&quot;&gt;" source="App" target="render&lt;&quot;x&quot;&gt;">');
+    expect(graphml).toContain('<data key="confidence">0.8</data>');
+  });
+
+  it('writes slim JSON without content, embeddings or embedding text', () => {
+    const exported = JSON.parse(new GraphExporter(createProjectGraph()).export('json', { nodeTypes: ['function'] }));
+
+    expect(exported.nodes).toHaveLength(3);
+    expect(exported.nodes[0]).toEqual({
+      id: 'main',
+      type: 'function',
+      name: 'main',
+      path: 'src/cli.ts',
+      startLine: 1,
+      endLine: 3,
+      metadata: { centrality: 0.5 },
+    });
+    expect(exported.edges.map((edge: GraphEdge) => edge.id)).toEqual(['App-calls-render<"x">', 'main-calls-App']);
+  });
+});
@@ -1,8 +1,12 @@
-import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import os from 'os';
 import { GraphManager } from '../../src/graph/GraphManager.js';
 import { InMemoryGraphStore } from '../../src/graph/store/InMemoryGraphStore.js';
-import { CodeGraph, type GraphEdge, type GraphNode } from '../../src/graph/CodeGraph.js';
+import { CodeGraph, type GraphEdge, type GraphNode, type GraphView } from '../../src/graph/CodeGraph.js';
 import type { FileGraphSnapshot } from '../../src/graph/types.js';
+import { OverlayConflictError } from '../../src/utils/errors.js';
 
 function createGraphWithFile(path: string): CodeGraph {
   const graph = new CodeGraph();
@@ -62,19 +66,20 @@ function createSnapshot(filePath: string): FileGraphSnapshot {
 
 describe('GraphManager', () => {
   let store: InMemoryGraphStore;
-  const rootDir = '/tmp/project';
+  let rootDir: string;
   let firstGraph: CodeGraph;
   let secondGraph: CodeGraph;
   let builderMock: {
     build: ReturnType<typeof vi.fn<[], Promise<CodeGraph>>>;
     buildFileSnapshot: ReturnType<typeof vi.fn<[string], Promise<FileGraphSnapshot | null>>>;
     resolveEdges: ReturnType<
-      typeof vi.fn<[CodeGraph, GraphEdge[], Map<string, string>], GraphEdge[]>
+      typeof vi.fn<[GraphView, GraphEdge[], Map<string, string>], GraphEdge[]>
     >;
   };
   let manager: GraphManager;
 
-  beforeEach(() => {
+  beforeEach(async () => {
+    rootDir = await fs.mkdtemp(path.join(os.tmpdir(), 'codeflow-graph-manager-'));
     store = new InMemoryGraphStore();
     firstGraph = createGraphWithFile('src/first.ts');
     secondGraph = createGraphWithFile('src/second.ts');
@@ -88,8 +93,8 @@ describe('GraphManager', () => {
         .fn<[string], Promise<FileGraphSnapshot | null>>()
         .mockResolvedValue(null),
       resolveEdges: vi
-        .fn<[CodeGraph, GraphEdge[], Map<string, string>], GraphEdge[]>()
-        .mockImplementation((_graph: CodeGraph, edges: GraphEdge[]) => edges),
+        .fn<[GraphView, GraphEdge[], Map<string, string>], GraphEdge[]>()
+        .mockImplementation((_graph: GraphView, edges: GraphEdge[]) => edges),
     };
 
     manager = new GraphManager({
@@ -99,6 +104,10 @@ describe('GraphManager', () => {
     });
   });
 
+  afterEach(async () => {
+    await fs.rm(rootDir, { recursive: true, force: true });
+  });
+
   it('initialises from builder and caches graph in store', async () => {
     const { graph, source } = await manager.initialize();
 
@@ -121,17 +130,46 @@ describe('GraphManager', () => {
     expect(rebuilt.graph.getAllNodes()[0]?.path).toBe('src/second.ts');
   });
 
+  it('re-parses files edited between sessions before using the stored graph', async () => {
+    const projectDir = await fs.mkdtemp(path.join(os.tmpdir(), 'graph-manager-refresh-'));
+    try {
+      const source = path.join(projectDir, 'app.ts');
+      await fs.writeFile(source, 'export function start() {\n  return 1;\n}\n', 'utf-8');
+      const first = await new GraphManager({ rootDir: projectDir, store }).initialize();
+      expect(first.source).toBe('build');
+
+      await fs.writeFile(source, 'export function stop() {\n  return 0;\n}\n', 'utf-8');
+      const second = await new GraphManager({ rootDir: projectDir, store }).initialize();
+
+      const names = (graph: CodeGraph | null | undefined) => graph?.getNodesByPath('app.ts').map(node => node.name);
+      expect(second.source).toBe('store');
+      expect(second.refreshedFiles).toBe(1);
+      expect(names(second.graph)).toContain('stop');
+      expect(names(second.graph)).not.toContain('start');
+      expect(names(await store.load())).toContain('stop');
+    } finally {
+      await fs.rm(projectDir, { recursive: true, force: true });
+    }
+  });
+
   it('records file modifications and updates overlay graph', async () => {
     await manager.initialize(true);
 
     const snapshot = createSnapshot('src/first.ts');
     builderMock.buildFileSnapshot.mockResolvedValueOnce(snapshot);
-    builderMock.resolveEdges.mockImplementation((_graph: CodeGraph, edges: GraphEdge[]) => edges);
+    builderMock.resolveEdges.mockImplementation((_graph: GraphView, edges: GraphEdge[]) => edges);
 
     const updatedGraph = await manager.recordFileModification('src/first.ts');
 
     expect(builderMock.buildFileSnapshot).toHaveBeenCalledWith('src/first.ts');
     expect(builderMock.resolveEdges).toHaveBeenCalled();
+    // Edges resolve against a view of the base with the file's nodes swapped, not a copy of it.
+    const [resolvedAgainst] = builderMock.resolveEdges.mock.calls[0];
+    expect(resolvedAgainst).not.toBeInstanceOf(CodeGraph);
+    expect(resolvedAgainst.getNodesByPath('src/first.ts').map(node => node.id).sort()).toEqual([
+      'file-new',
+      'symbol-new',
+    ]);
     const nodes = updatedGraph.getNodesByPath('src/first.ts');
     expect(nodes.some(node => node.id === 'file-new')).toBe(true);
     expect(manager.hasPendingOverlay()).toBe(true);
@@ -142,7 +180,7 @@ describe('GraphManager', () => {
 
     const snapshot = createSnapshot('src/first.ts');
     builderMock.buildFileSnapshot.mockResolvedValue(snapshot);
-    builderMock.resolveEdges.mockImplementation((_graph: CodeGraph, edges: GraphEdge[]) => edges);
+    builderMock.resolveEdges.mockImplementation((_graph: GraphView, edges: GraphEdge[]) => edges);
 
     await manager.recordFileModification('src/first.ts');
     expect(manager.hasPendingOverlay()).toBe(true);
@@ -157,6 +195,55 @@ describe('GraphManager', () => {
     expect(merged.getNodesByPath('src/final.ts')).toHaveLength(1);
   });
 
+  it('mergeOverlay refreshes incrementally when the builder supports it', async () => {
+    const refreshedGraph = createGraphWithFile('src/refreshed.ts');
+    const buildIncremental = vi.fn(async (_previous: CodeGraph) => ({
+      graph: refreshedGraph,
+      added: ['src/refreshed.ts'],
+      changed: [],
+      removed: [],
+    }));
+    manager = new GraphManager({
+      rootDir,
+      store,
+      builder: { ...builderMock, buildIncremental },
+    });
+
+    const { graph: base } = await manager.initialize(true);
+    builderMock.buildFileSnapshot.mockResolvedValue(createSnapshot('src/first.ts'));
+    await manager.recordFileModification('src/first.ts');
+
+    const merged = await manager.mergeOverlay();
+
+    expect(buildIncremental).toHaveBeenCalledWith(base);
+    expect(builderMock.build).toHaveBeenCalledTimes(1);
+    expect(merged).toBe(refreshedGraph);
+    expect(manager.hasPendingOverlay()).toBe(false);
+  });
+
+  it('rebuild refreshes the base graph incrementally', async () => {
+    const refreshedGraph = createGraphWithFile('src/refreshed.ts');
+    const buildIncremental = vi.fn(async (_previous: CodeGraph) => ({
+      graph: refreshedGraph,
+      added: ['src/refreshed.ts'],
+      changed: [],
+      removed: [],
+    }));
+    manager = new GraphManager({
+      rootDir,
+      store,
+      builder: { ...builderMock, buildIncremental },
+    });
+
+    const { graph: base } = await manager.initialize(true);
+    const rebuilt = await manager.rebuild();
+
+    expect(buildIncremental).toHaveBeenCalledWith(base);
+    expect(builderMock.build).toHaveBeenCalledTimes(1);
+    expect(rebuilt).toBe(refreshedGraph);
+    expect(manager.getBaseGraph()).toBe(refreshedGraph);
+  });
+
   it('clears store and local cache', async () => {
     await manager.initialize();
     await manager.clearStore();
@@ -187,7 +274,7 @@ describe('GraphManager', () => {
 
     const snapshot = createSnapshot('src/first.ts');
     builderMock.buildFileSnapshot.mockResolvedValue(snapshot);
-    builderMock.resolveEdges.mockImplementation((_graph: CodeGraph, edges: GraphEdge[]) => edges);
+    builderMock.resolveEdges.mockImplementation((_graph: GraphView, edges: GraphEdge[]) => edges);
 
     await manager.recordFileModification('src/first.ts');
     expect(hooks.onOverlayCreated).toHaveBeenCalledTimes(1);
@@ -208,4 +295,255 @@ describe('GraphManager', () => {
     expect(updatedIds).toContain(secondOverlayId);
     expect(discardedIds[0]).toBe(createdIds[0]);
   });
+
+  describe('overlay persistence', () => {
+    const overlayDir = () => path.join(rootDir, '.codeflow', 'overlays');
+
+    async function recordPendingEdit(): Promise<string> {
+      await manager.initialize();
+      builderMock.buildFileSnapshot.mockResolvedValue(createSnapshot('src/first.ts'));
+      await manager.recordFileModification('src/first.ts');
+      return manager.getPendingOverlay()!.id;
+    }
+
+    it('persists the overlay whenever a modification is recorded', async () => {
+      const overlayId = await recordPendingEdit();
+      await expect(fs.readdir(overlayDir())).resolves.toEqual([`${overlayId}.json`]);
+    });
+
+    it('references the base snapshot instead of embedding the base graph', async () => {
+      await recordPendingEdit();
+      const [snapshot] = await store.listSnapshots();
+
+      expect(manager.getPendingOverlay()!.base.snapshotId).toBe(snapshot.id);
+      expect(manager.getGraph()).not.toBe(manager.getBaseGraph());
+      expect(manager.getBaseGraph().getNode('file-new')).toBeUndefined();
+    });
+
+    it('reports and resumes an overlay left by an earlier session', async () => {
+      const overlayId = await recordPendingEdit();
+
+      const next = new GraphManager({ rootDir, store, builder: builderMock });
+      const { leftoverOverlays } = await next.initialize();
+      expect(leftoverOverlays).toHaveLength(1);
+      expect(leftoverOverlays[0]).toMatchObject({
+        id: overlayId,
+        name: 'default',
+        modifiedPaths: ['src/first.ts'],
+        baseMatches: true,
+      });
+
+      builderMock.buildFileSnapshot.mockClear();
+      const resumed = await next.resumeOverlay(overlayId);
+
+      expect(builderMock.buildFileSnapshot).not.toHaveBeenCalled();
+      expect(next.hasPendingOverlay()).toBe(true);
+      expect(resumed.getNode('file-new')).toBeDefined();
+    });
+
+    it('re-records modified files when the base graph changed', async () => {
+      const overlayId = await recordPendingEdit();
+      await store.save(createGraphWithFile('src/changed.ts'));
+
+      const next = new GraphManager({ rootDir, store, builder: builderMock });
+      const { leftoverOverlays } = await next.initialize();
+      expect(leftoverOverlays[0]?.baseMatches).toBe(false);
+
+      builderMock.buildFileSnapshot.mockClear();
+      await next.resumeOverlay(overlayId);
+
+      expect(builderMock.buildFileSnapshot).toHaveBeenCalledWith('src/first.ts');
+      expect(next.getPendingOverlay()?.id).not.toBe(overlayId);
+      await expect(fs.readdir(overlayDir())).resolves.toHaveLength(1);
+    });
+
+    it('forgets persisted overlays once merged', async () => {
+      await recordPendingEdit();
+      await manager.mergeOverlay();
+      await expect(fs.readdir(overlayDir())).resolves.toEqual([]);
+    });
+
+    it('discards a leftover overlay without resuming it', async () => {
+      const overlayId = await recordPendingEdit();
+
+      const next = new GraphManager({ rootDir, store, builder: builderMock });
+      await next.initialize();
+      await next.discardPersistedOverlay(overlayId);
+
+      const { leftoverOverlays } = await next.initialize();
+      expect(leftoverOverlays).toEqual([]);
+      expect(next.hasPendingOverlay()).toBe(false);
+    });
+
+    it('resumes leftover overlays that share a name under distinct names', async () => {
+      const firstId = await recordPendingEdit();
+      const second = new GraphManager({ rootDir, store, builder: builderMock });
+      await second.initialize();
+      await second.recordFileModification('src/first.ts');
+      const secondId = second.getPendingOverlay()!.id;
+
+      const next = new GraphManager({ rootDir, store, builder: builderMock });
+      await next.initialize();
+      await next.resumeOverlay(firstId);
+      await next.resumeOverlay(secondId);
+
+      expect(next.listOverlays().map(overlay => overlay.name)).toEqual(['default', 'default-2']);
+      expect(next.getActiveOverlayName()).toBe('default-2');
+    });
+
+    it('discards persisted overlays when the base graph is rebuilt', async () => {
+      await recordPendingEdit();
+
+      const next = new GraphManager({ rootDir, store, builder: builderMock });
+      const { leftoverOverlays } = await next.initialize(true);
+
+      expect(leftoverOverlays).toEqual([]);
+      await expect(fs.readdir(overlayDir())).resolves.toEqual([]);
+    });
+
+    it('discards persisted overlays on rebuild', async () => {
+      await recordPendingEdit();
+
+      await manager.rebuild();
+
+      expect(manager.hasPendingOverlay()).toBe(false);
+      await expect(fs.readdir(overlayDir())).resolves.toEqual([]);
+      const next = new GraphManager({ rootDir, store, builder: builderMock });
+      await expect(next.initialize()).resolves.toMatchObject({ leftoverOverlays: [] });
+    });
+  });
+
+  describe('named overlays', () => {
+    beforeEach(async () => {
+      await manager.initialize();
+      builderMock.buildFileSnapshot.mockImplementation(async filePath => createSnapshot(filePath));
+    });
+
+    it('keeps separate modified paths per overlay and follows the active one', async () => {
+      await manager.recordFileModification('src/first.ts');
+      manager.createOverlay('alternative');
+      expect(manager.getGraph().getNode('file-new')).toBeUndefined();
+
+      await manager.recordFileModification('src/other.ts');
+
+      expect(manager.listOverlays()).toEqual([
+        expect.objectContaining({ name: 'default', active: false, modifiedPaths: ['src/first.ts'] }),
+        expect.objectContaining({ name: 'alternative', active: true, modifiedPaths: ['src/other.ts'] }),
+      ]);
+      expect(manager.getGraph().getNode('file-new')?.path).toBe('src/other.ts');
+
+      manager.switchOverlay('default');
+      expect(manager.getGraph().getNode('file-new')?.path).toBe('src/first.ts');
+    });
+
+    it('compares two overlays', async () => {
+      await manager.recordFileModification('src/first.ts');
+      manager.createOverlay('alternative');
+      await manager.recordFileModification('src/first.ts');
+      await manager.recordFileModification('src/other.ts');
+
+      const comparison = manager.compareOverlays('default', 'alternative');
+
+      expect(comparison.sharedPaths).toEqual(['src/first.ts']);
+      expect(comparison.onlyInLeft).toEqual([]);
+      expect(comparison.onlyInRight).toEqual(['src/other.ts']);
+      expect(comparison.diff.changedNodes.map(change => change.after.id)).toContain('file-new');
+    });
+
+    it('merges one overlay and discards the others', async () => {
+      const discarded: string[] = [];
+      manager = new GraphManager({
+        rootDir,
+        store,
+        builder: builderMock,
+        hooks: { onOverlayDiscarded: overlayId => discarded.push(overlayId) },
+      });
+      await manager.initialize();
+
+      await manager.recordFileModification('src/first.ts');
+      const defaultId = manager.getPendingOverlay()!.id;
+      manager.createOverlay('alternative');
+      await manager.recordFileModification('src/other.ts');
+
+      await manager.mergeOverlay('alternative');
+
+      expect(discarded).toEqual([defaultId]);
+      expect(manager.listOverlays()).toEqual([]);
+      expect(manager.getActiveOverlayName()).toBe('default');
+      await expect(fs.readdir(path.join(rootDir, '.codeflow', 'overlays'))).resolves.toEqual([]);
+    });
+
+    it('discards a single overlay and falls back to the base graph', async () => {
+      manager.createOverlay('alternative');
+      await manager.recordFileModification('src/first.ts');
+
+      const graph = await manager.discardOverlay('alternative');
+
+      expect(graph).toBe(manager.getBaseGraph());
+      expect(manager.getActiveOverlayName()).toBe('default');
+    });
+
+    it('rejects duplicate and unknown overlay names', () => {
+      manager.createOverlay('alternative');
+      expect(() => manager.createOverlay('alternative')).toThrow('Overlay already exists');
+      expect(() => manager.switchOverlay('missing')).toThrow('Unknown overlay: missing');
+    });
+  });
+
+  describe('merge conflicts', () => {
+    let committed: string[];
+
+    beforeEach(async () => {
+      const diskGraph = createGraphWithFile('src/second.ts');
+      diskGraph.upsertNode({ ...createSnapshot('src/first.ts').file, id: 'file-disk' });
+      committed = [];
+      manager = new GraphManager({
+        rootDir,
+        store,
+        builder: {
+          ...builderMock,
+          buildIncremental: async () => ({ graph: diskGraph, added: [], changed: [], removed: [] }),
+        },
+        hooks: { onOverlayCommitted: payload => committed.push(payload.serializedOverlay) },
+      });
+      await manager.initialize();
+
+      builderMock.buildFileSnapshot.mockResolvedValue(createSnapshot('src/first.ts'));
+      await manager.recordFileModification('src/first.ts');
+      builderMock.buildFileSnapshot.mockResolvedValue({
+        ...createSnapshot('src/first.ts'),
+        digest: 'teammate-digest',
+      });
+    });
+
+    it('reports files changed on disk since they were recorded', async () => {
+      await expect(manager.detectConflicts()).resolves.toEqual([
+        { path: 'src/first.ts', recordedDigest: 'snapshot-digest', currentDigest: 'teammate-digest' },
+      ]);
+      await expect(manager.mergeOverlay()).rejects.toBeInstanceOf(OverlayConflictError);
+      expect(manager.hasPendingOverlay()).toBe(true);
+    });
+
+    it('keeps the overlay version of a conflicting file', async () => {
+      const merged = await manager.mergeOverlay(undefined, { resolveConflict: () => 'keep-overlay' });
+
+      expect(merged.getNode('file-new')).toBeDefined();
+      expect(merged.getNode('symbol-new')).toBeDefined();
+      expect(merged.getNode('file-disk')).toBeUndefined();
+    });
+
+    it('takes the disk version and drops the overlay operations', async () => {
+      const merged = await manager.mergeOverlay(undefined, { resolveConflict: () => 'take-disk' });
+
+      expect(merged.getNode('file-disk')).toBeDefined();
+      expect(merged.getNode('file-new')).toBeUndefined();
+      expect(JSON.parse(committed[0]).modifiedPaths).toEqual([]);
+    });
+
+    it('re-records the file from disk before merging', async () => {
+      await manager.mergeOverlay(undefined, { resolveConflict: () => 're-record' });
+
+      expect(JSON.parse(committed[0]).fileDigests).toEqual({ 'src/first.ts': 'teammate-digest' });
+    });
+  });
 });
@@ -0,0 +1,137 @@
+import { describe, it, expect } from 'vitest';
+import { CodeGraph, type GraphEdge, type GraphNode } from '../../src/graph/CodeGraph.js';
+import { parseGraphQuery } from '../../src/graph/query/GraphQueryParser.js';
+import { GraphQueryEngine } from '../../src/graph/query/GraphQueryEngine.js';
+import { formatQueryTable, queryResultToJson } from '../../src/graph/query/formatQueryResult.js';
+import { GraphQueryError } from '../../src/utils/errors.js';
+
+function createProjectGraph(): CodeGraph {
+  const graph = new CodeGraph();
+  const node = (id: string, type: GraphNode['type'], path: string, metadata: Record<string, unknown> = {}) =>
+    graph.upsertNode({ id, type, name: id, path, content: `// ${id}`, startLine: 1, endLine: 3, metadata });
+  const edge = (from: string, to: string, type: GraphEdge['type']) =>
+    graph.upsertEdge({ id: `${from}-${type}-${to}`, from, to, type, metadata: {} });
+
+  node('cli.ts', 'file', 'src/cli.ts', { language: 'typescript' });
+  node('app.tsx', 'file', 'src/ui/app.tsx', { language: 'typescript' });
+  node('retriever.ts', 'file', 'src/retrieval/retriever.ts', { language: 'typescript' });
+  node('helpers.py', 'file', 'scripts/helpers.py', { language: 'python' });
+  node('main', 'function', 'src/cli.ts');
+  node('App', 'function', 'src/ui/app.tsx');
+  node('handleSubmit', 'function', 'src/ui/app.tsx');
+  node('buildContextForChange', 'function', 'src/retrieval/retriever.ts');
+  node('buildContextForFile', 'function', 'src/retrieval/retriever.ts');
+  node('report', 'function', 'scripts/helpers.py');
+  node('retriever.test.ts', 'test', 'tests/retriever.test.ts');
+
+  edge('cli.ts', 'app.tsx', 'imports');
+  edge('app.tsx', 'retriever.ts', 'imports');
+  edge('cli.ts', 'main', 'contains');
+  edge('app.tsx', 'App', 'contains');
+  edge('app.tsx', 'handleSubmit', 'contains');
+  edge('retriever.ts', 'buildContextForChange', 'contains');
+  edge('retriever.ts', 'buildContextForFile', 'contains');
+  edge('helpers.py', 'report', 'contains');
+  edge('main', 'App', 'calls');
+  edge('App', 'handleSubmit', 'calls');
+  edge('handleSubmit', 'buildContextForChange', 'calls');
+  edge('report', 'buildContextForChange', 'calls');
+  edge('retriever.test.ts', 'buildContextForChange', 'tests');
+  return graph;
+}
+
+describe('parseGraphQuery', () => {
+  it('parses a function, selectors and clauses in any order', () => {
+    const query = parseGraphQuery('callers(fn:buildContextForChange) limit 5 where path ~ "src/ui" and distance <= 2 depth 3');
+
+    expect(query).toEqual({
+      source: 'callers(fn:buildContextForChange) limit 5 where path ~ "src/ui" and distance <= 2 depth 3',
+      fn: 'callers',
+      selectors: [{ kind: 'fn', pattern: 'buildContextForChange' }],
+      depth: 3,
+      limit: 5,
+      where: [
+        { field: 'path', operator: '~', value: 'src/ui' },
+        { field: 'distance', operator: '<=', value: '2' },
+      ],
+    });
+  });
+
+  it('reports the column of a syntax error', () => {
+    const attempt = (source: string) => {
+      try {
+        parseGraphQuery(source);
+      } catch (error) {
+        return error as GraphQueryError;
+      }
+      throw new Error(`expected ${source} to fail`);
+    };
+
+    expect(attempt('callers(fn:x) where size > 3')).toMatchObject({ column: 21 });
+    expect(attempt('callers(fn:x) where size > 3').message).toContain('Unknown field "size"');
+    expect(attempt('callers fn:x')).toMatchObject({ column: 9 });
+    expect(attempt('lookup(fn:x)').message).toContain('Unknown query function "lookup"');
+    expect(attempt('path(fn:x)').message).toContain('start and an end');
+    expect(attempt('callers(fn:x) depth two')).toMatchObject({ column: 21 });
+    expect(attempt('find(x) where name ~ "("').message).toContain('Invalid pattern');
+    expect(attempt('find("x)')).toBeInstanceOf(GraphQueryError);
+  });
+});
+
+describe('GraphQueryEngine', () => {
+  it('walks callers to the given depth and filters them with where', () => {
+    const engine = new GraphQueryEngine(createProjectGraph());
+
+    const direct = engine.run('callers(fn:buildContextForChange)');
+    expect(direct.rows.map(row => [row.node.id, row.distance])).toEqual([
+      ['report', 1],
+      ['handleSubmit', 1],
+    ]);
+
+    const inUi = engine.run('callers(fn:buildContextForChange) depth 3 where path ~ "src/ui"');
+    expect(inUi.rows.map(row => [row.node.id, row.distance])).toEqual([
+      ['handleSubmit', 1],
+      ['App', 2],
+    ]);
+
+    const python = engine.run('callers(buildContextForChange) depth 3 where language = python');
+    expect(python.rows.map(row => row.node.id)).toEqual(['report']);
+  });
+
+  it('treats a selected file as the symbols it contains', () => {
+    const engine = new GraphQueryEngine(createProjectGraph());
+
+    expect(engine.run('tests(file:retriever.ts)').rows.map(row => row.node.id)).toEqual(['retriever.test.ts']);
+    expect(engine.run('importers(file:src/retrieval/*)').rows.map(row => row.node.id)).toEqual(['app.tsx']);
+    expect(engine.run('members(file:src/ui/app.tsx)').rows.map(row => row.node.id).sort()).toEqual([
+      'App',
+      'handleSubmit',
+    ]);
+  });
+
+  it('finds nodes by glob and truncates at the limit', () => {
+    const engine = new GraphQueryEngine(createProjectGraph());
+    const result = engine.run('find(fn:buildContext*) limit 1');
+
+    expect(result.rows.map(row => row.node.id)).toEqual(['buildContextForChange']);
+    expect(result.truncated).toBe(1);
+    expect(formatQueryTable(result)).toContain('1 row (1 more past the limit)');
+    expect(() => engine.run('find(class:Missing)')).toThrow('No nodes match class:Missing');
+  });
+
+  it('lists the shortest paths between two nodes', () => {
+    const engine = new GraphQueryEngine(createProjectGraph());
+    const result = engine.run('path(file:cli.ts, fn:buildContextForChange) limit 3');
+
+    expect(result.paths?.map(path => path.cost)).toEqual([3, 3, 4]);
+    expect(formatQueryTable(result)).toContain(
+      '3. src/cli.ts -contains-> main -calls-> App -calls-> handleSubmit -calls-> buildContextForChange (cost 4)'
+    );
+    expect(result.rows.map(row => [row.node.id, row.distance])).toContainEqual(['retriever.ts', 2]);
+    expect(queryResultToJson(result).paths?.[2]).toEqual({
+      cost: 4,
+      nodes: ['cli.ts', 'main', 'App', 'handleSubmit', 'buildContextForChange'],
+      edges: ['contains', 'calls', 'calls', 'calls'],
+    });
+  });
+});
@@ -0,0 +1,111 @@
+import { describe, it, expect } from 'vitest';
+import { CodeGraph } from '../../src/graph/CodeGraph.js';
+import { InMemoryGraphStore } from '../../src/graph/store/InMemoryGraphStore.js';
+import { diffGraphs } from '../../src/graph/store/snapshots.js';
+
+function createGraph(functionBody: string): CodeGraph {
+  const graph = new CodeGraph();
+  graph.upsertNode({
+    id: 'file-auth',
+    type: 'file',
+    name: 'auth.ts',
+    path: 'src/auth.ts',
+    content: functionBody,
+    startLine: 1,
+    endLine: 3,
+    metadata: {},
+  });
+  graph.upsertNode({
+    id: 'fn-login',
+    type: 'function',
+    name: 'login',
+    path: 'src/auth.ts',
+    content: functionBody,
+    startLine: 1,
+    endLine: 3,
+    metadata: {},
+  });
+  graph.upsertEdge({
+    id: 'edge-contains',
+    from: 'file-auth',
+    to: 'fn-login',
+    type: 'contains',
+    metadata: {},
+  });
+  return graph;
+}
+
+describe('InMemoryGraphStore snapshots', () => {
+  it('lists snapshots newest first and closes superseded ones', async () => {
+    const store = new InMemoryGraphStore();
+    await store.save(createGraph('function login() {}'));
+    await store.save(createGraph('function login() { return true; }'));
+
+    const snapshots = await store.listSnapshots();
+    expect(snapshots).toHaveLength(2);
+    expect(snapshots[0].supersededAt).toBeNull();
+    expect(snapshots[1].supersededAt).not.toBeNull();
+    expect(snapshots[0].nodeCount).toBe(2);
+    expect(snapshots[0].edgeCount).toBe(1);
+  });
+
+  it('loads historical snapshots by id', async () => {
+    const store = new InMemoryGraphStore();
+    await store.save(createGraph('function login() {}'));
+    const [original] = await store.listSnapshots();
+    await store.save(createGraph('function login() { return true; }'));
+
+    const historical = await store.load(original.id);
+    const latest = await store.load();
+
+    expect(historical?.getNode('fn-login')?.content).toBe('function login() {}');
+    expect(latest?.getNode('fn-login')?.content).toContain('return true');
+    await expect(store.load('missing')).resolves.toBeNull();
+  });
+
+  it('diffs two snapshots', async () => {
+    const store = new InMemoryGraphStore();
+    await store.save(createGraph('function login() {}'));
+    const next = createGraph('function login() { return true; }');
+    next.upsertNode({
+      id: 'fn-logout',
+      type: 'function',
+      name: 'logout',
+      path: 'src/auth.ts',
+      content: 'function logout() {}',
+      startLine: 5,
+      endLine: 5,
+      metadata: {},
+    });
+    next.removeNode('file-auth');
+    await store.save(next);
+
+    const [latest, previous] = await store.listSnapshots();
+    const diff = await store.diffSnapshots(previous.id, latest.id);
+
+    expect(diff.addedNodes.map(node => node.id)).toEqual(['fn-logout']);
+    expect(diff.removedNodes.map(node => node.id)).toEqual(['file-auth']);
+    expect(diff.changedNodes.map(change => change.after.id)).toEqual(['fn-login']);
+    expect(diff.removedEdges.map(edge => edge.id)).toEqual(['edge-contains']);
+    await expect(store.diffSnapshots(previous.id, 'missing')).rejects.toThrow('missing');
+  });
+
+  it('retains a bounded number of snapshots', async () => {
+    const store = new InMemoryGraphStore({ maxSnapshots: 2 });
+    for (let i = 0; i < 4; i += 1) {
+      await store.save(createGraph(`function login() { return ${i}; }`));
+    }
+    expect(await store.listSnapshots()).toHaveLength(2);
+  });
+});
+
+describe('diffGraphs', () => {
+  it('reports no changes for identical graphs', () => {
+    const diff = diffGraphs('a', createGraph('x'), 'b', createGraph('x'));
+    expect(diff.addedNodes).toHaveLength(0);
+    expect(diff.removedNodes).toHaveLength(0);
+    expect(diff.changedNodes).toHaveLength(0);
+    expect(diff.addedEdges).toHaveLength(0);
+    expect(diff.removedEdges).toHaveLength(0);
+  });
+});
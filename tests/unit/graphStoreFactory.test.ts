@@ -0,0 +1,107 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { GraphStoreConfig } from '../../src/graph/store/GraphStore.js';
+
+const fakes = vi.hoisted(() => {
+  const driver = {
+    verifyConnectivity: vi.fn(async () => {}),
+    close: vi.fn(async () => {}),
+    session: vi.fn(),
+  };
+  return {
+    driver,
+    createDriver: vi.fn((_uri: string, _auth: unknown, _options: unknown) => driver),
+    prepareNeo4jConfig: vi.fn(async (config: GraphStoreConfig) => config),
+  };
+});
+
+vi.mock('neo4j-driver', () => ({
+  default: {
+    driver: fakes.createDriver,
+    auth: { basic: (username: string, password: string) => ({ username, password }) },
+  },
+  isInt: () => false,
+}));
+
+vi.mock('../../src/graph/store/provisioning.js', () => ({
+  prepareNeo4jConfig: fakes.prepareNeo4jConfig,
+}));
+
+const { createGraphStore } = await import('../../src/graph/store/factory.js');
+const { Neo4jGraphStore } = await import('../../src/graph/store/Neo4jGraphStore.js');
+const { InMemoryGraphStore } = await import('../../src/graph/store/InMemoryGraphStore.js');
+const { logger } = await import('../../src/utils/logger.js');
+
+const neo4jConfig: GraphStoreConfig = {
+  kind: 'neo4j',
+  uri: 'neo4j://localhost:7687',
+  username: 'neo4j',
+  password: 'secret',
+};
+
+describe('createGraphStore', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    fakes.driver.verifyConnectivity.mockImplementation(async () => {});
+    fakes.prepareNeo4jConfig.mockImplementation(async (config: GraphStoreConfig) => config);
+    vi.spyOn(logger, 'warn').mockImplementation(() => {});
+  });
+
+  it('defaults to the in-memory store', async () => {
+    await expect(createGraphStore(undefined)).resolves.toBeInstanceOf(InMemoryGraphStore);
+  });
+
+  it('builds a Neo4j store once connectivity is verified', async () => {
+    const store = await createGraphStore(neo4jConfig);
+
+    expect(store).toBeInstanceOf(Neo4jGraphStore);
+    expect(fakes.createDriver).toHaveBeenCalledWith(
+      neo4jConfig.uri,
+      { username: 'neo4j', password: 'secret' },
+      expect.any(Object)
+    );
+    expect(fakes.driver.verifyConnectivity).toHaveBeenCalledTimes(1);
+  });
+
+  it('connects with credentials returned by provisioning', async () => {
+    fakes.prepareNeo4jConfig.mockResolvedValueOnce({
+      ...neo4jConfig,
+      uri: 'neo4j+s://provisioned.example',
+      username: 'provisioned',
+      password: 'generated',
+      provisioning: { enabled: true, apiUrl: 'https://provisioning.example', databaseId: 'db-1' },
+    });
+
+    await createGraphStore({ kind: 'neo4j', provisioning: { enabled: true } });
+
+    expect(fakes.prepareNeo4jConfig).toHaveBeenCalledWith({
+      kind: 'neo4j',
+      provisioning: { enabled: true },
+    });
+    expect(fakes.createDriver).toHaveBeenCalledWith(
+      'neo4j+s://provisioned.example',
+      { username: 'provisioned', password: 'generated' },
+      expect.any(Object)
+    );
+  });
+
+  it('falls back to memory with a warning when Neo4j is unreachable', async () => {
+    fakes.driver.verifyConnectivity.mockRejectedValueOnce(new Error('connection refused'));
+
+    const store = await createGraphStore(neo4jConfig);
+
+    expect(store).toBeInstanceOf(InMemoryGraphStore);
+    expect(fakes.driver.close).toHaveBeenCalledTimes(1);
+    expect(logger.warn).toHaveBeenCalledWith(
+      expect.stringContaining('falling back to in-memory store'),
+      { error: 'connection refused' }
+    );
+  });
+
+  it('falls back to memory when credentials are missing', async () => {
+    const store = await createGraphStore({ kind: 'neo4j' });
+
+    expect(store).toBeInstanceOf(InMemoryGraphStore);
+    expect(fakes.createDriver).not.toHaveBeenCalled();
+    expect(logger.warn).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,203 @@
+import { describe, it, expect } from 'vitest';
+import { CodeGraph, type GraphEdge, type GraphNode } from '../../src/graph/CodeGraph.js';
+import { ImpactAnalyzer, formatImpactReport } from '../../src/graph/ImpactAnalyzer.js';
+import { parseUnifiedDiff } from '../../src/files/GitIntegration.js';
+
+function createProjectGraph(): CodeGraph {
+  const graph = new CodeGraph();
+  const node = (
+    id: string,
+    type: GraphNode['type'],
+    path: string,
+    lines: [number, number],
+    metadata: Record<string, unknown> = {}
+  ) =>
+    graph.upsertNode({ id, type, name: id, path, content: '', startLine: lines[0], endLine: lines[1], metadata });
+  const edge = (from: string, to: string, type: GraphEdge['type']) =>
+    graph.upsertEdge({ id: `${from}-${type}-${to}`, from, to, type, metadata: {} });
+
+  node('store.ts', 'file', 'src/store.ts', [1, 40]);
+  node('Store', 'class', 'src/store.ts', [3, 30]);
+  node('save', 'function', 'src/store.ts', [10, 20]);
+  node('load', 'function', 'src/store.ts', [22, 28]);
+  node('service.ts', 'file', 'src/service.ts', [1, 30]);
+  node('persist', 'function', 'src/service.ts', [5, 15]);
+  node('CachedStore', 'class', 'src/service.ts', [17, 28]);
+  node('cli.ts', 'file', 'src/cli.ts', [1, 10]);
+  node('main', 'function', 'src/cli.ts', [2, 9]);
+  node('store.test.ts', 'file', 'tests/store.test.ts', [1, 20], { test: true });
+  node('saves records', 'test', 'tests/store.test.ts', [3, 9]);
+  node('persists', 'test', 'tests/store.test.ts', [11, 18]);
+
+  for (const [file, member] of [
+    ['store.ts', 'Store'],
+    ['store.ts', 'save'],
+    ['store.ts', 'load'],
+    ['service.ts', 'persist'],
+    ['service.ts', 'CachedStore'],
+    ['cli.ts', 'main'],
+    ['store.test.ts', 'saves records'],
+    ['store.test.ts', 'persists'],
+  ]) {
+    edge(file, member, 'contains');
+  }
+  edge('service.ts', 'store.ts', 'imports');
+  edge('cli.ts', 'service.ts', 'imports');
+  edge('store.test.ts', 'store.ts', 'imports');
+  edge('persist', 'save', 'calls');
+  edge('main', 'persist', 'calls');
+  edge('CachedStore', 'Store', 'extends');
+  edge('saves records', 'save', 'tests');
+  edge('persists', 'persist', 'tests');
+  return graph;
+}
+
+describe('ImpactAnalyzer', () => {
+  it('walks dependents of the innermost changed symbol and collects linked tests', () => {
+    const report = new ImpactAnalyzer(createProjectGraph()).analyze([
+      { path: 'src/store.ts', status: 'modified', ranges: [{ start: 12, end: 13 }] },
+    ]);
+
+    // Editing `save` does not implicate subclasses of the enclosing `Store`.
+    expect(report.changed.map(node => node.id)).toEqual(['save']);
+    expect(report.dependents.map(({ node, distance, via }) => [node.id, distance, via?.type])).toEqual([
+      ['persist', 1, 'calls'],
+      ['main', 2, 'calls'],
+    ]);
+    expect(report.byFile.map(file => file.path)).toEqual(['src/service.ts', 'src/cli.ts']);
+    expect(report.tests.map(node => node.id)).toEqual(['saves records', 'persists']);
+    expect(formatImpactReport(report)).toContain('src/service.ts: persist [1, calls save]');
+  });
+
+  it('treats changes outside any symbol as a change to the file', () => {
+    const analyzer = new ImpactAnalyzer(createProjectGraph());
+    const report = analyzer.analyze([
+      { path: 'src/store.ts', status: 'modified', ranges: [{ start: 1, end: 1 }] },
+      { path: 'src/new.ts', status: 'added', ranges: [] },
+    ]);
+
+    expect(report.changed.map(node => node.id)).toEqual(['store.ts']);
+    expect(report.dependents.map(({ node, distance }) => [node.id, distance])).toEqual([
+      ['service.ts', 1],
+      ['cli.ts', 2],
+    ]);
+    // The test file reached through its import is reported as a test, not a dependent.
+    expect(report.tests.map(node => node.id)).toContain('store.test.ts');
+    expect(report.unindexed).toEqual(['src/new.ts']);
+
+    const shallow = analyzer.analyze([{ path: 'src/store.ts', status: 'deleted', ranges: [] }], { maxDepth: 1 });
+    expect(shallow.dependents.map(({ node }) => node.id)).toEqual(['service.ts', 'persist', 'CachedStore']);
+  });
+});
+
+describe('parseUnifiedDiff', () => {
+  it('reads changed, added and deleted files with new-side line ranges', () => {
+    const diff = [
+      'diff --git a/src/store.ts b/src/store.ts',
+      'index 1111111..2222222 100644',
+      '--- a/src/store.ts',
+      '+++ b/src/store.ts',
+      '@@ -12 +12 @@ export class Store {',
+      '-  old',
+      '+  new',
+      '@@ -30,2 +30,0 @@',
+      '-  gone',
+      '-  gone',
+      '@@ -40,0 +39,3 @@',
+      '+a',
+      '+b',
+      '+c',
+      'diff --git a/src/added.ts b/src/added.ts',
+      'new file mode 100644',
+      '--- /dev/null',
+      '+++ b/src/added.ts',
+      '@@ -0,0 +1,2 @@',
+      '+x',
+      '+y',
+      'diff --git a/src/removed.ts b/src/removed.ts',
+      'deleted file mode 100644',
+      '--- a/src/removed.ts',
+      '+++ /dev/null',
+      '@@ -1,2 +0,0 @@',
+      '-x',
+      '-y',
+    ].join('\n');
+
+    expect(parseUnifiedDiff(diff)).toEqual([
+      {
+        path: 'src/store.ts',
+        status: 'modified',
+        ranges: [
+          { start: 12, end: 12 },
+          { start: 30, end: 30 },
+          { start: 39, end: 41 },
+        ],
+      },
+      { path: 'src/added.ts', status: 'added', ranges: [] },
+      { path: 'src/removed.ts', status: 'deleted', ranges: [] },
+    ]);
+  });
+
+  it('reports a pure rename as the old path deleted and the new path added', () => {
+    const diff = [
+      'diff --git a/src/old.ts b/src/new.ts',
+      'similarity index 100%',
+      'rename from src/old.ts',
+      'rename to src/new.ts',
+    ].join('\n');
+
+    expect(parseUnifiedDiff(diff)).toEqual([
+      { path: 'src/old.ts', status: 'deleted', ranges: [] },
+      { path: 'src/new.ts', status: 'added', ranges: [] },
+    ]);
+  });
+
+  it('reports a rename with edits without a modified entry for the new path', () => {
+    const diff = [
+      'diff --git a/src/old.ts b/src/new.ts',
+      'similarity index 90%',
+      'rename from src/old.ts',
+      'rename to src/new.ts',
+      'index 1111111..2222222 100644',
+      '--- a/src/old.ts',
+      '+++ b/src/new.ts',
+      '@@ -3 +3 @@',
+      '-a',
+      '+b',
+      'diff --git a/src/store.ts b/src/store.ts',
+      '--- a/src/store.ts',
+      '+++ b/src/store.ts',
+      '@@ -5 +5 @@',
+      '-x',
+      '+y',
+    ].join('\n');
+
+    expect(parseUnifiedDiff(diff)).toEqual([
+      { path: 'src/old.ts', status: 'deleted', ranges: [] },
+      { path: 'src/new.ts', status: 'added', ranges: [] },
+      { path: 'src/store.ts', status: 'modified', ranges: [{ start: 5, end: 5 }] },
+    ]);
+  });
+
+  it('reads binary files as added, modified or deleted', () => {
+    const diff = [
+      'diff --git a/assets/logo.png b/assets/logo.png',
+      'index 1111111..2222222 100644',
+      'Binary files a/assets/logo.png and b/assets/logo.png differ',
+      'diff --git a/assets/icon.png b/assets/icon.png',
+      'new file mode 100644',
+      'index 0000000..3333333',
+      'Binary files /dev/null and b/assets/icon.png differ',
+      'diff --git a/assets/old.png b/assets/old.png',
+      'deleted file mode 100644',
+      'index 4444444..0000000',
+      'Binary files a/assets/old.png and /dev/null differ',
+    ].join('\n');
+
+    expect(parseUnifiedDiff(diff)).toEqual([
+      { path: 'assets/logo.png', status: 'modified', ranges: [] },
+      { path: 'assets/icon.png', status: 'added', ranges: [] },
+      { path: 'assets/old.png', status: 'deleted', ranges: [] },
+    ]);
+  });
+});
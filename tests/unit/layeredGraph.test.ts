@@ -0,0 +1,104 @@
+import { describe, it, expect } from 'vitest';
+import { CodeGraph, type GraphEdge, type GraphNode } from '../../src/graph/CodeGraph.js';
+import { DiffOverlay } from '../../src/graph/DiffOverlay.js';
+
+function node(id: string, path: string, content = ''): GraphNode {
+  return {
+    id,
+    type: id.startsWith('file') ? 'file' : 'function',
+    name: id,
+    path,
+    content,
+    startLine: 1,
+    endLine: 1,
+    metadata: {},
+  };
+}
+
+function edge(from: string, to: string, type: GraphEdge['type']): GraphEdge {
+  return { id: `${from}->${to}`, from, to, type, metadata: {} };
+}
+
+function createBase(): CodeGraph {
+  const graph = new CodeGraph();
+  graph.upsertNode(node('file-a', 'src/a.ts'));
+  graph.upsertNode(node('fn-a', 'src/a.ts', 'old'));
+  graph.upsertNode(node('file-b', 'src/b.ts'));
+  graph.upsertNode(node('fn-b', 'src/b.ts'));
+  graph.upsertEdge(edge('file-a', 'fn-a', 'contains'));
+  graph.upsertEdge(edge('file-b', 'fn-b', 'contains'));
+  graph.upsertEdge(edge('fn-b', 'fn-a', 'calls'));
+  return graph;
+}
+
+/** Re-record src/a.ts the way GraphManager does: remove its nodes, then add the new parse. */
+function createOverlay(base: CodeGraph): DiffOverlay {
+  const overlay = new DiffOverlay('overlay', { fingerprint: 'base' });
+  for (const existing of base.getNodesByPath('src/a.ts')) {
+    overlay.addOperation({ type: 'remove', nodeId: existing.id, metadata: { path: 'src/a.ts' } });
+  }
+  overlay.addOperation({ type: 'add', node: node('file-a', 'src/a.ts') });
+  overlay.addOperation({ type: 'add', node: node('fn-a', 'src/a.ts', 'new') });
+  overlay.addOperation({ type: 'add', node: node('fn-a2', 'src/a.ts') });
+  overlay.addOperation({ type: 'add', edge: edge('file-a', 'fn-a', 'contains') });
+  overlay.addOperation({ type: 'add', edge: edge('file-a', 'fn-a2', 'contains') });
+  overlay.addOperation({ type: 'add', edge: edge('fn-a2', 'fn-b', 'calls') });
+  return overlay;
+}
+
+function sortedIds(items: Array<{ id: string }>): string[] {
+  return items.map(item => item.id).sort();
+}
+
+describe('LayeredGraph', () => {
+  it('reads through to the base without mutating it', () => {
+    const base = createBase();
+    const view = createOverlay(base).apply(base);
+
+    expect(view.getNode('fn-a')?.content).toBe('new');
+    expect(base.getNode('fn-a')?.content).toBe('old');
+    expect(base.hasNode('fn-a2')).toBe(false);
+    expect(sortedIds(view.getNodesByPath('src/a.ts'))).toEqual(['file-a', 'fn-a', 'fn-a2']);
+    expect(view.getNeighbors('fn-a2', 'calls').map(n => n.id)).toEqual(['fn-b']);
+  });
+
+  it('matches applying the same operations to a copy of the base', () => {
+    const base = createBase();
+    const overlay = createOverlay(base);
+    const view = overlay.apply(base);
+
+    const expected = base.clone();
+    for (const op of overlay.getOperations()) {
+      if (op.type === 'remove' && op.nodeId) expected.removeNode(op.nodeId);
+      else if (op.node) expected.upsertNode(op.node);
+      else if (op.edge) expected.upsertEdge(op.edge);
+    }
+
+    expect(sortedIds(view.getAllNodes())).toEqual(sortedIds(expected.getAllNodes()));
+    expect(sortedIds(view.getAllEdges())).toEqual(sortedIds(expected.getAllEdges()));
+    for (const id of ['file-a', 'fn-a', 'fn-a2', 'fn-b']) {
+      expect(sortedIds(view.getOutgoingEdges(id))).toEqual(sortedIds(expected.getOutgoingEdges(id)));
+      expect(sortedIds(view.getIncomingEdges(id))).toEqual(sortedIds(expected.getIncomingEdges(id)));
+    }
+    // Removing fn-a dropped the incoming call from fn-b, even though fn-a was re-added.
+    expect(view.getOutgoingEdges('fn-b')).toEqual([]);
+  });
+
+  it('materialises into a standalone graph', () => {
+    const base = createBase();
+    const materialised = createOverlay(base).apply(base).clone();
+
+    materialised.removeNodesByPath('src/b.ts');
+
+    expect(materialised.hasNode('fn-a2')).toBe(true);
+    expect(base.hasNode('fn-b')).toBe(true);
+  });
+
+  it('references its base by fingerprint instead of embedding it', () => {
+    const overlay = new DiffOverlay('overlay', { fingerprint: 'base', snapshotId: 'snap-1' });
+    const restored = DiffOverlay.fromJSON(overlay.toJSON());
+
+    expect(restored.base).toEqual({ fingerprint: 'base', snapshotId: 'snap-1' });
+    expect(overlay.toJSON()).not.toContain('nodes');
+  });
+});
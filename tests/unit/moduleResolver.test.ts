@@ -0,0 +1,257 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
+import { ModuleResolver } from '../../src/graph/ModuleResolver.js';
+import { GraphBuilder } from '../../src/graph/GraphBuilder.js';
+
+async function writeFiles(root: string, files: Record<string, string>): Promise<void> {
+  for (const [relativePath, content] of Object.entries(files)) {
+    const fullPath = path.join(root, relativePath);
+    await fs.mkdir(path.dirname(fullPath), { recursive: true });
+    await fs.writeFile(fullPath, content, 'utf-8');
+  }
+}
+
+describe('ModuleResolver', () => {
+  let tempDir: string;
+  let resolver: ModuleResolver;
+
+  beforeAll(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'module-resolver-'));
+    await writeFiles(tempDir, {
+      'tsconfig.json': `{
+  // comments and trailing commas are allowed here
+  "compilerOptions": {
+    "baseUrl": ".",
+    "paths": { "@app/*": ["src/*"], },
+  },
+}`,
+      'src/index.ts': `import { helper } from './utils/helper.js';`,
+      'src/utils/helper.ts': 'export function helper() {}',
+      'src/components/index.tsx': 'export const Button = () => null;',
+      'packages/shared/package.json': JSON.stringify({
+        name: '@acme/shared',
+        exports: {
+          '.': { types: './dist/index.d.ts', import: './dist/index.js' },
+          './feature/*': './src/feature/*.ts',
+        },
+      }),
+      'packages/shared/src/index.ts': 'export const shared = 1;',
+      'packages/shared/src/feature/flags.ts': 'export const flags = {};',
+      'app/__init__.py': '',
+      'app/models.py': 'class User:\n    pass\n',
+      'app/services/__init__.py': '',
+      'app/services/auth.py': 'from ..models import User\n',
+    });
+    await fs.mkdir(path.join(tempDir, 'node_modules/@acme'), { recursive: true });
+    await fs.symlink(
+      path.join(tempDir, 'packages/shared'),
+      path.join(tempDir, 'node_modules/@acme/shared'),
+      'dir'
+    );
+
+    resolver = new ModuleResolver(tempDir);
+  });
+
+  afterAll(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('maps .js specifiers onto TypeScript sources', async () => {
+    await expect(resolver.resolve('./utils/helper.js', 'src/index.ts', 'typescript')).resolves.toEqual({
+      kind: 'file',
+      path: 'src/utils/helper.ts',
+    });
+  });
+
+  it('applies tsconfig paths and resolves index files', async () => {
+    await expect(resolver.resolve('@app/components', 'src/index.ts', 'typescript')).resolves.toEqual({
+      kind: 'file',
+      path: 'src/components/index.tsx',
+    });
+    await expect(resolver.resolve('src/utils/helper', 'src/index.ts', 'typescript')).resolves.toEqual({
+      kind: 'file',
+      path: 'src/utils/helper.ts',
+    });
+  });
+
+  it('follows package exports of linked workspace packages', async () => {
+    await expect(resolver.resolve('@acme/shared', 'src/index.ts', 'typescript')).resolves.toEqual({
+      kind: 'file',
+      path: 'packages/shared/src/index.ts',
+    });
+    await expect(
+      resolver.resolve('@acme/shared/feature/flags', 'src/index.ts', 'typescript')
+    ).resolves.toEqual({ kind: 'file', path: 'packages/shared/src/feature/flags.ts' });
+  });
+
+  it('reports third-party and builtin modules as external packages', async () => {
+    await expect(resolver.resolve('react-dom/client', 'src/index.ts', 'typescript')).resolves.toEqual({
+      kind: 'external',
+      packageName: 'react-dom',
+      ecosystem: 'npm',
+    });
+    await expect(resolver.resolve('node:fs/promises', 'src/index.ts', 'typescript')).resolves.toEqual({
+      kind: 'external',
+      packageName: 'node:fs',
+      ecosystem: 'node',
+    });
+    await expect(resolver.resolve('./missing', 'src/index.ts', 'typescript')).resolves.toEqual({
+      kind: 'unresolved',
+    });
+  });
+
+  it('resolves Python relative and package imports', async () => {
+    await expect(resolver.resolve('..models', 'app/services/auth.py', 'python')).resolves.toEqual({
+      kind: 'file',
+      path: 'app/models.py',
+    });
+    await expect(resolver.resolve('app.services', 'app/models.py', 'python')).resolves.toEqual({
+      kind: 'file',
+      path: 'app/services/__init__.py',
+    });
+    await expect(resolver.resolve('requests.adapters', 'app/models.py', 'python')).resolves.toEqual({
+      kind: 'external',
+      packageName: 'requests',
+      ecosystem: 'python',
+    });
+  });
+});
+
+describe('GraphBuilder import resolution', () => {
+  let tempDir: string;
+
+  beforeAll(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'graph-imports-'));
+    await writeFiles(tempDir, {
+      'src/main.ts': `import { readFile } from 'fs/promises';
+import type { Config } from './config.js';
+import lodash, { debounce } from 'lodash';
+
+export function load(config: Config) {
+  return readFile(config.path);
+}
+`,
+      'src/config.ts': 'export interface Config { path: string }\n',
+      'pkg/__init__.py': '',
+      'pkg/models.py': 'class User:\n    pass\n',
+      'pkg/views.py': 'from .models import User\nimport requests\n\ndef show():\n    return User()\n',
+    });
+  });
+
+  afterAll(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('links imports to files and to external package nodes', async () => {
+    const graph = await new GraphBuilder(tempDir).build();
+    const nodes = graph.getAllNodes();
+    const fileId = (filePath: string) => nodes.find(node => node.type === 'file' && node.path === filePath)?.id;
+    const importTargets = (filePath: string) =>
+      graph
+        .getAllEdges()
+        .filter(edge => edge.type === 'imports' && edge.from === fileId(filePath))
+        .map(edge => graph.getNode(edge.to));
+
+    const packages = nodes.filter(node => node.type === 'package').map(node => node.name).sort();
+    expect(packages).toEqual(['lodash', 'node:fs', 'requests']);
+
+    expect(importTargets('src/main.ts').map(node => node?.path).sort()).toEqual([
+      'lodash',
+      'node:fs',
+      'src/config.ts',
+    ]);
+    expect(importTargets('pkg/views.py').map(node => node?.path).sort()).toEqual([
+      'pkg/models.py',
+      'requests',
+    ]);
+
+    const config = nodes.find(node => node.name === 'Config' && node.type === 'interface');
+    const referencesConfig = graph
+      .getAllEdges()
+      .some(edge => edge.type === 'references' && edge.from === fileId('src/main.ts') && edge.to === config?.id);
+    expect(referencesConfig).toBe(true);
+  });
+
+  it('drops package nodes that are no longer imported', async () => {
+    const builder = new GraphBuilder(tempDir);
+    const graph = await builder.build();
+
+    await fs.writeFile(path.join(tempDir, 'pkg/views.py'), 'from .models import User\n', 'utf-8');
+    const { graph: updated } = await builder.buildIncremental(graph);
+
+    const packages = updated.getAllNodes().filter(node => node.type === 'package').map(node => node.name);
+    expect(packages).not.toContain('requests');
+    expect(packages).toContain('lodash');
+  });
+});
+
+describe('Workspace packages', () => {
+  let tempDir: string;
+
+  beforeAll(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'graph-workspaces-'));
+    await writeFiles(tempDir, {
+      'package.json': JSON.stringify({ name: 'acme', private: true, workspaces: ['packages/*', '!packages/sandbox'] }),
+      'pnpm-workspace.yaml': "packages:\n  - 'apps/*'   # deployables\nonlyBuiltDependencies:\n  - esbuild\n",
+      'packages/core/package.json': JSON.stringify({ name: '@acme/core', main: './dist/index.js' }),
+      'packages/core/src/index.ts': "export { format } from './format.js';\n",
+      'packages/core/src/format.ts': 'export function format(value: string) {\n  return value.trim();\n}\n',
+      'packages/sandbox/package.json': JSON.stringify({ name: '@acme/sandbox' }),
+      'packages/sandbox/index.ts': 'export const sandbox = 1;\n',
+      'apps/web/package.json': JSON.stringify({ name: '@acme/web' }),
+      'apps/web/src/main.ts':
+        "import { format } from '@acme/core';\n\nexport function render(title: string) {\n  return format(title);\n}\n",
+    });
+  });
+
+  afterAll(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('detects npm and pnpm workspaces and resolves them without node_modules links', async () => {
+    const resolver = new ModuleResolver(tempDir);
+
+    await expect(resolver.workspaces()).resolves.toEqual([
+      { name: '@acme/web', directory: 'apps/web' },
+      { name: '@acme/core', directory: 'packages/core' },
+    ]);
+    await expect(resolver.resolve('@acme/core', 'apps/web/src/main.ts', 'typescript')).resolves.toEqual({
+      kind: 'file',
+      path: 'packages/core/src/index.ts',
+    });
+    await expect(resolver.resolve('@acme/sandbox', 'apps/web/src/main.ts', 'typescript')).resolves.toEqual({
+      kind: 'external',
+      packageName: '@acme/sandbox',
+      ecosystem: 'npm',
+    });
+  });
+
+  it('adds workspace package nodes that contain their files', async () => {
+    const graph = await new GraphBuilder(tempDir).build();
+    const nodes = graph.getAllNodes();
+    const workspace = (name: string) =>
+      nodes.find(node => node.type === 'package' && node.name === name && node.metadata.workspace);
+    const containedFiles = (name: string) =>
+      graph
+        .getNeighbors(workspace(name)!.id, 'contains')
+        .map(node => node.path)
+        .sort();
+
+    expect(workspace('@acme/core')?.path).toBe('packages/core');
+    expect(containedFiles('@acme/core')).toEqual([
+      'packages/core/package.json',
+      'packages/core/src/format.ts',
+      'packages/core/src/index.ts',
+    ]);
+    expect(containedFiles('@acme/web')).toEqual(['apps/web/package.json', 'apps/web/src/main.ts']);
+    expect(workspace('@acme/sandbox')).toBeUndefined();
+
+    const render = nodes.find(node => node.name === 'render');
+    const format = nodes.find(node => node.name === 'format' && node.type === 'function');
+    expect(
+      graph.getOutgoingEdges(render!.id).some(edge => edge.type === 'calls' && edge.to === format?.id)
+    ).toBe(true);
+  });
+});
@@ -1,4 +1,9 @@
 import { describe, it, expect } from 'vitest';
+import os from 'os';
+import path from 'path';
+import * as fs from 'fs/promises';
+import Python from 'tree-sitter-python';
+import { loadQueryDirectory } from '../../src/parser/LanguagePack.js';
 import { languageRegistry } from '../../src/parser/LanguageRegistry.js';
 import { TreeSitterParser } from '../../src/parser/TreeSitterParser.js';
 import { SymbolExtractor } from '../../src/parser/SymbolExtractor.js';
@@ -33,3 +38,285 @@ describe('SymbolExtractor', () => {
     expect(names).toContain('sayHello');
   });
 });
+
+describe('SymbolExtractor for Go, Rust and Java', () => {
+  const parser = new TreeSitterParser();
+  const extractor = new SymbolExtractor();
+
+  it('infers the new languages from file extensions', () => {
+    expect(languageRegistry.inferFromPath('main.go')).toBe('go');
+    expect(languageRegistry.inferFromPath('lib.rs')).toBe('rust');
+    expect(languageRegistry.inferFromPath('App.java')).toBe('java');
+  });
+
+  it('extracts Go structs, interfaces, methods and calls', async () => {
+    const source = `package main
+
+import (
+  "fmt"
+  str "strings"
+)
+
+// Greeter says hello.
+type Greeter struct {
+  name string
+}
+
+type Speaker interface {
+  Speak() string
+}
+
+func (g *Greeter) Greet() string {
+  return fmt.Sprintf("hi %s", str.ToUpper(g.name))
+}
+
+func newGreeter(name string) *Greeter {
+  return &Greeter{name: name}
+}
+`;
+    const tree = await parser.parse(source, 'go');
+    const { symbols, references } = extractor.extractGraphData(tree, 'go');
+
+    const greeter = symbols.find(symbol => symbol.name === 'Greeter');
+    expect(greeter).toMatchObject({ type: 'class', exported: true, signature: 'struct Greeter' });
+    expect(greeter?.documentation).toBe('Greeter says hello.');
+    expect(symbols.find(symbol => symbol.name === 'Speaker')?.signature).toBe('interface Speaker');
+    expect(symbols.find(symbol => symbol.name === 'Greet')).toMatchObject({
+      kind: 'method',
+      parentName: 'Greeter',
+      parentType: 'class',
+    });
+    expect(symbols.find(symbol => symbol.name === 'newGreeter')?.exported).toBe(false);
+    expect(symbols.filter(symbol => symbol.type === 'import').map(symbol => symbol.content)).toEqual([
+      '"fmt"',
+      'str "strings"',
+    ]);
+    expect(references.filter(ref => ref.kind === 'call').map(ref => ref.targetName)).toEqual(
+      expect.arrayContaining(['Sprintf', 'ToUpper'])
+    );
+  });
+
+  it('extracts Rust structs, traits, impls and uses', async () => {
+    const source = `use std::collections::HashMap;
+
+/// A named thing.
+pub struct Greeter {
+    name: String,
+}
+
+pub trait Speak {
+    fn speak(&self) -> String;
+}
+
+impl Speak for Greeter {
+    fn speak(&self) -> String {
+        self.name.clone()
+    }
+}
+
+pub fn build() -> HashMap<String, String> {
+    HashMap::new()
+}
+`;
+    const tree = await parser.parse(source, 'rust');
+    const { symbols, references } = extractor.extractGraphData(tree, 'rust');
+
+    expect(symbols.find(symbol => symbol.name === 'Greeter' && symbol.astType === 'struct_item')).toMatchObject({
+      exported: true,
+      documentation: 'A named thing.',
+    });
+    expect(symbols.find(symbol => symbol.name === 'Speak')?.signature).toBe('trait Speak');
+    expect(symbols.find(symbol => symbol.name === 'speak')).toMatchObject({
+      kind: 'method',
+      parentName: 'Greeter',
+    });
+    expect(symbols.find(symbol => symbol.name === 'build')?.kind).toBe('function_item');
+    expect(symbols.some(symbol => symbol.type === 'import' && symbol.content.includes('HashMap'))).toBe(true);
+    expect(references).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({ kind: 'implements', targetName: 'Speak' }),
+        expect.objectContaining({ kind: 'call', targetName: 'clone' }),
+        expect.objectContaining({ kind: 'call', targetName: 'new' }),
+      ])
+    );
+  });
+
+  it('extracts Java classes, constructors, inheritance and invocations', async () => {
+    const source = `package app;
+
+import java.util.List;
+
+public class Greeter extends Base implements Speaker {
+  private final String name;
+
+  public Greeter(String name) {
+    this.name = name;
+  }
+
+  public String greet() {
+    return format(new StringBuilder(name).toString());
+  }
+}
+`;
+    const tree = await parser.parse(source, 'java');
+    const { symbols, references } = extractor.extractGraphData(tree, 'java');
+
+    expect(symbols.find(symbol => symbol.name === 'Greeter' && symbol.type === 'class')?.exported).toBe(true);
+    expect(symbols.find(symbol => symbol.kind === 'constructor')?.parentName).toBe('Greeter');
+    expect(symbols.find(symbol => symbol.name === 'greet')).toMatchObject({ kind: 'method', exported: true });
+    expect(symbols.find(symbol => symbol.type === 'import')?.content).toBe('import java.util.List;');
+    expect(references).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({ kind: 'extends', targetName: 'Base' }),
+        expect.objectContaining({ kind: 'implements', targetName: 'Speaker' }),
+        expect.objectContaining({ kind: 'call', targetName: 'format' }),
+        expect.objectContaining({ kind: 'call', targetName: 'StringBuilder' }),
+      ])
+    );
+  });
+});
+
+describe('language packs', () => {
+  const source = `def greet(name):
+    return shout(name)
+`;
+
+  it('extracts symbols for a registered pack from its queries alone', async () => {
+    languageRegistry.register({
+      id: 'mini-python',
+      displayName: 'Mini Python',
+      extensions: ['.mpy'],
+      grammar: Python,
+      queries: {
+        definitions: '(function_definition name: (identifier) @name) @definition.function',
+        calls: '(call function: (identifier) @name) @call',
+      },
+    });
+
+    expect(languageRegistry.inferFromPath('script.mpy')).toBe('mini-python');
+    const tree = await new TreeSitterParser().parse(source, 'mini-python');
+    const { symbols, references } = new SymbolExtractor().extractGraphData(tree, 'mini-python');
+
+    expect(symbols.map(symbol => symbol.name)).toEqual(['greet']);
+    expect(references).toEqual([expect.objectContaining({ kind: 'call', targetName: 'shout' })]);
+  });
+
+  it('loads query files from a pack directory', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'codeflow-pack-'));
+    try {
+      await fs.writeFile(path.join(dir, 'definitions.scm'), '(function_definition name: (identifier) @name) @definition.method');
+      languageRegistry.register({
+        id: 'dir-python',
+        displayName: 'Directory Python',
+        extensions: ['.dpy'],
+        grammar: Python,
+        queryDirectory: dir,
+      });
+
+      expect(loadQueryDirectory(dir)).toEqual({ definitions: expect.any(String) });
+      const tree = await new TreeSitterParser().parse(source, 'dir-python');
+      const symbols = new SymbolExtractor().extractSymbols(tree, 'dir-python');
+      expect(symbols).toEqual([expect.objectContaining({ name: 'greet', kind: 'method' })]);
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('reports which query of a pack fails to compile', async () => {
+    languageRegistry.register({
+      id: 'broken-python',
+      displayName: 'Broken Python',
+      extensions: ['.bpy'],
+      grammar: Python,
+      queries: { calls: '(not_a_node) @call' },
+    });
+
+    const tree = await new TreeSitterParser().parse(source, 'broken-python');
+    expect(() => new SymbolExtractor().extractGraphData(tree, 'broken-python')).toThrow(
+      /Invalid calls query for language broken-python/
+    );
+  });
+});
+
+describe('SymbolExtractor declarations', () => {
+  const parser = new TreeSitterParser();
+  const extractor = new SymbolExtractor();
+
+  it('extracts Python constants, variables, enums, protocols and type aliases', async () => {
+    const source = `from enum import Enum
+from typing import Protocol, TypeAlias
+
+MAX_RETRIES = 3
+cache = {}
+UserId: TypeAlias = int
+
+class Color(Enum):
+    RED = 1
+
+class Greeter(Protocol):
+    def greet(self) -> str: ...
+
+def retry():
+    attempts = MAX_RETRIES
+    return attempts
+`;
+    const tree = await parser.parse(source, 'python');
+    const { symbols, references } = extractor.extractGraphData(tree, 'python');
+    const typeOf = (name: string) => symbols.find(symbol => symbol.name === name)?.type;
+
+    expect(typeOf('MAX_RETRIES')).toBe('constant');
+    expect(typeOf('cache')).toBe('variable');
+    expect(typeOf('UserId')).toBe('type_alias');
+    expect(typeOf('Color')).toBe('enum');
+    expect(typeOf('Greeter')).toBe('interface');
+    expect(typeOf('attempts')).toBeUndefined();
+    expect(symbols.find(symbol => symbol.name === 'MAX_RETRIES')?.signature).toBe('MAX_RETRIES = 3');
+
+    const retry = symbols.find(symbol => symbol.name === 'retry')!;
+    const usages = references
+      .filter(ref => ref.kind === 'reference' && ref.sourceStartIndex === retry.startIndex)
+      .map(ref => ref.targetName);
+    expect(usages).toContain('MAX_RETRIES');
+    expect(usages).not.toContain('retry');
+  });
+
+  it('folds arrow functions bound to constants into a single function symbol', async () => {
+    const tree = await parser.parse('export const handler = (event: Event) => event;\n', 'typescript');
+    const symbols = extractor.extractSymbols(tree, 'typescript');
+
+    expect(symbols).toEqual([
+      expect.objectContaining({ name: 'handler', type: 'function', exported: true }),
+    ]);
+  });
+});
+
+describe('SymbolExtractor call sites', () => {
+  const parser = new TreeSitterParser();
+  const extractor = new SymbolExtractor();
+
+  it('records call receivers and callees bound in a local scope', async () => {
+    const source = `function run(handler: () => void) {
+  const save = () => handler();
+  save();
+  this.flush();
+  store.items.clear();
+  helper();
+}
+`;
+    const tree = await parser.parse(source, 'typescript');
+    const calls = extractor
+      .extractGraphData(tree, 'typescript')
+      .references.filter(ref => ref.kind === 'call')
+      .map(({ targetName, receiver, local }) => ({ targetName, receiver, local }));
+
+    expect(calls).toEqual(
+      expect.arrayContaining([
+        { targetName: 'handler', receiver: undefined, local: true },
+        { targetName: 'save', receiver: undefined, local: true },
+        { targetName: 'flush', receiver: 'this', local: undefined },
+        { targetName: 'clear', receiver: 'store.items', local: undefined },
+        { targetName: 'helper', receiver: undefined, local: undefined },
+      ])
+    );
+  });
+});
@@ -0,0 +1,100 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
+import { IgnoreRules } from '../../src/graph/IgnoreRules.js';
+import { SourceFileScanner } from '../../src/graph/SourceFileScanner.js';
+
+async function writeFiles(root: string, files: Record<string, string | Buffer>): Promise<void> {
+  for (const [relativePath, content] of Object.entries(files)) {
+    const fullPath = path.join(root, relativePath);
+    await fs.mkdir(path.dirname(fullPath), { recursive: true });
+    await fs.writeFile(fullPath, content);
+  }
+}
+
+describe('IgnoreRules', () => {
+  it('matches gitignore patterns with anchoring, globstars and negation', () => {
+    const rules = IgnoreRules.parse(
+      ['# generated', '*.gen.ts', '/vendor/', 'fixtures/**/*.json', '!keep.gen.ts', 'tmp?/'].join('\n'),
+      '.gitignore'
+    );
+
+    expect(rules.match('src/api.gen.ts', false)).toBe(true);
+    expect(rules.match('src/keep.gen.ts', false)).toBe(false);
+    expect(rules.match('vendor', true)).toBe(true);
+    expect(rules.match('lib/vendor', true)).toBeUndefined();
+    expect(rules.match('fixtures/a/b/data.json', false)).toBe(true);
+    expect(rules.match('fixtures/data.json', false)).toBe(true);
+    expect(rules.match('tmp1', true)).toBe(true);
+    expect(rules.match('tmp1', false)).toBeUndefined();
+    expect(rules.match('src/api.ts', false)).toBeUndefined();
+  });
+
+  it('only applies below the directory it was loaded from', () => {
+    const rules = IgnoreRules.parse('/out\n', 'packages/web/.gitignore', 'packages/web');
+
+    expect(rules.match('packages/web/out', true)).toBe(true);
+    expect(rules.match('packages/web/src/out', true)).toBeUndefined();
+    expect(rules.match('out', true)).toBeUndefined();
+  });
+});
+
+describe('SourceFileScanner', () => {
+  let tempDir: string;
+
+  beforeAll(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'source-scanner-'));
+    await writeFiles(tempDir, {
+      '.gitignore': 'generated/\n*.log\n',
+      '.codeflowignore': 'legacy/\n!dist/\n',
+      'src/index.ts': 'export const index = 1;\n',
+      'src/generated/client.ts': 'export const client = 1;\n',
+      'src/huge.ts': `export const data = "${'x'.repeat(2048)}";\n`,
+      'src/blob.ts': Buffer.from([0x65, 0x78, 0x00, 0x01]),
+      'packages/web/.gitignore': '/out/\n',
+      'packages/web/src/app.ts': 'export const app = 1;\n',
+      'packages/web/out/app.js': 'exports.app = 1;\n',
+      'packages/web/src/out/kept.ts': 'export const kept = 1;\n',
+      'legacy/old.py': 'def old():\n    pass\n',
+      'dist/bundle.js': 'module.exports = {};\n',
+      'node_modules/dep/index.js': 'module.exports = {};\n',
+      'scripts/tool.py': 'def tool():\n    pass\n',
+      'src/index.spec.ts': 'test();\n',
+    });
+  });
+
+  afterAll(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('layers defaults, .gitignore files, .codeflowignore and config excludes', async () => {
+    const scanner = new SourceFileScanner(tempDir, { exclude: ['*.spec.ts'], maxFileSize: 1024 });
+    const { files, skipped } = await scanner.scan();
+
+    expect(files.sort()).toEqual([
+      'dist/bundle.js',
+      'packages/web/src/app.ts',
+      'packages/web/src/out/kept.ts',
+      'scripts/tool.py',
+      'src/index.ts',
+    ]);
+
+    const reasons = Object.fromEntries(skipped.map(entry => [entry.path, [entry.reason, entry.detail]]));
+    expect(reasons['node_modules']).toEqual(['ignored', 'default']);
+    expect(reasons['src/generated']).toEqual(['ignored', '.gitignore']);
+    expect(reasons['packages/web/out']).toEqual(['ignored', 'packages/web/.gitignore']);
+    expect(reasons['legacy']).toEqual(['ignored', '.codeflowignore']);
+    expect(reasons['src/index.spec.ts']).toEqual(['excluded', 'config']);
+    expect(reasons['src/huge.ts']?.[0]).toBe('too-large');
+    expect(reasons['src/blob.ts']?.[0]).toBe('binary');
+  });
+
+  it('limits indexing to include globs', async () => {
+    const scanner = new SourceFileScanner(tempDir, { include: ['src', 'scripts/*.py'] });
+    const { files, skipped } = await scanner.scan();
+
+    expect(files.sort()).toEqual(['scripts/tool.py', 'src/huge.ts', 'src/index.spec.ts', 'src/index.ts']);
+    expect(skipped).toContainEqual({ path: 'dist/bundle.js', reason: 'not-included' });
+  });
+});